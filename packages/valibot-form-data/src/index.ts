@@ -1,9 +1,100 @@
+export type { ChoiceOption, ChoiceSource, ChoiceValue } from "./lib/choice.ts";
+export { checkboxGroup, enumField, multiSelect, radioGroup } from "./lib/choice.ts";
+export type { CrossFieldAction, CrossFieldMessage } from "./lib/cross-field.ts";
+export { atLeastOneOf, before, matches, requiredIf } from "./lib/cross-field.ts";
+export type {
+  DateTimeLocalOptions,
+  MonthValue,
+  TemporalOptions,
+  TemporalType,
+  TimeValue,
+  WeekValue,
+} from "./lib/date-time.ts";
+export { date, datetimeLocal, month, time, week } from "./lib/date-time.ts";
+export type { DelimitedOptions } from "./lib/delimited.ts";
+export { delimited } from "./lib/delimited.ts";
 export {
+  bigintField,
   checkbox,
+  decimalField,
   file,
   formData,
+  formDataAsync,
+  formDataPatch,
   numeric,
   repeatable,
   repeatableOfType,
   text,
 } from "./lib/form-data-schema.ts";
+export type {
+  DecimalOptions,
+  DuplicatesPolicy,
+  FormDataOptions,
+  FormDataPatch,
+  FormVariantSchema,
+  FormVariantSchemaAsync,
+  NumericOptions,
+} from "./lib/form-data-schema.ts";
+export type { FormVariant } from "./lib/form-variant.ts";
+export { formVariant } from "./lib/form-variant.ts";
+export type { FieldNames, FieldNamesOptions } from "./lib/field-names.ts";
+export { fieldNames } from "./lib/field-names.ts";
+export type { FieldPath, ValuePath } from "./lib/field-path.ts";
+export type { FileHashAlgorithm, FileType, HashedFile } from "./lib/file-content.ts";
+export { fileContent, fileHash, fileSignature } from "./lib/file-content.ts";
+export type { FormErrors, FormErrorsOptions, SafeParseFormResult } from "./lib/form-errors.ts";
+export { formErrors, safeParseForm } from "./lib/form-errors.ts";
+export type { FieldAttributes, FieldAttributesOptions, InputProps } from "./lib/input-props.ts";
+export { fieldAttributes, inputProps } from "./lib/input-props.ts";
+export type { JsonOptions } from "./lib/json.ts";
+export { json } from "./lib/json.ts";
+export type {
+  MultipartFileInfo,
+  MultipartFileWriter,
+  MultipartOptions,
+  MultipartResult,
+  MultipartStorage,
+} from "./lib/multipart.ts";
+export { parseMultipart } from "./lib/multipart.ts";
+export type { NumberFormatOptions } from "./lib/number-format.ts";
+export type {
+  JsonSchema,
+  OpenApiEncoding,
+  OpenApiMediaType,
+  OpenApiOptions,
+  OpenApiRequestBody,
+} from "./lib/openapi.ts";
+export { toOpenApiRequestBody } from "./lib/openapi.ts";
+export type {
+  NodeRequestLike,
+  ParseRequestOptions,
+  ParseRequestResult,
+} from "./lib/parse-request.ts";
+export { parseNodeRequest, parseRequest } from "./lib/parse-request.ts";
+export type {
+  FileMetadata,
+  ParseFormOptions,
+  ParseFormResult,
+  RawFormValue,
+  RawFormValues,
+} from "./lib/parse-form.ts";
+export { parseForm } from "./lib/parse-form.ts";
+export type { PathArrayToStringOptions, PathNotation } from "./lib/path-array-to-string.ts";
+export { pathArrayToString } from "./lib/path-array-to-string.ts";
+export type { RequestIssue } from "./lib/request-body.ts";
+export type {
+  PaginationOptions,
+  SearchParamsInput,
+  SortDirection,
+  SortParamValue,
+  SortValue,
+} from "./lib/search-params.ts";
+export { pagination, searchParams, sortParam, toQueryString } from "./lib/search-params.ts";
+export type {
+  NumericKeys,
+  PathSegment,
+  StringToPathArrayOptions,
+} from "./lib/string-to-path-array.ts";
+export { APPEND_SEGMENT, stringToPathArray } from "./lib/string-to-path-array.ts";
+export type { SerializeOptions } from "./lib/to-form-data.ts";
+export { toFormData, toSearchParams } from "./lib/to-form-data.ts";
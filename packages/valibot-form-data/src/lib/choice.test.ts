@@ -0,0 +1,235 @@
+import * as assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import * as v from "valibot";
+import { checkboxGroup, enumField, multiSelect, radioGroup } from "./choice.ts";
+import { formData } from "./form-data-schema.ts";
+import { inputProps } from "./input-props.ts";
+import { toOpenApiRequestBody } from "./openapi.ts";
+import { toFormData } from "./to-form-data.ts";
+
+// Compiled forms of `enum Priority { Low = 1, High = 2 }` and `enum Color { Red = "red",
+// Green = "green" }`, as enums are not supported when running tests with type stripping.
+const Priority = { Low: 1, High: 2, 1: "Low", 2: "High" } as unknown as {
+  readonly Low: 1;
+  readonly High: 2;
+};
+const Color = { Red: "red", Green: "green" } as const;
+
+describe("enumField()", () => {
+  test("should parse values of an array of options", () => {
+    const schema = enumField(["draft", "published"]);
+    assert.strictEqual(v.parse(schema, "draft"), "draft");
+    assert.strictEqual(v.parse(schema, "published"), "published");
+  });
+
+  test("should require a value by default", () => {
+    const schema = enumField(["draft", "published"]);
+    const emptyResult = v.safeParse(schema, "");
+    assert.strictEqual(emptyResult.success, false);
+    assert.strictEqual(
+      emptyResult.issues?.[0].message,
+      'Invalid type: Expected "draft" | "published" but received undefined',
+    );
+    assert.strictEqual(v.safeParse(schema, undefined).success, false);
+  });
+
+  test("should reject values that are not options", () => {
+    const result = v.safeParse(enumField(["draft", "published"]), "archived");
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(
+      result.issues?.[0].message,
+      'Invalid option: Expected "draft" | "published" but received "archived"',
+    );
+  });
+
+  test("should treat the empty placeholder option as undefined", () => {
+    const schema = enumField(
+      ["draft", "published"],
+      v.optional(v.picklist(["draft", "published"])),
+    );
+    assert.strictEqual(v.parse(schema, ""), undefined);
+    assert.strictEqual(v.parse(schema, undefined), undefined);
+    assert.strictEqual(v.parse(schema, "draft"), "draft");
+
+    const withDefault = enumField(["draft", "published"], v.optional(v.string(), "draft"));
+    assert.strictEqual(v.parse(withDefault, ""), "draft");
+  });
+
+  test("should map submitted values to typed values", () => {
+    assert.strictEqual(v.parse(enumField([1, 2, 3]), "2"), 2);
+    assert.strictEqual(v.parse(enumField([true, false]), "false"), false);
+    assert.strictEqual(v.safeParse(enumField([1, 2, 3]), "2.0").success, false);
+  });
+
+  test("should accept numeric and string enums", () => {
+    const priority = enumField(Priority);
+    assert.strictEqual(v.parse(priority, "2"), Priority.High);
+    assert.strictEqual(v.safeParse(priority, "High").success, false);
+    assert.deepStrictEqual(priority.choices, [
+      { value: 1, label: "Low", formValue: "1" },
+      { value: 2, label: "High", formValue: "2" },
+    ]);
+
+    assert.strictEqual(v.parse(enumField(Color), "green"), Color.Green);
+  });
+
+  test("should accept as const objects", () => {
+    const schema = enumField({ Small: "s", Large: "l" } as const);
+    assert.strictEqual(v.parse(schema, "l"), "l");
+    assert.deepStrictEqual(
+      schema.choices.map(({ label }) => label),
+      ["Small", "Large"],
+    );
+  });
+
+  test("should keep numeric keys of as const objects", () => {
+    const schema = enumField({ "1": "poor", "5": "great" } as const);
+    assert.strictEqual(v.parse(schema, "poor"), "poor");
+    assert.deepStrictEqual(
+      schema.choices.map(({ label }) => label),
+      ["1", "5"],
+    );
+  });
+
+  test("should expose options with labels", () => {
+    const schema = enumField([
+      { value: 1, label: "One" },
+      { value: 2, label: "Two" },
+    ]);
+    assert.deepStrictEqual(schema.choices, [
+      { value: 1, label: "One", formValue: "1" },
+      { value: 2, label: "Two", formValue: "2" },
+    ]);
+    assert.deepStrictEqual(enumField(["a"]).choices, [{ value: "a", label: "a", formValue: "a" }]);
+  });
+
+  test("should throw for options that are submitted as the same string", () => {
+    assert.throws(() => enumField([1, "1"]), {
+      message: 'Duplicate option: Options are submitted as strings, "1" is ambiguous',
+    });
+  });
+
+  test("should apply the provided schema to the typed value", () => {
+    const schema = enumField(
+      [1, 2, 3],
+      v.pipe(
+        v.number(),
+        v.check((input) => input !== 3, "Not available"),
+      ),
+    );
+    assert.strictEqual(v.parse(schema, "1"), 1);
+    assert.strictEqual(v.safeParse(schema, "3").issues?.[0].message, "Not available");
+  });
+});
+
+describe("radioGroup()", () => {
+  test("should parse the checked radio", () => {
+    const schema = radioGroup(["free", "pro"]);
+    assert.strictEqual(v.parse(schema, "pro"), "pro");
+    assert.strictEqual(v.safeParse(schema, undefined).success, false);
+  });
+
+  test("should render as radio buttons", () => {
+    assert.deepStrictEqual(inputProps(radioGroup(["free", "pro"]), "plan"), {
+      name: "plan",
+      type: "radio",
+      required: true,
+    });
+    assert.deepStrictEqual(inputProps(enumField(["a", "b"], v.optional(v.string()))), {});
+  });
+});
+
+describe("multiSelect()", () => {
+  test("should parse selected values", () => {
+    const schema = multiSelect([1, 2, 3, 4, 5]);
+    assert.deepStrictEqual(v.parse(schema, ["1", "3"]), [1, 3]);
+    assert.deepStrictEqual(v.parse(schema, "2"), [2]);
+    assert.deepStrictEqual(v.parse(schema, undefined), []);
+    assert.deepStrictEqual(v.parse(schema, ["", "4"]), [4]);
+  });
+
+  test("should reject values that are not options", () => {
+    const result = v.safeParse(multiSelect(Color), ["red", "blue"]);
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(
+      result.issues?.[0].message,
+      'Invalid option: Expected "red" | "green" but received "blue"',
+    );
+    assert.deepStrictEqual(v.getDotPath(result.issues[0]), "1");
+  });
+
+  test("should apply the provided schema to the array of typed values", () => {
+    const schema = multiSelect(["a", "b", "c"], v.pipe(v.array(v.string()), v.minLength(1)));
+    assert.deepStrictEqual(v.parse(schema, ["b"]), ["b"]);
+    assert.strictEqual(v.safeParse(schema, undefined).success, false);
+    assert.strictEqual(schema.choices.length, 3);
+  });
+});
+
+describe("checkboxGroup()", () => {
+  test("should parse checked values", () => {
+    const schema = checkboxGroup(["cheese", "ham", "olives"]);
+    assert.deepStrictEqual(v.parse(schema, ["cheese", "olives"]), ["cheese", "olives"]);
+    assert.deepStrictEqual(v.parse(schema, "ham"), ["ham"]);
+    assert.deepStrictEqual(v.parse(schema, undefined), []);
+    assert.strictEqual(v.safeParse(schema, ["cheese", "pineapple"]).success, false);
+  });
+
+  test("should apply the provided schema to the array of checked values", () => {
+    const schema = checkboxGroup([1, 2, 3], v.pipe(v.array(v.number()), v.maxLength(2)));
+    assert.deepStrictEqual(v.parse(schema, ["1", "3"]), [1, 3]);
+    assert.strictEqual(v.safeParse(schema, ["1", "2", "3"]).success, false);
+  });
+
+  test("should render as checkboxes", () => {
+    assert.deepStrictEqual(inputProps(checkboxGroup(["a", "b"]), "letters"), {
+      name: "letters",
+      type: "checkbox",
+    });
+    assert.deepStrictEqual(inputProps(multiSelect(["a", "b"])), { multiple: true });
+  });
+});
+
+describe("choice fields in forms", () => {
+  const schema = formData({
+    status: enumField(["draft", "published"]),
+    priority: enumField(Priority, v.optional(v.picklist([1, 2]))),
+    notify: radioGroup([true, false]),
+    days: multiSelect([1, 2, 3]),
+  });
+
+  test("should parse form data", () => {
+    const data = new FormData();
+    data.append("status", "published");
+    data.append("priority", "");
+    data.append("notify", "true");
+    data.append("days", "1");
+    data.append("days", "3");
+    assert.deepStrictEqual(v.parse(schema, data), {
+      status: "published",
+      priority: undefined,
+      notify: true,
+      days: [1, 3],
+    });
+  });
+
+  test("should round-trip through toFormData()", () => {
+    const value: v.InferOutput<typeof schema> = {
+      status: "draft",
+      priority: Priority.Low,
+      notify: false,
+      days: [2],
+    };
+    assert.deepStrictEqual(v.parse(schema, toFormData(schema, value)), value);
+  });
+
+  test("should describe options as enums in OpenAPI", () => {
+    const properties = toOpenApiRequestBody(schema).content["multipart/form-data"]?.schema
+      .properties as Record<string, unknown>;
+    assert.deepStrictEqual(properties.priority, { type: "string", enum: ["1", "2"] });
+    assert.deepStrictEqual(properties.days, {
+      type: "array",
+      items: { type: "string", enum: ["1", "2", "3"] },
+    });
+  });
+});
@@ -0,0 +1,327 @@
+import * as v from "valibot";
+import { defineFieldKind } from "./field-kind.ts";
+import { emptyToUndefined, repeatable } from "./form-data-schema.ts";
+
+/**
+ * Value of an option, before it is submitted as a string.
+ */
+type ChoicePrimitive = string | number | boolean;
+
+/**
+ * Option of a choice field, e.g. to render an `<option>` or a radio button.
+ */
+export type ChoiceOption<TValue = ChoicePrimitive> = {
+  /** Typed value of the option, as returned by the schema */
+  value: TValue;
+  /** Label of the option: the key for enums and objects, otherwise the value */
+  label: string;
+  /** Submitted value of the option, as used in the `value` attribute */
+  formValue: string;
+};
+
+/**
+ * Definition of the options of a choice field: an array of values, an array of values with
+ * labels, a native TypeScript enum or an `as const` object.
+ */
+export type ChoiceSource =
+  | ReadonlyArray<ChoicePrimitive | { readonly value: ChoicePrimitive; readonly label: string }>
+  | { readonly [key: string]: ChoicePrimitive };
+
+/**
+ * Union of the typed values of a choice source.
+ */
+export type ChoiceValue<TSource extends ChoiceSource> =
+  TSource extends ReadonlyArray<infer TItem>
+    ? TItem extends { readonly value: infer TValue }
+      ? TValue
+      : TItem
+    : TSource[keyof TSource];
+
+/**
+ * Schema of a single choice field, with its options.
+ */
+type ChoiceFieldSchema<TValue, TSchema extends v.GenericSchema> = v.SchemaWithPipe<
+  readonly [
+    ReturnType<typeof emptyToUndefined>,
+    v.RawTransformAction<string | undefined, TValue | undefined>,
+    TSchema,
+  ]
+> & { choices: ReadonlyArray<ChoiceOption<TValue>> };
+
+/**
+ * Schema of a multi select field or a checkbox group, with its options.
+ */
+type MultiSelectSchema<TValue, TOutput> = v.SchemaWithPipe<
+  readonly [
+    v.UnknownSchema,
+    v.TransformAction<unknown, Array<unknown>>,
+    v.GenericSchema<Array<unknown>, TOutput>,
+  ]
+> & { choices: ReadonlyArray<ChoiceOption<TValue>> };
+
+/**
+ * Checks if a choice source is an array of options rather than an enum or an object.
+ *
+ * @param source - Definition of the options
+ * @returns Type predicate indicating if source is an array
+ */
+function isChoiceArray(
+  source: ChoiceSource,
+): source is Extract<ChoiceSource, ReadonlyArray<unknown>> {
+  return Array.isArray(source);
+}
+
+/**
+ * Internal helper that checks if an entry of an object is the reverse mapping of a numeric enum
+ * member, e.g. `1: "Low"` of `enum Priority { Low = 1 }`.
+ *
+ * @param source - Object of the options
+ * @param key - Key of the entry
+ * @param value - Value of the entry
+ * @returns True if the entry maps a member value back to its name
+ */
+function isReverseMapping(
+  source: { readonly [key: string]: ChoicePrimitive },
+  key: string,
+  value: ChoicePrimitive,
+): boolean {
+  return typeof value === "string" && Object.hasOwn(source, value) && source[value] === Number(key);
+}
+
+/**
+ * Internal helper that resolves the options of a choice source. Reverse mappings of numeric
+ * enums (e.g. `1: "Low"` next to `Low: 1`) are skipped, other numeric keys are kept.
+ *
+ * @param source - Definition of the options
+ * @returns The options with their labels and submitted values
+ */
+function resolveChoices(source: ChoiceSource): Array<ChoiceOption> {
+  const choices: Array<ChoiceOption> = isChoiceArray(source)
+    ? source.map((item) =>
+        typeof item === "object"
+          ? { value: item.value, label: item.label, formValue: String(item.value) }
+          : { value: item, label: String(item), formValue: String(item) },
+      )
+    : Object.entries(source)
+        .filter(([key, value]) => !isReverseMapping(source, key, value))
+        .map(([key, value]) => ({ value, label: key, formValue: String(value) }));
+
+  const formValues = new Set<string>();
+  for (const { formValue } of choices) {
+    if (formValues.has(formValue)) {
+      throw new Error(
+        `Duplicate option: Options are submitted as strings, "${formValue}" is ambiguous`,
+      );
+    }
+    formValues.add(formValue);
+  }
+  return choices;
+}
+
+/**
+ * Internal helper that maps the submitted value of a choice field to the typed value of the
+ * matching option. Undefined values are passed through.
+ *
+ * @param choices - Options of the field
+ * @returns Valibot action that transforms the submitted value to the typed value
+ */
+function parseChoice(choices: ReadonlyArray<ChoiceOption>) {
+  const values = new Map(choices.map(({ formValue, value }) => [formValue, value]));
+  const expected = choices.map(({ formValue }) => `"${formValue}"`).join(" | ");
+  return v.rawTransform<string | undefined, unknown>(({ dataset, addIssue, NEVER }) => {
+    const input = dataset.value;
+    if (input === undefined) {
+      return undefined;
+    }
+    if (!values.has(input)) {
+      addIssue({
+        message: `Invalid option: Expected ${expected} but received "${input}"`,
+        expected,
+        received: `"${input}"`,
+      });
+      return NEVER;
+    }
+    return values.get(input);
+  });
+}
+
+/**
+ * Internal helper that builds the schema of a select or a radio group: the empty placeholder
+ * option is transformed to undefined, the submitted value is mapped to its option, and the
+ * provided schema is applied.
+ *
+ * @param control - Form control of the field
+ * @param source - Definition of the options
+ * @param schema - Optional schema to validate the typed value. Defaults to requiring a value
+ * @returns Valibot schema of the field, with its options
+ */
+function choiceField(
+  control: "select" | "radio",
+  source: ChoiceSource,
+  schema: v.GenericSchema | undefined,
+) {
+  const choices = resolveChoices(source);
+  const expected = choices.map(({ formValue }) => `"${formValue}"`).join(" | ");
+  const field = v.pipe(
+    emptyToUndefined(),
+    parseChoice(choices),
+    schema ??
+      v.custom(
+        (input) => input !== undefined,
+        `Invalid type: Expected ${expected} but received undefined`,
+      ),
+  );
+  return defineFieldKind(Object.assign(field, { choices }), { type: "choice", control, choices });
+}
+
+/**
+ * Schema for select fields (`<select>`) with a typed list of options. The empty placeholder
+ * option is treated as undefined, and the submitted string is mapped to the typed value of its
+ * option, so numbers, booleans and enum members round-trip (e.g. "1" → 1, "true" → true).
+ * If you call enumField without a schema, it assumes a value is required.
+ * The options are exposed as `choices`, so the UI can be rendered from the same definition.
+ *
+ * @param source - Array of values, array of `{ value, label }`, TypeScript enum or `as const` object
+ * @param schema - Optional schema to validate the typed value, e.g. to make it optional
+ * @returns Valibot schema that maps the submitted value to its option then applies the provided schema
+ *
+ * @example
+ * const status = enumField(["draft", "published"]);
+ * status.parse("draft");      // → "draft"
+ * status.parse("");           // → ValidationError
+ * status.parse("archived");   // → ValidationError
+ *
+ * enum Priority { Low = 1, High = 2 }
+ * const priority = enumField(Priority, v.optional(v.enum(Priority)));
+ * priority.parse("2");        // → Priority.High
+ * priority.parse("");         // → undefined
+ * priority.choices;           // → [{ value: 1, label: "Low", formValue: "1" }, ...]
+ */
+export function enumField<
+  const TSource extends ChoiceSource,
+  TSchema extends v.BaseSchema<unknown, unknown, v.BaseIssue<unknown>> = v.CustomSchema<
+    ChoiceValue<TSource>,
+    string
+  >,
+>(source: TSource, schema?: TSchema) {
+  return choiceField("select", source, schema) as unknown as ChoiceFieldSchema<
+    ChoiceValue<TSource>,
+    TSchema
+  >;
+}
+
+/**
+ * Schema for radio groups (`<input type="radio">` with the same name). Works like enumField(),
+ * also treating a group without a checked radio as undefined.
+ *
+ * @param source - Array of values, array of `{ value, label }`, TypeScript enum or `as const` object
+ * @param schema - Optional schema to validate the typed value, e.g. to make it optional
+ * @returns Valibot schema that maps the submitted value to its option then applies the provided schema
+ *
+ * @example
+ * const plan = radioGroup([
+ *   { value: "free", label: "Free" },
+ *   { value: "pro", label: "Pro" },
+ * ]);
+ * plan.parse("pro");          // → "pro"
+ * plan.parse(undefined);      // → ValidationError
+ */
+export function radioGroup<
+  const TSource extends ChoiceSource,
+  TSchema extends v.BaseSchema<unknown, unknown, v.BaseIssue<unknown>> = v.CustomSchema<
+    ChoiceValue<TSource>,
+    string
+  >,
+>(source: TSource, schema?: TSchema) {
+  return choiceField("radio", source, schema) as unknown as ChoiceFieldSchema<
+    ChoiceValue<TSource>,
+    TSchema
+  >;
+}
+
+/**
+ * Internal helper that builds the schema of a multi select or a checkbox group: every submitted
+ * value is mapped to its option, empty values are skipped, and the provided schema is applied
+ * to the array.
+ *
+ * @param control - Form control of the items
+ * @param source - Definition of the options
+ * @param schema - Optional schema to validate the array of typed values
+ * @returns Valibot schema of the field, with its options
+ */
+function choiceArray(
+  control: "select" | "checkbox",
+  source: ChoiceSource,
+  schema: v.BaseSchema<Array<unknown>, unknown, v.BaseIssue<unknown>> | undefined,
+) {
+  const choices = resolveChoices(source);
+  const item = defineFieldKind(v.pipe(emptyToUndefined(), parseChoice(choices)), {
+    type: "choice",
+    control,
+    choices,
+  });
+  const items = v.pipe(
+    v.array(item),
+    v.filterItems((value) => value !== undefined),
+  );
+  const field = repeatable(schema === undefined ? items : v.pipe(items, schema));
+  return Object.assign(field, { choices });
+}
+
+/**
+ * Schema for multi select fields (`<select multiple>`). Works like repeatable(), mapping every
+ * submitted value to the typed value of its option and skipping empty values. Always returns an
+ * array, empty when nothing was selected.
+ *
+ * @param source - Array of values, array of `{ value, label }`, TypeScript enum or `as const` object
+ * @param schema - Optional schema to validate the array of typed values
+ * @returns Valibot schema that normalizes the submitted values to an array of options
+ *
+ * @example
+ * const days = multiSelect([1, 2, 3, 4, 5]);
+ * days.parse(["1", "3"]);     // → [1, 3]
+ * days.parse("2");            // → [2]
+ * days.parse(undefined);      // → []
+ *
+ * const atLeastOne = multiSelect(["a", "b"], v.pipe(v.array(v.string()), v.minLength(1)));
+ */
+export function multiSelect<
+  const TSource extends ChoiceSource,
+  TSchema extends v.BaseSchema<Array<unknown>, unknown, v.BaseIssue<unknown>> = v.GenericSchema<
+    Array<ChoiceValue<TSource>>
+  >,
+>(source: TSource, schema?: TSchema) {
+  return choiceArray("select", source, schema) as unknown as MultiSelectSchema<
+    ChoiceValue<TSource>,
+    v.InferOutput<TSchema>
+  >;
+}
+
+/**
+ * Schema for groups of checkboxes with the same name, e.g. `<input type="checkbox" name="toppings"
+ * value="cheese">`. Works like multiSelect(), returning the values of the checked boxes and
+ * rejecting values that are not part of the group.
+ *
+ * @param source - Array of values, array of `{ value, label }`, TypeScript enum or `as const` object
+ * @param schema - Optional schema to validate the array of checked values
+ * @returns Valibot schema that normalizes the checked values to an array of options
+ *
+ * @example
+ * const toppings = checkboxGroup(["cheese", "ham", "olives"]);
+ * toppings.parse(["cheese", "olives"]); // → ["cheese", "olives"]
+ * toppings.parse(undefined);            // → []
+ * toppings.parse("pineapple");          // → ValidationError
+ *
+ * const atMostTwo = checkboxGroup(["a", "b", "c"], v.pipe(v.array(v.string()), v.maxLength(2)));
+ */
+export function checkboxGroup<
+  const TSource extends ChoiceSource,
+  TSchema extends v.BaseSchema<Array<unknown>, unknown, v.BaseIssue<unknown>> = v.GenericSchema<
+    Array<ChoiceValue<TSource>>
+  >,
+>(source: TSource, schema?: TSchema) {
+  return choiceArray("checkbox", source, schema) as unknown as MultiSelectSchema<
+    ChoiceValue<TSource>,
+    v.InferOutput<TSchema>
+  >;
+}
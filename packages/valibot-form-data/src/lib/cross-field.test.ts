@@ -0,0 +1,215 @@
+import * as assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import * as v from "valibot";
+import { enumField } from "./choice.ts";
+import { atLeastOneOf, before, matches, requiredIf } from "./cross-field.ts";
+import { date, month, time } from "./date-time.ts";
+import * as vfd from "./form-data-schema.ts";
+import { formErrors } from "./form-errors.ts";
+
+function getIssues(schema: v.GenericSchema, entries: Array<[string, string]>) {
+  const result = v.safeParse(schema, new URLSearchParams(entries));
+  assert.ok(!result.success);
+  return result.issues.map((issue) => [v.getDotPath(issue), issue.message]);
+}
+
+describe("matches()", () => {
+  const schema = v.pipe(
+    vfd.formData({ password: vfd.text(), passwordConfirm: vfd.text() }),
+    matches("password", "passwordConfirm"),
+  );
+
+  test("should pass for the same values", () => {
+    const entries = new URLSearchParams({ password: "secret", passwordConfirm: "secret" });
+    assert.deepStrictEqual(v.parse(schema, entries), {
+      password: "secret",
+      passwordConfirm: "secret",
+    });
+  });
+
+  test("should report different values on the second field", () => {
+    assert.deepStrictEqual(
+      getIssues(schema, [
+        ["password", "secret"],
+        ["passwordConfirm", "secert"],
+      ]),
+      [["passwordConfirm", 'Invalid value: Expected the same value as "password"']],
+    );
+  });
+
+  test("should skip the check if a field has an issue", () => {
+    assert.deepStrictEqual(
+      getIssues(schema, [
+        ["password", ""],
+        ["passwordConfirm", "secret"],
+      ]),
+      [["password", "Invalid type: Expected string but received undefined"]],
+    );
+  });
+
+  test("should compare dates by their time", () => {
+    const dates = v.pipe(vfd.formData({ a: date(), b: date() }), matches("a", "b"));
+    const entries = new URLSearchParams({ a: "2025-01-01", b: "2025-01-01" });
+    assert.ok(v.safeParse(dates, entries).success);
+  });
+
+  test("should support nested fields and custom messages", () => {
+    const nested = v.pipe(
+      vfd.formData({ account: v.object({ email: vfd.text(), emailConfirm: vfd.text() }) }),
+      matches("account.email", "account.emailConfirm", "Emails do not match"),
+    );
+    const result = v.safeParse(
+      nested,
+      new URLSearchParams({ "account.email": "a@example.com", "account.emailConfirm": "b" }),
+    );
+    assert.ok(!result.success);
+    assert.deepStrictEqual(formErrors(result.issues).fieldErrors, {
+      "account.emailConfirm": ["Emails do not match"],
+    });
+  });
+});
+
+describe("before()", () => {
+  const schema = v.pipe(
+    vfd.formData({ startDate: date(v.optional(v.date())), endDate: date(v.optional(v.date())) }),
+    before("startDate", "endDate"),
+  );
+
+  test("should pass for ordered values", () => {
+    const entries = new URLSearchParams({ startDate: "2025-01-01", endDate: "2025-01-02" });
+    assert.ok(v.safeParse(schema, entries).success);
+  });
+
+  test("should report unordered and equal values on the second field", () => {
+    const expected = [["endDate", 'Invalid order: Expected a value after "startDate"']];
+    assert.deepStrictEqual(
+      getIssues(schema, [
+        ["startDate", "2025-01-02"],
+        ["endDate", "2025-01-01"],
+      ]),
+      expected,
+    );
+    assert.deepStrictEqual(
+      getIssues(schema, [
+        ["startDate", "2025-01-01"],
+        ["endDate", "2025-01-01"],
+      ]),
+      expected,
+    );
+  });
+
+  test("should skip the check if a field is empty", () => {
+    const entries = new URLSearchParams({ startDate: "2025-01-02", endDate: "" });
+    assert.ok(v.safeParse(schema, entries).success);
+  });
+
+  test("should compare numbers and temporal values", () => {
+    const numbers = v.pipe(
+      vfd.formData({ min: vfd.numeric(), max: vfd.numeric() }),
+      before("min", "max"),
+    );
+    assert.ok(v.safeParse(numbers, new URLSearchParams({ min: "2", max: "10" })).success);
+    assert.ok(!v.safeParse(numbers, new URLSearchParams({ min: "10", max: "2" })).success);
+
+    const months = v.pipe(vfd.formData({ from: month(), to: month() }), before("from", "to"));
+    assert.ok(v.safeParse(months, new URLSearchParams({ from: "2024-12", to: "2025-01" })).success);
+    assert.ok(
+      !v.safeParse(months, new URLSearchParams({ from: "2025-02", to: "2025-01" })).success,
+    );
+
+    const times = v.pipe(
+      vfd.formData({ opens: time(), closes: time() }),
+      before("opens", "closes"),
+    );
+    assert.ok(v.safeParse(times, new URLSearchParams({ opens: "09:00", closes: "17:30" })).success);
+    assert.ok(
+      !v.safeParse(times, new URLSearchParams({ opens: "18:00", closes: "17:30" })).success,
+    );
+  });
+});
+
+describe("requiredIf()", () => {
+  const schema = v.pipe(
+    vfd.formData({
+      accountType: enumField(["personal", "business"]),
+      company: vfd.text(v.optional(v.string())),
+    }),
+    requiredIf("company", (input) => input.accountType === "business"),
+  );
+
+  test("should report the missing field if the condition is met", () => {
+    assert.deepStrictEqual(
+      getIssues(schema, [
+        ["accountType", "business"],
+        ["company", ""],
+      ]),
+      [["company", 'Missing value: Expected a value for "company"']],
+    );
+  });
+
+  test("should pass if the field has a value or the condition is not met", () => {
+    const business = new URLSearchParams({ accountType: "business", company: "ACME" });
+    assert.ok(v.safeParse(schema, business).success);
+    assert.ok(v.safeParse(schema, new URLSearchParams({ accountType: "personal" })).success);
+  });
+
+  test("should treat empty arrays as missing", () => {
+    const tags = v.pipe(
+      vfd.formData({ tagged: vfd.checkbox(), tags: vfd.repeatable() }),
+      requiredIf("tags", (input) => input.tagged),
+    );
+    assert.deepStrictEqual(getIssues(tags, [["tagged", "on"]]), [
+      ["tags", 'Missing value: Expected a value for "tags"'],
+    ]);
+  });
+});
+
+describe("atLeastOneOf()", () => {
+  const schema = v.pipe(
+    vfd.formData({
+      email: vfd.text(v.optional(v.string())),
+      phone: vfd.text(v.optional(v.string())),
+    }),
+    atLeastOneOf(["email", "phone"]),
+  );
+
+  test("should report missing values on the first field", () => {
+    assert.deepStrictEqual(
+      getIssues(schema, [
+        ["email", ""],
+        ["phone", ""],
+      ]),
+      [["email", 'Missing value: Expected a value for one of "email" | "phone"']],
+    );
+  });
+
+  test("should pass if one of the fields has a value", () => {
+    assert.ok(v.safeParse(schema, new URLSearchParams({ phone: "555-0100" })).success);
+    assert.ok(v.safeParse(schema, new URLSearchParams({ email: "a@example.com" })).success);
+  });
+});
+
+describe("cross-field helpers", () => {
+  test("should type field names by the schema output", () => {
+    v.pipe(
+      vfd.formData({ a: vfd.text(), b: vfd.text() }),
+      // @ts-expect-error -- "c" is not a field of the schema
+      matches("a", "c"),
+    );
+  });
+
+  test("should reject field names that do not name a single field", () => {
+    assert.throws(() => matches("", "b"), /Invalid field name/);
+    assert.throws(() => atLeastOneOf(["tags[]"]), /Invalid field name/);
+  });
+
+  test("should skip the checks if the form entries could not be parsed", () => {
+    const schema = v.pipe(
+      vfd.formData({ a: vfd.text(), b: vfd.text() }, { maxEntries: 1 }),
+      matches("a", "b"),
+    );
+    const result = v.safeParse(schema, new URLSearchParams({ a: "x", b: "y" }));
+    assert.ok(!result.success);
+    assert.strictEqual(result.issues.length, 1);
+  });
+});
@@ -0,0 +1,275 @@
+import * as v from "valibot";
+import { isPlainObject } from "./missing-keys.ts";
+import { APPEND_SEGMENT, stringToPathArray } from "./string-to-path-array.ts";
+import type { ValuePath } from "./field-path.ts";
+
+/**
+ * Validation action created by the cross-field helpers, to be added to the pipe of a form
+ * schema, e.g. `v.pipe(formData({ ... }), matches("password", "passwordConfirm"))`.
+ */
+export type CrossFieldAction<TInput extends Record<string, unknown>> = v.BaseValidation<
+  TInput,
+  TInput,
+  v.PartialCheckIssue<Record<string, unknown>>
+>;
+
+/**
+ * Error message of a cross-field helper, a string or a function receiving the issue.
+ */
+export type CrossFieldMessage = v.ErrorMessage<v.PartialCheckIssue<Record<string, unknown>>>;
+
+type Keys = [string | number, ...Array<string | number>];
+
+/**
+ * Internal helper that converts a field name to the keys of the field in the parsed value.
+ *
+ * @param name - Field name in any notation formData() parses, e.g. "dates.start" or "items[0]"
+ * @returns Keys of the field
+ */
+function toKeys(name: string): Keys {
+  const segments = stringToPathArray(name);
+  if (segments.length === 0 || segments.includes(APPEND_SEGMENT)) {
+    throw new Error(`Invalid field name: "${name}" does not name a single field`);
+  }
+  return segments as Keys;
+}
+
+/**
+ * Internal helper that reads the value of a field.
+ *
+ * @param input - The parsed value of the form
+ * @param keys - Keys of the field
+ * @returns The value or undefined if a container of the field is missing
+ */
+function getValue(input: unknown, keys: Keys): unknown {
+  let value = input;
+  for (const key of keys) {
+    if ((!isPlainObject(value) && !Array.isArray(value)) || !Object.hasOwn(value, key)) {
+      return undefined;
+    }
+    value = (value as Record<string | number, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Internal helper that checks if a field has no value.
+ *
+ * @param value - Value of the field
+ * @returns True for undefined, null, empty strings and empty arrays
+ */
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Internal helper that converts a value to something comparable with <. Dates are compared by
+ * their time, and the values of the temporal helpers (e.g. `{ year, month }`) by their fields,
+ * which are ordered from the most significant one.
+ *
+ * @param value - Value of a field
+ * @returns Comparable values
+ */
+function toComparable(value: unknown): Array<unknown> {
+  if (value instanceof Date) {
+    return [value.getTime()];
+  }
+  return isPlainObject(value) ? Object.values(value) : [value];
+}
+
+/**
+ * Internal helper that checks if a value comes before another one.
+ *
+ * @param value - Value of the first field
+ * @param other - Value of the second field
+ * @returns True if the first value is smaller
+ */
+function isBefore(value: unknown, other: unknown): boolean {
+  const values = toComparable(value);
+  const others = toComparable(other);
+  for (const [index, item] of values.entries()) {
+    const otherItem = others[index] as typeof item;
+    if (item !== otherItem) {
+      return (item as number) < (otherItem as number);
+    }
+  }
+  return false;
+}
+
+/**
+ * Internal helper that checks if two values are the same, comparing dates by their time.
+ *
+ * @param value - Value of the first field
+ * @param other - Value of the second field
+ * @returns True if the values are the same
+ */
+function isSameValue(value: unknown, other: unknown): boolean {
+  if (value instanceof Date && other instanceof Date) {
+    return value.getTime() === other.getTime();
+  }
+  return Object.is(value, other);
+}
+
+/**
+ * Internal helper that creates a check of some fields whose issue is reported on a field. Like
+ * v.partialCheck(), the check only runs when the checked fields have no issues, and it is
+ * skipped when the value could not be built from the form entries.
+ *
+ * @param fields - Keys of the checked fields
+ * @param target - Keys of the field the issue is reported on
+ * @param requirement - Validation function receiving the parsed value
+ * @param message - Error message
+ * @returns Validation action
+ */
+function fieldCheck<TInput extends Record<string, unknown>>(
+  fields: Array<Keys>,
+  target: Keys,
+  requirement: (input: Record<string, unknown>) => boolean,
+  message: CrossFieldMessage,
+): CrossFieldAction<TInput> {
+  // The paths are only known at runtime, so the typed paths of valibot are bypassed.
+  const check = v.partialCheck(
+    fields as never,
+    (input: unknown) => !isPlainObject(input) || requirement(input),
+    message as never,
+  );
+  return v.forward(check, target as never) as unknown as CrossFieldAction<TInput>;
+}
+
+/**
+ * Checks that two fields have the same value, e.g. a password and its confirmation. The issue
+ * is reported on the second field.
+ *
+ * @param field - Name of the field with the original value
+ * @param other - Name of the field that has to match, e.g. "passwordConfirm"
+ * @param message - Optional error message
+ * @returns Validation action for the pipe of a form schema
+ *
+ * @example
+ * const schema = v.pipe(
+ *   formData({ password: text(), passwordConfirm: text() }),
+ *   matches("password", "passwordConfirm"),
+ * );
+ * // password=a&passwordConfirm=b
+ * // → Issue: 'Invalid value: Expected the same value as "password"' (path: passwordConfirm)
+ */
+export function matches<TInput extends Record<string, unknown>>(
+  field: ValuePath<TInput>,
+  other: ValuePath<TInput>,
+  message: CrossFieldMessage = `Invalid value: Expected the same value as "${field}"`,
+): CrossFieldAction<TInput> {
+  const keys = toKeys(field);
+  const otherKeys = toKeys(other);
+  return fieldCheck(
+    [keys, otherKeys],
+    otherKeys,
+    (input) => isSameValue(getValue(input, keys), getValue(input, otherKeys)),
+    message,
+  );
+}
+
+/**
+ * Checks that the value of a field comes before the value of another field, e.g. the start and
+ * end of a date range. Works with dates, numbers, strings and the values of the temporal helpers.
+ * The check is skipped if one of the fields is empty, and the issue is reported on the second
+ * field.
+ *
+ * @param field - Name of the field with the earlier value, e.g. "startDate"
+ * @param other - Name of the field with the later value, e.g. "endDate"
+ * @param message - Optional error message
+ * @returns Validation action for the pipe of a form schema
+ *
+ * @example
+ * const schema = v.pipe(
+ *   formData({ startDate: date(), endDate: date() }),
+ *   before("startDate", "endDate"),
+ * );
+ * // startDate=2025-02-01&endDate=2025-01-01
+ * // → Issue: 'Invalid order: Expected a value after "startDate"' (path: endDate)
+ */
+export function before<TInput extends Record<string, unknown>>(
+  field: ValuePath<TInput>,
+  other: ValuePath<TInput>,
+  message: CrossFieldMessage = `Invalid order: Expected a value after "${field}"`,
+): CrossFieldAction<TInput> {
+  const keys = toKeys(field);
+  const otherKeys = toKeys(other);
+  return fieldCheck(
+    [keys, otherKeys],
+    otherKeys,
+    (input) => {
+      const value = getValue(input, keys);
+      const otherValue = getValue(input, otherKeys);
+      return isEmpty(value) || isEmpty(otherValue) || isBefore(value, otherValue);
+    },
+    message,
+  );
+}
+
+/**
+ * Checks that a field has a value when a condition on the parsed value is met, e.g. a company
+ * name for business accounts. Undefined, null, empty strings and empty arrays count as missing.
+ *
+ * @param field - Name of the required field
+ * @param condition - Function receiving the parsed value, returning true if the field is required
+ * @param message - Optional error message
+ * @returns Validation action for the pipe of a form schema
+ *
+ * @example
+ * const schema = v.pipe(
+ *   formData({ accountType: enumField(["personal", "business"]), company: text(v.optional(v.string())) }),
+ *   requiredIf("company", (input) => input.accountType === "business"),
+ * );
+ * // accountType=business&company=
+ * // → Issue: 'Missing value: Expected a value for "company"' (path: company)
+ */
+export function requiredIf<TInput extends Record<string, unknown>>(
+  field: ValuePath<TInput>,
+  condition: (input: TInput) => boolean,
+  message: CrossFieldMessage = `Missing value: Expected a value for "${field}"`,
+): CrossFieldAction<TInput> {
+  const keys = toKeys(field);
+  return fieldCheck(
+    [keys],
+    keys,
+    (input) => !condition(input as TInput) || !isEmpty(getValue(input, keys)),
+    message,
+  );
+}
+
+/**
+ * Checks that at least one of some fields has a value, e.g. an email address or a phone number.
+ * Undefined, null, empty strings and empty arrays count as missing. The issue is reported on
+ * the first field.
+ *
+ * @param fields - Names of the fields
+ * @param message - Optional error message
+ * @returns Validation action for the pipe of a form schema
+ *
+ * @example
+ * const schema = v.pipe(
+ *   formData({ email: text(v.optional(v.string())), phone: text(v.optional(v.string())) }),
+ *   atLeastOneOf(["email", "phone"]),
+ * );
+ * // email=&phone=
+ * // → Issue: 'Missing value: Expected a value for one of "email" | "phone"' (path: email)
+ */
+export function atLeastOneOf<TInput extends Record<string, unknown>>(
+  fields: readonly [ValuePath<TInput>, ...Array<ValuePath<TInput>>],
+  message: CrossFieldMessage = `Missing value: Expected a value for one of ${fields
+    .map((field) => `"${field}"`)
+    .join(" | ")}`,
+): CrossFieldAction<TInput> {
+  const keys = fields.map(toKeys);
+  return fieldCheck(
+    keys,
+    keys[0] as Keys,
+    (input) => keys.some((fieldKeys) => !isEmpty(getValue(input, fieldKeys))),
+    message,
+  );
+}
@@ -0,0 +1,243 @@
+import * as assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import * as v from "valibot";
+import { date, datetimeLocal, month, time, week } from "./date-time.ts";
+import { formData } from "./form-data-schema.ts";
+import { toFormData } from "./to-form-data.ts";
+
+function getMessages(schema: v.GenericSchema, input: unknown) {
+  const result = v.safeParse(schema, input);
+  assert.ok(!result.success);
+  return result.issues.map((issue) => issue.message);
+}
+
+describe("Date and Time Validators", () => {
+  describe("date()", () => {
+    test("should parse dates to UTC midnight", () => {
+      assert.deepStrictEqual(v.parse(date(), "2026-10-18"), new Date("2026-10-18T00:00:00.000Z"));
+      assert.deepStrictEqual(v.parse(date(), "2024-02-29"), new Date("2024-02-29T00:00:00.000Z"));
+    });
+
+    test("should reject invalid formats and dates", () => {
+      assert.deepStrictEqual(getMessages(date(), "18.10.2026"), [
+        'Invalid date: Expected YYYY-MM-DD but received "18.10.2026"',
+      ]);
+      assert.throws(() => v.parse(date(), "2026-02-29"), v.ValiError);
+      assert.throws(() => v.parse(date(), "2026-13-01"), v.ValiError);
+      assert.throws(() => v.parse(date(), "2026-10-18T09:30"), v.ValiError);
+      assert.throws(() => v.parse(date(), "0000-01-01"), v.ValiError);
+      assert.deepStrictEqual(v.parse(date(), "0001-01-01"), new Date("0001-01-01T00:00:00.000Z"));
+    });
+
+    test("should throw on empty strings when required", () => {
+      assert.throws(() => v.parse(date(), ""), v.ValiError);
+      assert.throws(() => v.parse(date(), undefined), v.ValiError);
+    });
+
+    test("should allow empty strings when optional", () => {
+      assert.strictEqual(v.parse(date(v.optional(v.date())), ""), undefined);
+    });
+
+    test("should validate min and max", () => {
+      const schema = date(undefined, { min: "2026-01-01", max: "2026-12-31" });
+      assert.deepStrictEqual(v.parse(schema, "2026-01-01"), new Date("2026-01-01"));
+      assert.deepStrictEqual(getMessages(schema, "2025-12-31"), [
+        "Invalid date: Expected >=2026-01-01 but received 2025-12-31",
+      ]);
+      assert.deepStrictEqual(getMessages(schema, "2027-01-01"), [
+        "Invalid date: Expected <=2026-12-31 but received 2027-01-01",
+      ]);
+    });
+
+    test("should validate step from min", () => {
+      const schema = date(undefined, { min: "2026-10-05", step: 7 });
+      assert.deepStrictEqual(v.parse(schema, "2026-10-19"), new Date("2026-10-19"));
+      assert.deepStrictEqual(getMessages(schema, "2026-10-18"), [
+        "Invalid date: Expected a multiple of step 7 but received 2026-10-18",
+      ]);
+    });
+
+    test("should apply the provided schema", () => {
+      const schema = date(v.pipe(v.date(), v.minValue(new Date("2026-01-01"), "Too early")));
+      assert.deepStrictEqual(getMessages(schema, "2025-06-01"), ["Too early"]);
+    });
+
+    test("should throw on invalid bounds", () => {
+      assert.throws(() => date(undefined, { min: "01/01/2026" }), {
+        message: 'Invalid min: Expected YYYY-MM-DD but received "01/01/2026"',
+      });
+    });
+  });
+
+  describe("datetimeLocal()", () => {
+    test("should parse local date and time in UTC by default", () => {
+      assert.deepStrictEqual(
+        v.parse(datetimeLocal(), "2026-10-18T09:30"),
+        new Date("2026-10-18T09:30:00.000Z"),
+      );
+    });
+
+    test("should interpret the value in the given time zone", () => {
+      const schema = datetimeLocal(undefined, { timeZone: "Europe/Warsaw" });
+      // Summer and winter time
+      assert.deepStrictEqual(
+        v.parse(schema, "2026-07-01T09:30"),
+        new Date("2026-07-01T07:30:00.000Z"),
+      );
+      assert.deepStrictEqual(
+        v.parse(schema, "2026-12-01T09:30"),
+        new Date("2026-12-01T08:30:00.000Z"),
+      );
+    });
+
+    test("should only accept seconds with a smaller step", () => {
+      assert.deepStrictEqual(getMessages(datetimeLocal(), "2026-10-18T09:30:15"), [
+        "Invalid datetime-local: Expected a multiple of step 60 but received 2026-10-18T09:30:15",
+      ]);
+      const schema = datetimeLocal(undefined, { step: 0.5 });
+      assert.deepStrictEqual(
+        v.parse(schema, "2026-10-18T09:30:15.5"),
+        new Date("2026-10-18T09:30:15.500Z"),
+      );
+    });
+
+    test("should validate min and max in local time", () => {
+      const schema = datetimeLocal(undefined, {
+        min: "2026-10-18T08:00",
+        timeZone: "America/New_York",
+      });
+      assert.deepStrictEqual(getMessages(schema, "2026-10-18T07:59"), [
+        "Invalid datetime-local: Expected >=2026-10-18T08:00 but received 2026-10-18T07:59",
+      ]);
+    });
+
+    test("should reject invalid formats", () => {
+      assert.throws(() => v.parse(datetimeLocal(), "2026-10-18 09:30"), v.ValiError);
+      assert.throws(() => v.parse(datetimeLocal(), "2026-10-18T24:00"), v.ValiError);
+      assert.throws(() => v.parse(datetimeLocal(), "2026-10-18T09:30Z"), v.ValiError);
+    });
+
+    test("should throw on unknown time zones", () => {
+      assert.throws(() => datetimeLocal(undefined, { timeZone: "Mars/Olympus" }), RangeError);
+    });
+  });
+
+  describe("time()", () => {
+    test("should parse time to a structured value", () => {
+      assert.deepStrictEqual(v.parse(time(), "09:30"), {
+        hours: 9,
+        minutes: 30,
+        seconds: 0,
+        milliseconds: 0,
+      });
+      assert.deepStrictEqual(v.parse(time(undefined, { step: "any" }), "23:59:59.999"), {
+        hours: 23,
+        minutes: 59,
+        seconds: 59,
+        milliseconds: 999,
+      });
+    });
+
+    test("should reject invalid times", () => {
+      assert.deepStrictEqual(getMessages(time(), "9:30"), [
+        'Invalid time: Expected HH:mm but received "9:30"',
+      ]);
+      assert.throws(() => v.parse(time(), "24:00"), v.ValiError);
+      assert.throws(() => v.parse(time(), "12:60"), v.ValiError);
+      assert.throws(() => v.parse(time(), ""), v.ValiError);
+    });
+
+    test("should validate min, max and step", () => {
+      const schema = time(undefined, { min: "09:00", max: "17:00", step: 15 * 60 });
+      assert.deepStrictEqual(v.parse(schema, "09:45").minutes, 45);
+      assert.deepStrictEqual(getMessages(schema, "09:50"), [
+        "Invalid time: Expected a multiple of step 900 but received 09:50",
+      ]);
+      assert.deepStrictEqual(getMessages(schema, "17:15"), [
+        "Invalid time: Expected <=17:00 but received 17:15",
+      ]);
+    });
+
+    test("should allow empty strings when optional", () => {
+      assert.strictEqual(v.parse(time(v.optional(v.any())), ""), undefined);
+    });
+  });
+
+  describe("month()", () => {
+    test("should parse month to a structured value", () => {
+      assert.deepStrictEqual(v.parse(month(), "2026-10"), { year: 2026, month: 10 });
+    });
+
+    test("should reject invalid months", () => {
+      assert.deepStrictEqual(getMessages(month(), "2026-13"), [
+        'Invalid month: Expected YYYY-MM but received "2026-13"',
+      ]);
+      assert.throws(() => v.parse(month(), "2026-1"), v.ValiError);
+      assert.throws(() => v.parse(month(), "0000-01"), v.ValiError);
+    });
+
+    test("should validate min, max and step", () => {
+      const schema = month(undefined, { min: "2026-01", max: "2027-12", step: 3 });
+      assert.deepStrictEqual(v.parse(schema, "2026-04"), { year: 2026, month: 4 });
+      assert.deepStrictEqual(getMessages(schema, "2026-05"), [
+        "Invalid month: Expected a multiple of step 3 but received 2026-05",
+      ]);
+      assert.throws(() => v.parse(schema, "2025-10"), v.ValiError);
+      assert.throws(() => v.parse(schema, "2028-01"), v.ValiError);
+    });
+  });
+
+  describe("week()", () => {
+    test("should parse ISO weeks to a structured value", () => {
+      assert.deepStrictEqual(v.parse(week(), "2026-W42"), { year: 2026, week: 42 });
+      assert.deepStrictEqual(v.parse(week(), "2026-W53"), { year: 2026, week: 53 });
+    });
+
+    test("should reject weeks the year does not have", () => {
+      assert.deepStrictEqual(getMessages(week(), "2025-W53"), [
+        'Invalid week: Expected YYYY-Www but received "2025-W53"',
+      ]);
+      assert.throws(() => v.parse(week(), "2026-W00"), v.ValiError);
+      assert.throws(() => v.parse(week(), "2026-42"), v.ValiError);
+      assert.throws(() => v.parse(week(), "0000-W01"), v.ValiError);
+    });
+
+    test("should validate min, max and step across years", () => {
+      const schema = week(undefined, { min: "2025-W51", max: "2026-W10", step: 2 });
+      assert.deepStrictEqual(v.parse(schema, "2026-W01"), { year: 2026, week: 1 });
+      assert.deepStrictEqual(getMessages(schema, "2026-W02"), [
+        "Invalid week: Expected a multiple of step 2 but received 2026-W02",
+      ]);
+      assert.throws(() => v.parse(schema, "2026-W11"), v.ValiError);
+    });
+  });
+
+  describe("with formData()", () => {
+    test("should parse and serialize temporal fields", () => {
+      const schema = formData({
+        day: date(),
+        meeting: datetimeLocal(undefined, { timeZone: "Europe/Warsaw" }),
+        opening: time(),
+        expiry: month(),
+        sprint: week(),
+      });
+      const input = new URLSearchParams([
+        ["day", "2026-10-18"],
+        ["meeting", "2026-10-18T09:30"],
+        ["opening", "08:15"],
+        ["expiry", "2027-03"],
+        ["sprint", "2026-W42"],
+      ]);
+
+      const result = v.parse(schema, input);
+      assert.deepStrictEqual(result, {
+        day: new Date("2026-10-18T00:00:00.000Z"),
+        meeting: new Date("2026-10-18T07:30:00.000Z"),
+        opening: { hours: 8, minutes: 15, seconds: 0, milliseconds: 0 },
+        expiry: { year: 2027, month: 3 },
+        sprint: { year: 2026, week: 42 },
+      });
+      assert.deepStrictEqual([...toFormData(schema, result)], [...input]);
+    });
+  });
+});
@@ -0,0 +1,616 @@
+import * as v from "valibot";
+import { defineFieldKind } from "./field-kind.ts";
+import { emptyToUndefined } from "./form-data-schema.ts";
+
+/**
+ * Type of a temporal HTML input, as used in its `type` attribute.
+ */
+export type TemporalType = "date" | "datetime-local" | "time" | "month" | "week";
+
+/**
+ * Value of a time input.
+ */
+export type TimeValue = {
+  hours: number;
+  minutes: number;
+  seconds: number;
+  milliseconds: number;
+};
+
+/**
+ * Value of a month input. Months are 1-based, like in the submitted value.
+ */
+export type MonthValue = {
+  year: number;
+  month: number;
+};
+
+/**
+ * Value of a week input, using ISO 8601 week numbering.
+ */
+export type WeekValue = {
+  year: number;
+  week: number;
+};
+
+/**
+ * Configuration options for the temporal input helpers.
+ * Mirrors the `min`, `max` and `step` attributes of the HTML inputs.
+ */
+export type TemporalOptions = {
+  /** Earliest allowed value, in the wire format of the input (e.g. "2026-01-01" for date()) */
+  min?: string;
+  /** Latest allowed value, in the wire format of the input */
+  max?: string;
+  /**
+   * Allowed granularity, counted from min (or the input's default step base): days for date(),
+   * seconds for datetimeLocal() and time(), months for month() and weeks for week().
+   * Defaults to the HTML default step of the input, "any" allows every value
+   */
+  step?: number | "any";
+};
+
+/**
+ * Configuration options for datetimeLocal().
+ */
+export type DateTimeLocalOptions = TemporalOptions & {
+  /** IANA time zone the submitted local date and time is interpreted in. Defaults to "UTC" */
+  timeZone?: string;
+};
+
+/**
+ * Describes how the submitted value of a temporal input is parsed and formatted.
+ */
+type TemporalFormat<TValue> = {
+  /** Wire format of the input, used in issue messages */
+  pattern: string;
+  /** Number of position units in one step unit */
+  stepScale: number;
+  /** HTML default step of the input */
+  defaultStep: number;
+  /** Position used as step base when there is no min */
+  defaultStepBase: number;
+  /**
+   * Parses a submitted value. The position orders values and is used for min, max and step
+   * checks, so it is independent of the time zone.
+   */
+  parse: (input: string, timeZone: string) => { position: number; value: TValue } | undefined;
+  /** Formats a value into the wire format of the input */
+  stringify: (value: TValue, timeZone: string) => string;
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+const WEEK = 7 * DAY;
+
+// Wire formats browsers emit for the temporal inputs.
+const DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DATETIME_LOCAL_REGEX =
+  /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?$/;
+const TIME_REGEX = /^(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?$/;
+const MONTH_REGEX = /^(\d{4})-(\d{2})$/;
+const WEEK_REGEX = /^(\d{4})-W(\d{2})$/;
+
+// Formatters used to compute time zone offsets, cached by time zone.
+const timeZoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Builds a UTC timestamp from date and time components, rejecting components that overflow
+ * (e.g. February 30th or 24:00) and the year 0000, which browsers never submit.
+ *
+ * @returns Milliseconds since the epoch, or undefined if the components are invalid
+ */
+function toUtcTime(
+  year: number,
+  month: number,
+  day: number,
+  hours = 0,
+  minutes = 0,
+  seconds = 0,
+  milliseconds = 0,
+): number | undefined {
+  if (year < 1 || hours > 23 || minutes > 59 || seconds > 59) {
+    return undefined;
+  }
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  date.setUTCHours(hours, minutes, seconds, milliseconds);
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1) {
+    return undefined;
+  }
+  return date.getTime();
+}
+
+/**
+ * Converts the optional seconds and fraction groups of a time to numbers.
+ *
+ * @param seconds - Seconds group, if submitted
+ * @param fraction - Fraction group with up to three digits, if submitted
+ * @returns Seconds and milliseconds
+ */
+function parseSeconds(seconds = "0", fraction = "0") {
+  return [Number(seconds), Number(fraction.padEnd(3, "0"))] as const;
+}
+
+/**
+ * Pads a number with leading zeros.
+ */
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+/**
+ * Formats a time of day, omitting seconds and milliseconds when they are zero, like browsers do.
+ */
+function formatTime(hours: number, minutes: number, seconds: number, milliseconds: number) {
+  let result = `${pad(hours)}:${pad(minutes)}`;
+  if (seconds !== 0 || milliseconds !== 0) {
+    result += `:${pad(seconds)}`;
+  }
+  if (milliseconds !== 0) {
+    result += `.${pad(milliseconds, 3)}`;
+  }
+  return result;
+}
+
+/**
+ * Returns the offset of a time zone from UTC at the given instant.
+ *
+ * @param time - Milliseconds since the epoch
+ * @param timeZone - IANA time zone
+ * @returns Offset in milliseconds (positive east of UTC)
+ */
+function getTimeZoneOffset(time: number, timeZone: string): number {
+  if (timeZone === "UTC") {
+    return 0;
+  }
+  let formatter = timeZoneFormatters.get(timeZone);
+  if (formatter === undefined) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    timeZoneFormatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(time)) {
+    parts[part.type] = Number(part.value);
+  }
+  const wallTime = Date.UTC(
+    parts.year ?? 0,
+    (parts.month ?? 1) - 1,
+    parts.day ?? 1,
+    parts.hour ?? 0,
+    parts.minute ?? 0,
+    parts.second ?? 0,
+  );
+  return wallTime - (time - (((time % 1000) + 1000) % 1000));
+}
+
+/**
+ * Converts a wall-clock time in a time zone to an instant. For wall-clock times that don't exist
+ * (skipped by a daylight saving transition), the offset before the transition is used.
+ *
+ * @param wallTime - Wall-clock time as milliseconds since the epoch in UTC
+ * @param timeZone - IANA time zone
+ * @returns Milliseconds since the epoch
+ */
+function fromWallTime(wallTime: number, timeZone: string): number {
+  const offset = getTimeZoneOffset(wallTime, timeZone);
+  const time = wallTime - offset;
+  const correctedOffset = getTimeZoneOffset(time, timeZone);
+  return correctedOffset === offset ? time : wallTime - correctedOffset;
+}
+
+/**
+ * Returns the Monday of the first ISO week of a year.
+ *
+ * @param year - ISO week-numbering year
+ * @returns Milliseconds since the epoch at UTC midnight
+ */
+function getFirstMonday(year: number): number {
+  const january4 = toUtcTime(year, 1, 4) ?? 0;
+  const weekday = (new Date(january4).getUTCDay() + 6) % 7;
+  return january4 - weekday * DAY;
+}
+
+const DATE_FORMAT: TemporalFormat<Date> = {
+  pattern: "YYYY-MM-DD",
+  stepScale: DAY,
+  defaultStep: 1,
+  defaultStepBase: 0,
+  parse(input) {
+    const match = DATE_REGEX.exec(input);
+    const time = match && toUtcTime(Number(match[1]), Number(match[2]), Number(match[3]));
+    return typeof time === "number" ? { position: time, value: new Date(time) } : undefined;
+  },
+  stringify(value) {
+    return value.toISOString().slice(0, 10);
+  },
+};
+
+const DATETIME_LOCAL_FORMAT: TemporalFormat<Date> = {
+  pattern: "YYYY-MM-DDTHH:mm",
+  stepScale: 1000,
+  defaultStep: 60,
+  defaultStepBase: 0,
+  parse(input, timeZone) {
+    const match = DATETIME_LOCAL_REGEX.exec(input);
+    if (!match) {
+      return undefined;
+    }
+    const [seconds, milliseconds] = parseSeconds(match[6], match[7]);
+    const wallTime = toUtcTime(
+      Number(match[1]),
+      Number(match[2]),
+      Number(match[3]),
+      Number(match[4]),
+      Number(match[5]),
+      seconds,
+      milliseconds,
+    );
+    if (wallTime === undefined) {
+      return undefined;
+    }
+    return { position: wallTime, value: new Date(fromWallTime(wallTime, timeZone)) };
+  },
+  stringify(value, timeZone) {
+    const wallDate = new Date(value.getTime() + getTimeZoneOffset(value.getTime(), timeZone));
+    const time = formatTime(
+      wallDate.getUTCHours(),
+      wallDate.getUTCMinutes(),
+      wallDate.getUTCSeconds(),
+      wallDate.getUTCMilliseconds(),
+    );
+    return `${wallDate.toISOString().slice(0, 10)}T${time}`;
+  },
+};
+
+const TIME_FORMAT: TemporalFormat<TimeValue> = {
+  pattern: "HH:mm",
+  stepScale: 1000,
+  defaultStep: 60,
+  defaultStepBase: 0,
+  parse(input) {
+    const match = TIME_REGEX.exec(input);
+    if (!match) {
+      return undefined;
+    }
+    const [seconds, milliseconds] = parseSeconds(match[3], match[4]);
+    const value = { hours: Number(match[1]), minutes: Number(match[2]), seconds, milliseconds };
+    const position = toUtcTime(1970, 1, 1, value.hours, value.minutes, seconds, milliseconds);
+    return position === undefined ? undefined : { position, value };
+  },
+  stringify(value) {
+    return formatTime(value.hours, value.minutes, value.seconds, value.milliseconds);
+  },
+};
+
+const MONTH_FORMAT: TemporalFormat<MonthValue> = {
+  pattern: "YYYY-MM",
+  stepScale: 1,
+  defaultStep: 1,
+  defaultStepBase: 0,
+  parse(input) {
+    const match = MONTH_REGEX.exec(input);
+    if (!match) {
+      return undefined;
+    }
+    const value = { year: Number(match[1]), month: Number(match[2]) };
+    if (value.year < 1 || value.month < 1 || value.month > 12) {
+      return undefined;
+    }
+    return { position: (value.year - 1970) * 12 + value.month - 1, value };
+  },
+  stringify(value) {
+    return `${pad(value.year, 4)}-${pad(value.month)}`;
+  },
+};
+
+const WEEK_FORMAT: TemporalFormat<WeekValue> = {
+  pattern: "YYYY-Www",
+  stepScale: WEEK,
+  defaultStep: 1,
+  // Monday of the week containing 1970-01-01
+  defaultStepBase: -3 * DAY,
+  parse(input) {
+    const match = WEEK_REGEX.exec(input);
+    if (!match) {
+      return undefined;
+    }
+    const value = { year: Number(match[1]), week: Number(match[2]) };
+    const position = getFirstMonday(value.year) + (value.week - 1) * WEEK;
+    // A week belongs to the year that contains its Thursday.
+    const thursday = new Date(position + 3 * DAY);
+    if (value.year < 1 || value.week < 1 || thursday.getUTCFullYear() !== value.year) {
+      return undefined;
+    }
+    return { position, value };
+  },
+  stringify(value) {
+    return `${pad(value.year, 4)}-W${pad(value.week)}`;
+  },
+};
+
+const TEMPORAL_FORMATS = {
+  date: DATE_FORMAT,
+  "datetime-local": DATETIME_LOCAL_FORMAT,
+  time: TIME_FORMAT,
+  month: MONTH_FORMAT,
+  week: WEEK_FORMAT,
+};
+
+/**
+ * Formats the value of a temporal helper into the wire format of its input.
+ * Used to serialize values back into form data.
+ *
+ * @param type - Type of the temporal input
+ * @param value - Value produced by the helper
+ * @param timeZone - Time zone of datetimeLocal() values
+ * @returns The value as submitted by the input
+ */
+export function stringifyTemporalValue(
+  type: TemporalType,
+  value: unknown,
+  timeZone: string,
+): string {
+  const format = TEMPORAL_FORMATS[type] as unknown as TemporalFormat<unknown>;
+  return format.stringify(value, timeZone);
+}
+
+/**
+ * Internal helper that parses the submitted value of a temporal input and validates it against
+ * min, max and step. Undefined values are passed through.
+ *
+ * @param type - Type of the temporal input
+ * @param options - Temporal options with the time zone
+ * @returns Valibot action that transforms the wire format to the value of the input
+ */
+function parseTemporal(type: TemporalType, options: DateTimeLocalOptions) {
+  const format = TEMPORAL_FORMATS[type] as unknown as TemporalFormat<unknown>;
+  const { min, max, step = format.defaultStep, timeZone = "UTC" } = options;
+
+  // Bounds are written in the same format as the values, so they are parsed the same way.
+  const parseBound = (bound: string | undefined, name: string) => {
+    if (bound === undefined) {
+      return undefined;
+    }
+    const parsed = format.parse(bound, timeZone);
+    if (parsed === undefined) {
+      throw new Error(`Invalid ${name}: Expected ${format.pattern} but received "${bound}"`);
+    }
+    return parsed.position;
+  };
+  const minPosition = parseBound(min, "min");
+  const maxPosition = parseBound(max, "max");
+  const stepBase = minPosition ?? format.defaultStepBase;
+
+  return v.rawTransform<string | undefined, unknown>(({ dataset, addIssue, NEVER }) => {
+    const input = dataset.value;
+    if (input === undefined) {
+      return undefined;
+    }
+
+    const parsed = format.parse(input, timeZone);
+    if (parsed === undefined) {
+      addIssue({
+        message: `Invalid ${type}: Expected ${format.pattern} but received "${input}"`,
+        expected: format.pattern,
+        received: `"${input}"`,
+      });
+      return NEVER;
+    }
+
+    if (minPosition !== undefined && parsed.position < minPosition) {
+      addIssue({
+        message: `Invalid ${type}: Expected >=${min} but received ${input}`,
+        expected: `>=${min}`,
+        received: input,
+      });
+    }
+    if (maxPosition !== undefined && parsed.position > maxPosition) {
+      addIssue({
+        message: `Invalid ${type}: Expected <=${max} but received ${input}`,
+        expected: `<=${max}`,
+        received: input,
+      });
+    }
+    if (step !== "any" && (parsed.position - stepBase) % (step * format.stepScale) !== 0) {
+      addIssue({
+        message: `Invalid ${type}: Expected a multiple of step ${step} but received ${input}`,
+        expected: `%${step}`,
+        received: input,
+      });
+    }
+
+    return parsed.value;
+  });
+}
+
+/**
+ * Schema returned by the temporal input helpers.
+ */
+type TemporalFieldSchema<TValue, TSchema extends v.GenericSchema> = v.SchemaWithPipe<
+  readonly [
+    ReturnType<typeof emptyToUndefined>,
+    v.RawTransformAction<string | undefined, TValue | undefined>,
+    TSchema,
+  ]
+>;
+
+/**
+ * Internal helper that builds the schema of a temporal input: empty strings are transformed to
+ * undefined, the submitted value is parsed and checked, and the provided schema is applied.
+ *
+ * @param type - Type of the temporal input
+ * @param schema - Schema to validate the parsed value
+ * @param options - Temporal options with the time zone
+ * @returns Valibot schema registered as a temporal field
+ */
+function temporalField(type: TemporalType, schema: v.GenericSchema, options: DateTimeLocalOptions) {
+  const { timeZone = "UTC", min, max, step } = options;
+  return defineFieldKind(v.pipe(emptyToUndefined(), parseTemporal(type, options), schema), {
+    type: "temporal",
+    format: type,
+    timeZone,
+    min,
+    max,
+    step,
+  });
+}
+
+/**
+ * Internal helper for the default schema of structured values, which only requires a value.
+ *
+ * @param type - Type of the temporal input, used in the issue message
+ * @returns Valibot schema that rejects undefined
+ */
+function requiredValue<TValue>(type: TemporalType) {
+  return v.custom<TValue>(
+    (input) => input !== undefined,
+    `Invalid type: Expected ${type} but received undefined`,
+  );
+}
+
+/**
+ * Schema for date input fields (`<input type="date">`) that transforms empty strings to
+ * undefined, parses "YYYY-MM-DD" to a Date at UTC midnight and applies the provided schema.
+ * If you call date with no arguments, it assumes the field is a required date by default.
+ *
+ * @param schema - Optional schema to validate the date after parsing. Defaults to v.date()
+ * @param options - min, max and step (in days) of the input
+ * @returns Valibot schema that parses the submitted date then applies the provided schema
+ *
+ * @example
+ * const birthday = date();
+ * birthday.parse("2026-10-18");     // → Date (2026-10-18T00:00:00.000Z)
+ * birthday.parse("2026-02-30");     // → ValidationError
+ * birthday.parse("");               // → ValidationError
+ *
+ * const optionalDate = date(v.optional(v.date()), { min: "2026-01-01" });
+ * optionalDate.parse("");           // → undefined
+ * optionalDate.parse("2025-12-31"); // → ValidationError
+ */
+export function date(
+  schema?: undefined,
+  options?: TemporalOptions,
+): TemporalFieldSchema<Date, v.DateSchema<undefined>>;
+export function date<TSchema extends v.BaseSchema<Date | undefined, unknown, v.BaseIssue<unknown>>>(
+  schema: TSchema,
+  options?: TemporalOptions,
+): TemporalFieldSchema<Date, TSchema>;
+export function date(schema?: v.GenericSchema, options: TemporalOptions = {}) {
+  return temporalField("date", schema ?? v.date(), options);
+}
+
+/**
+ * Schema for local date and time input fields (`<input type="datetime-local">`).
+ * Parses "YYYY-MM-DDTHH:mm" (with optional seconds and milliseconds) to a Date. The submitted
+ * value has no time zone, so it is interpreted in the timeZone option (UTC by default).
+ * min and max are written in the same local format, and step is in seconds (default 60).
+ *
+ * @param schema - Optional schema to validate the date after parsing. Defaults to v.date()
+ * @param options - min, max, step and the time zone of the input
+ * @returns Valibot schema that parses the submitted date and time then applies the provided schema
+ *
+ * @example
+ * const meeting = datetimeLocal(undefined, { timeZone: "Europe/Warsaw" });
+ * meeting.parse("2026-10-18T09:30"); // → Date (2026-10-18T07:30:00.000Z)
+ *
+ * const precise = datetimeLocal(v.optional(v.date()), { step: 1 });
+ * precise.parse("2026-10-18T09:30:15"); // → Date (2026-10-18T09:30:15.000Z)
+ */
+export function datetimeLocal(
+  schema?: undefined,
+  options?: DateTimeLocalOptions,
+): TemporalFieldSchema<Date, v.DateSchema<undefined>>;
+export function datetimeLocal<
+  TSchema extends v.BaseSchema<Date | undefined, unknown, v.BaseIssue<unknown>>,
+>(schema: TSchema, options?: DateTimeLocalOptions): TemporalFieldSchema<Date, TSchema>;
+export function datetimeLocal(schema?: v.GenericSchema, options: DateTimeLocalOptions = {}) {
+  // Fail early for unknown time zones.
+  getTimeZoneOffset(0, options.timeZone ?? "UTC");
+  return temporalField("datetime-local", schema ?? v.date(), options);
+}
+
+/**
+ * Schema for time input fields (`<input type="time">`).
+ * Parses "HH:mm" (with optional seconds and milliseconds) to a TimeValue.
+ * step is in seconds and defaults to 60, so seconds are only accepted with a smaller step.
+ *
+ * @param schema - Optional schema to validate the time after parsing. Defaults to a required TimeValue
+ * @param options - min, max and step (in seconds) of the input
+ * @returns Valibot schema that parses the submitted time then applies the provided schema
+ *
+ * @example
+ * const opening = time();
+ * opening.parse("09:30");    // → { hours: 9, minutes: 30, seconds: 0, milliseconds: 0 }
+ * opening.parse("09:30:15"); // → ValidationError (step)
+ *
+ * const precise = time(undefined, { step: 1, min: "08:00" });
+ * precise.parse("09:30:15"); // → { hours: 9, minutes: 30, seconds: 15, milliseconds: 0 }
+ */
+export function time(
+  schema?: undefined,
+  options?: TemporalOptions,
+): TemporalFieldSchema<TimeValue, v.GenericSchema<TimeValue>>;
+export function time<
+  TSchema extends v.BaseSchema<TimeValue | undefined, unknown, v.BaseIssue<unknown>>,
+>(schema: TSchema, options?: TemporalOptions): TemporalFieldSchema<TimeValue, TSchema>;
+export function time(schema?: v.GenericSchema, options: TemporalOptions = {}) {
+  return temporalField("time", schema ?? requiredValue<TimeValue>("time"), options);
+}
+
+/**
+ * Schema for month input fields (`<input type="month">`).
+ * Parses "YYYY-MM" to a MonthValue with a 1-based month. step is in months.
+ *
+ * @param schema - Optional schema to validate the month after parsing. Defaults to a required MonthValue
+ * @param options - min, max and step (in months) of the input
+ * @returns Valibot schema that parses the submitted month then applies the provided schema
+ *
+ * @example
+ * const expiry = month(undefined, { min: "2026-10" });
+ * expiry.parse("2027-03"); // → { year: 2027, month: 3 }
+ * expiry.parse("2026-09"); // → ValidationError
+ */
+export function month(
+  schema?: undefined,
+  options?: TemporalOptions,
+): TemporalFieldSchema<MonthValue, v.GenericSchema<MonthValue>>;
+export function month<
+  TSchema extends v.BaseSchema<MonthValue | undefined, unknown, v.BaseIssue<unknown>>,
+>(schema: TSchema, options?: TemporalOptions): TemporalFieldSchema<MonthValue, TSchema>;
+export function month(schema?: v.GenericSchema, options: TemporalOptions = {}) {
+  return temporalField("month", schema ?? requiredValue<MonthValue>("month"), options);
+}
+
+/**
+ * Schema for week input fields (`<input type="week">`).
+ * Parses "YYYY-Www" to a WeekValue using ISO 8601 week numbering, so week 53 is only
+ * accepted in years that have it. step is in weeks.
+ *
+ * @param schema - Optional schema to validate the week after parsing. Defaults to a required WeekValue
+ * @param options - min, max and step (in weeks) of the input
+ * @returns Valibot schema that parses the submitted week then applies the provided schema
+ *
+ * @example
+ * const sprint = week();
+ * sprint.parse("2026-W42"); // → { year: 2026, week: 42 }
+ * sprint.parse("2025-W53"); // → ValidationError (2025 has 52 weeks)
+ */
+export function week(
+  schema?: undefined,
+  options?: TemporalOptions,
+): TemporalFieldSchema<WeekValue, v.GenericSchema<WeekValue>>;
+export function week<
+  TSchema extends v.BaseSchema<WeekValue | undefined, unknown, v.BaseIssue<unknown>>,
+>(schema: TSchema, options?: TemporalOptions): TemporalFieldSchema<WeekValue, TSchema>;
+export function week(schema?: v.GenericSchema, options: TemporalOptions = {}) {
+  return temporalField("week", schema ?? requiredValue<WeekValue>("week"), options);
+}
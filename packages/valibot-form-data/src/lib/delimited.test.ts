@@ -0,0 +1,116 @@
+import * as assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import * as v from "valibot";
+import { delimited } from "./delimited.ts";
+import { formData, numeric, text } from "./form-data-schema.ts";
+import { inputProps } from "./input-props.ts";
+import { toOpenApiRequestBody } from "./openapi.ts";
+import { toFormData } from "./to-form-data.ts";
+
+describe("delimited()", () => {
+  test("should split at commas and validate each item", () => {
+    assert.deepStrictEqual(v.parse(delimited(numeric()), "1,2,3"), [1, 2, 3]);
+    assert.deepStrictEqual(v.parse(delimited(text()), "a, b ,c"), ["a", "b", "c"]);
+  });
+
+  test("should drop empty items", () => {
+    assert.deepStrictEqual(v.parse(delimited(text()), ",a,, ,b,"), ["a", "b"]);
+    assert.deepStrictEqual(v.parse(delimited(text()), ""), []);
+    assert.deepStrictEqual(v.parse(delimited(text()), undefined), []);
+  });
+
+  test("should split at a separator pattern", () => {
+    const schema = delimited(text(v.pipe(v.string(), v.email())), { separator: /\r?\n/ });
+    assert.deepStrictEqual(v.parse(schema, "a@example.com\r\n\n  b@example.com \n"), [
+      "a@example.com",
+      "b@example.com",
+    ]);
+  });
+
+  test("should keep whitespace when trim is false", () => {
+    const schema = delimited(text(), { separator: ";", trim: false });
+    assert.deepStrictEqual(v.parse(schema, " a;b ;"), [" a", "b "]);
+  });
+
+  test("should remove repeated items after validation when dedupe is true", () => {
+    const schema = delimited(numeric(), { dedupe: true });
+    assert.deepStrictEqual(v.parse(schema, "1,2,01,1"), [1, 2]);
+    assert.deepStrictEqual(v.parse(delimited(numeric()), "1,1"), [1, 1]);
+  });
+
+  test("should report issues with the index of the item", () => {
+    const result = v.safeParse(delimited(numeric()), "1, x, 3");
+    assert.ok(!result.success);
+    assert.deepStrictEqual(
+      result.issues.map((issue) => v.getDotPath(issue)),
+      ["1"],
+    );
+  });
+
+  test("should reject more than maxItems items before validating them", () => {
+    const schema = delimited(numeric(), { maxItems: 2 });
+    assert.deepStrictEqual(v.parse(schema, "1,2"), [1, 2]);
+    const result = v.safeParse(schema, "1,x,3");
+    assert.ok(!result.success);
+    assert.deepStrictEqual(
+      result.issues.map((issue) => issue.message),
+      ["Invalid length: Expected <=2 but received 3"],
+    );
+    assert.strictEqual(
+      v.safeParse(delimited(text()), ",".repeat(1001) + "a".repeat(1001)).success,
+      true,
+    );
+    assert.strictEqual(v.safeParse(delimited(text()), "a,".repeat(1001)).success, false);
+  });
+
+  test("should render as a text input", () => {
+    assert.deepStrictEqual(inputProps(delimited(numeric()), "ids"), { name: "ids", type: "text" });
+  });
+});
+
+describe("delimited fields in forms", () => {
+  const schema = formData({
+    ids: delimited(numeric()),
+    tags: delimited(text(), { separator: " " }),
+  });
+
+  test("should parse the delimited and the repeated-key form to the same array", () => {
+    const expected = { ids: [1, 2, 3], tags: [] };
+    assert.deepStrictEqual(v.parse(schema, new URLSearchParams("ids=1,2,3")), expected);
+    assert.deepStrictEqual(v.parse(schema, new URLSearchParams("ids=1&ids=2&ids=3")), expected);
+    assert.deepStrictEqual(v.parse(schema, new URLSearchParams("ids=1,2&ids=3")), expected);
+  });
+
+  test("should report issues on the path of the item", () => {
+    const result = v.safeParse(schema, new URLSearchParams("ids=1,x"));
+    assert.ok(!result.success);
+    assert.strictEqual(v.getDotPath(result.issues[0]), "ids.1");
+  });
+
+  test("should round-trip through toFormData()", () => {
+    const value: v.InferOutput<typeof schema> = { ids: [1, 2], tags: ["a", "b"] };
+    const data = toFormData(schema, value);
+    assert.deepStrictEqual(
+      [...data.entries()],
+      [
+        ["ids", "1,2"],
+        ["tags", "a b"],
+      ],
+    );
+    assert.deepStrictEqual(v.parse(schema, data), value);
+    assert.deepStrictEqual([...toFormData(schema, { ids: [], tags: [] }).entries()], []);
+  });
+
+  test("should join items of pattern separators with line breaks", () => {
+    const emails = formData({ emails: delimited(text(), { separator: /\r?\n/ }) });
+    assert.strictEqual(toFormData(emails, { emails: ["a", "b"] }).get("emails"), "a\nb");
+  });
+
+  test("should describe the field as a string in OpenAPI", () => {
+    const urlEncoded = toOpenApiRequestBody(schema).content["application/x-www-form-urlencoded"];
+    assert.deepStrictEqual(urlEncoded?.schema.properties, {
+      ids: { type: "string" },
+      tags: { type: "string" },
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import * as v from "valibot";
+import { defineFieldKind } from "./field-kind.ts";
+
+/**
+ * Configuration options for delimited().
+ */
+export type DelimitedOptions = {
+  /** String or pattern separating the items, e.g. /\r?\n/ for one item per line. Defaults to "," */
+  separator?: string | RegExp;
+  /**
+   * String joining the items when serializing with toFormData(). Defaults to the separator if it
+   * is a string, otherwise to a line break
+   */
+  join?: string;
+  /** Whether whitespace around the items is removed. Defaults to true */
+  trim?: boolean;
+  /** Whether repeated items are removed after validation, keeping the first. Defaults to false */
+  dedupe?: boolean;
+  /**
+   * Maximum number of items, checked before the items are validated. Defaults to 1000, set it to
+   * Infinity to disable the limit
+   */
+  maxItems?: number;
+};
+
+/**
+ * Schema of a delimited list field.
+ */
+type DelimitedSchema<TItemSchema extends v.GenericSchema> = v.SchemaWithPipe<
+  readonly [
+    v.UnknownSchema,
+    v.TransformAction<unknown, Array<unknown>>,
+    v.MaxLengthAction<Array<unknown>, number, undefined>,
+    v.ArraySchema<TItemSchema, undefined>,
+    v.TransformAction<Array<v.InferOutput<TItemSchema>>, Array<v.InferOutput<TItemSchema>>>,
+  ]
+>;
+
+/**
+ * Internal helper that splits the submitted values of a delimited field into items, dropping
+ * empty items. Values of a field name submitted multiple times are split one by one, so the
+ * repeated-key form parses to the same items. Values that are not strings are passed through
+ * for the item schema to report.
+ *
+ * @param separator - String or pattern separating the items
+ * @param trim - Whether whitespace around the items is removed
+ * @returns Valibot action that transforms the submitted values to an array of items
+ */
+function splitItems(separator: string | RegExp, trim: boolean) {
+  return v.transform<unknown, Array<unknown>>((value) => {
+    const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+    return values.flatMap((item) => {
+      if (typeof item !== "string") {
+        return [item];
+      }
+      const parts = item.split(separator);
+      return (trim ? parts.map((part) => part.trim()) : parts).filter((part) => part !== "");
+    });
+  });
+}
+
+/**
+ * Schema for a list sent in a single value, e.g. a tag box (`a, b, c`), a `?ids=1,2,3` filter
+ * or a textarea with one item per line. The value is split at the separator, empty items are
+ * dropped and each item is validated with the item schema, so issues have the index of the item
+ * in their path. Repeated field names (`ids=1&ids=2`) are accepted too and parse to the same
+ * array. Always returns an empty array when no values are provided.
+ *
+ * @param itemSchema - Schema to validate each item, e.g. text() or numeric()
+ * @param options - Separator, trimming, deduplication and maximum number of items
+ * @returns Valibot schema that splits the submitted value and validates each item
+ *
+ * @example
+ * const ids = delimited(numeric());
+ * ids.parse("1, 2,,3");       // → [1, 2, 3]
+ * ids.parse(["1,2", "3"]);    // → [1, 2, 3]
+ * ids.parse(undefined);       // → []
+ * ids.parse("1,x");           // → ValidationError at index 1
+ *
+ * const emails = delimited(text(v.pipe(v.string(), v.email())), {
+ *   separator: /\r?\n/,
+ *   dedupe: true,
+ *   maxItems: 50,
+ * });
+ * emails.parse("a@example.com\r\nb@example.com\na@example.com"); // → ["a@example.com", "b@example.com"]
+ */
+export function delimited<TItemSchema extends v.BaseSchema<unknown, unknown, v.BaseIssue<unknown>>>(
+  itemSchema: TItemSchema,
+  options: DelimitedOptions = {},
+): DelimitedSchema<TItemSchema> {
+  const { separator = ",", trim = true, dedupe = false, maxItems = 1000 } = options;
+  const join = options.join ?? (typeof separator === "string" ? separator : "\n");
+  return defineFieldKind(
+    v.pipe(
+      v.unknown(),
+      splitItems(separator, trim),
+      v.maxLength(maxItems),
+      v.array(itemSchema),
+      v.transform((items) => (dedupe ? [...new Set(items)] : items)),
+    ),
+    { type: "delimited", join, schema: itemSchema },
+  );
+}
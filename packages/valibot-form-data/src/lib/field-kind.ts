@@ -0,0 +1,245 @@
+import type { ChoiceOption } from "./choice.ts";
+import type { TemporalType } from "./date-time.ts";
+import type { FormDataOptions } from "./form-data-schema.ts";
+import type * as v from "valibot";
+
+/**
+ * Describes how a schema created by one of the form helpers encodes its value in form data.
+ * Allows other parts of the library to introspect helper schemas, e.g. to serialize a typed
+ * value back into FormData.
+ */
+export type FieldKind =
+  | { type: "text" }
+  | {
+      type: "numeric";
+      format: "number" | "bigint" | "decimal";
+      locale: string | undefined;
+      integer: boolean;
+      scale: number | undefined;
+    }
+  | { type: "checkbox"; trueValue: string; falseValue: string | undefined; hiddenFallback: boolean }
+  | { type: "file" }
+  | { type: "json" }
+  | {
+      type: "temporal";
+      format: TemporalType;
+      timeZone: string;
+      min: string | undefined;
+      max: string | undefined;
+      step: number | "any" | undefined;
+    }
+  | {
+      type: "choice";
+      control: "select" | "radio" | "checkbox";
+      choices: ReadonlyArray<ChoiceOption>;
+    }
+  | { type: "repeatable"; schema: v.GenericSchema | v.GenericSchemaAsync }
+  | { type: "delimited"; join: string; schema: v.GenericSchema }
+  | { type: "sort"; values: ReadonlyArray<string> }
+  | {
+      type: "form";
+      entries: v.ObjectEntries | v.ObjectEntriesAsync;
+      options: Required<FormDataOptions>;
+    };
+
+/**
+ * Valibot schema types that only wrap another schema without changing its encoding.
+ */
+export type WrapperType =
+  | "exact_optional"
+  | "non_nullable"
+  | "non_nullish"
+  | "non_optional"
+  | "nullable"
+  | "nullish"
+  | "optional"
+  | "undefinedable";
+
+// Registry of schemas created by the form helpers. A WeakMap keeps schemas collectable.
+const fieldKinds = new WeakMap<object, FieldKind>();
+
+// Form schemas of formData() with a union or variant shape, mapped to that shape.
+const formRoots = new WeakMap<object, v.GenericSchema | v.GenericSchemaAsync>();
+
+// Valibot schema types that make a value optional.
+const OPTIONAL_TYPES = new Set(["exact_optional", "nullish", "optional", "undefinedable"]);
+
+// Valibot schema types that only wrap another schema without changing its encoding.
+const WRAPPER_TYPES = new Set([
+  "exact_optional",
+  "non_nullable",
+  "non_nullish",
+  "non_optional",
+  "nullable",
+  "nullish",
+  "optional",
+  "undefinedable",
+]);
+
+/**
+ * Registers the field kind of a schema created by one of the form helpers.
+ *
+ * @param schema - The schema returned by the helper
+ * @param kind - Description of how the schema encodes its value
+ * @returns The same schema, for chaining
+ */
+export function defineFieldKind<TSchema extends object>(schema: TSchema, kind: FieldKind): TSchema {
+  fieldKinds.set(schema, kind);
+  return schema;
+}
+
+/**
+ * Registers the union or variant shape of a form schema, so unwrapSchema() continues with the
+ * shape and the form is introspected like a nested union or variant.
+ *
+ * @param schema - The schema returned by formData()
+ * @param root - The union or variant schema describing the parsed value
+ * @returns The same schema, for chaining
+ */
+export function defineFormRoot<TSchema extends object>(
+  schema: TSchema,
+  root: v.GenericSchema | v.GenericSchemaAsync,
+): TSchema {
+  formRoots.set(schema, root);
+  return schema;
+}
+
+/**
+ * Returns the field kind registered for the exact schema, if any.
+ *
+ * @param schema - The schema to look up
+ * @returns The registered field kind or undefined
+ */
+export function getFieldKind(schema: unknown): FieldKind | undefined {
+  return typeof schema === "object" && schema !== null ? fieldKinds.get(schema) : undefined;
+}
+
+/**
+ * Returns the schema wrapped by an optional/nullable-style wrapper like v.optional().
+ *
+ * @param schema - The schema to check
+ * @returns The wrapped schema or undefined if the schema is not such a wrapper
+ */
+export function getWrappedSchema(
+  schema: v.GenericSchema | v.GenericSchemaAsync,
+): v.GenericSchema | v.GenericSchemaAsync | undefined {
+  return WRAPPER_TYPES.has(schema.type) && "wrapped" in schema
+    ? (schema.wrapped as v.GenericSchema | v.GenericSchemaAsync)
+    : undefined;
+}
+
+/**
+ * Checks if a schema is a wrapper that makes a value optional, like v.optional() or v.nullish().
+ * Unlike isOptionalSchema(), pipes and nested wrappers are not followed.
+ *
+ * @param schema - The schema to check
+ * @returns True if the schema itself accepts a missing value
+ */
+export function isOptionalWrapper(schema: v.GenericSchema | v.GenericSchemaAsync): boolean {
+  return OPTIONAL_TYPES.has(schema.type);
+}
+
+/**
+ * Unwraps a schema until it reaches a registered helper schema or a schema that is neither
+ * a pipe nor an optional/nullable-style wrapper. Form schemas with a union or variant shape are
+ * unwrapped to that shape.
+ * For pipes, the first item is the schema that receives the raw input, so it determines the
+ * encoding (e.g. v.pipe(text(), v.email()) is encoded like text()).
+ *
+ * @param schema - The schema to unwrap
+ * @returns The innermost schema that determines how the value is encoded
+ *
+ * @example
+ * unwrapSchema(v.optional(v.pipe(text(), v.email()))) // → text() schema
+ * unwrapSchema(v.nullable(v.object({}))) // → v.object({}) schema
+ */
+export function unwrapSchema(
+  schema: v.GenericSchema | v.GenericSchemaAsync,
+): v.GenericSchema | v.GenericSchemaAsync {
+  let current = schema;
+  while (!fieldKinds.has(current)) {
+    const root = formRoots.get(current);
+    if (root !== undefined) {
+      current = root;
+    } else if ("pipe" in current && Array.isArray(current.pipe)) {
+      current = current.pipe[0] as v.GenericSchema | v.GenericSchemaAsync;
+    } else {
+      const wrapped = getWrappedSchema(current);
+      if (wrapped === undefined) {
+        break;
+      }
+      current = wrapped;
+    }
+  }
+  return current;
+}
+
+/**
+ * Checks if a schema accepts a missing value through an optional-style wrapper, following
+ * pipes and wrappers the same way as unwrapSchema().
+ *
+ * @param schema - The schema to check
+ * @returns True if the schema is wrapped in v.optional() or a similar schema
+ *
+ * @example
+ * isOptionalSchema(v.optional(v.object({}))) // → true
+ * isOptionalSchema(v.pipe(v.nullish(v.object({})), v.check(() => true))) // → true
+ * isOptionalSchema(text(v.optional(v.string()))) // → false, as text() is a helper schema
+ */
+export function isOptionalSchema(schema: v.GenericSchema | v.GenericSchemaAsync): boolean {
+  let current = schema;
+  while (!fieldKinds.has(current)) {
+    if (isOptionalWrapper(current)) {
+      return true;
+    }
+    if (current.type === "non_optional" || current.type === "non_nullish") {
+      return false;
+    }
+    if ("pipe" in current && Array.isArray(current.pipe)) {
+      current = current.pipe[0] as v.GenericSchema | v.GenericSchemaAsync;
+    } else {
+      const wrapped = getWrappedSchema(current);
+      if (wrapped === undefined) {
+        break;
+      }
+      current = wrapped;
+    }
+  }
+  return false;
+}
+
+/**
+ * Returns the schema used for a nested key of an object-like schema, if it can be determined.
+ *
+ * @param schema - Object, array, tuple or record schema
+ * @param key - Key of the nested value
+ * @returns Schema of the nested value or undefined if unknown
+ */
+export function getNestedSchema(
+  schema: v.GenericSchema | v.GenericSchemaAsync,
+  key: string | number,
+): v.GenericSchema | v.GenericSchemaAsync | undefined {
+  if ("entries" in schema && typeof key === "string") {
+    const entries = schema.entries as v.ObjectEntries | v.ObjectEntriesAsync;
+    if (Object.hasOwn(entries, key)) {
+      return entries[key];
+    }
+    if ("rest" in schema) {
+      return schema.rest as v.GenericSchema | v.GenericSchemaAsync;
+    }
+    return undefined;
+  }
+  if ("items" in schema && Array.isArray(schema.items) && typeof key === "number") {
+    return (schema.items[key] ?? ("rest" in schema ? schema.rest : undefined)) as
+      | v.GenericSchema
+      | v.GenericSchemaAsync
+      | undefined;
+  }
+  if ("item" in schema) {
+    return schema.item as v.GenericSchema | v.GenericSchemaAsync;
+  }
+  if (schema.type === "record" && "value" in schema) {
+    return schema.value as v.GenericSchema | v.GenericSchemaAsync;
+  }
+  return undefined;
+}
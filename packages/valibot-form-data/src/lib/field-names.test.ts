@@ -0,0 +1,97 @@
+import * as assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import * as v from "valibot";
+import { multiSelect } from "./choice.ts";
+import { fieldNames } from "./field-names.ts";
+import { formData, numeric, repeatable, text } from "./form-data-schema.ts";
+import type { FieldPath } from "./field-path.ts";
+
+describe("fieldNames()", () => {
+  const schema = formData({
+    name: text(),
+    address: v.optional(v.object({ street: text(), zip: numeric() })),
+    locations: v.array(v.object({ city: text() })),
+    tags: repeatable(),
+    days: multiSelect([1, 2, 3]),
+  });
+
+  test("should return the names of top-level and nested fields", () => {
+    const names = fieldNames(schema);
+    assert.strictEqual(names.name, "name");
+    assert.strictEqual(names.address.street, "address.street");
+    assert.strictEqual(names.address.zip, "address.zip");
+  });
+
+  test("should return the names of array items", () => {
+    const names = fieldNames(schema);
+    assert.strictEqual(names.locations(0).city, "locations[0].city");
+    assert.strictEqual(names.locations(12).city, "locations[12].city");
+  });
+
+  test("should treat form helpers as a single field", () => {
+    const names = fieldNames(schema);
+    assert.strictEqual(names.tags, "tags");
+    assert.strictEqual(names.days, "days");
+  });
+
+  test("should use the provided notation", () => {
+    assert.strictEqual(
+      fieldNames(schema, { notation: "dot" }).locations(0).city,
+      "locations.0.city",
+    );
+    assert.strictEqual(
+      fieldNames(schema, { notation: "bracket" }).locations(0).city,
+      "locations[0][city]",
+    );
+  });
+
+  test("should return the names of tuple items and record values", () => {
+    const names = fieldNames(
+      formData({
+        range: v.tuple([numeric(), numeric()]),
+        prices: v.record(v.string(), v.object({ amount: numeric() })),
+      }),
+    );
+    assert.strictEqual(names.range(1), "range[1]");
+    assert.strictEqual(names.prices("eur").amount, "prices.eur.amount");
+  });
+
+  test("should merge the fields of the object options of variants", () => {
+    const names = fieldNames(
+      formData({
+        contact: v.variant("type", [
+          v.object({ type: v.literal("email"), email: text() }),
+          v.object({ type: v.literal("phone"), phone: text() }),
+        ]),
+      }),
+    );
+    assert.strictEqual(names.contact.type, "contact.type");
+    assert.strictEqual(names.contact.email, "contact.email");
+    assert.strictEqual(names.contact.phone, "contact.phone");
+  });
+
+  test("should accept plain object schemas", () => {
+    const names = fieldNames(v.object({ title: text(), authors: v.array(text()) }));
+    assert.strictEqual(names.title, "title");
+    assert.strictEqual(names.authors(2), "authors[2]");
+  });
+
+  test("should throw for schemas that are not objects", () => {
+    assert.throws(() => fieldNames(text()), {
+      message: "Cannot create field names for a schema that is not an object",
+    });
+  });
+
+  test("should type field names as paths of the schema", () => {
+    const names = fieldNames(schema);
+    const city: "locations[3].city" = names.locations(3).city;
+    const paths: Array<FieldPath<typeof schema>> = [names.address.street, city, names.tags];
+    const dotPath: FieldPath<typeof schema, "dot"> = fieldNames(schema, {
+      notation: "dot",
+    }).locations(0).city;
+    // @ts-expect-error - Unknown fields are not allowed
+    assert.strictEqual(names.address.country, undefined);
+    assert.deepStrictEqual(paths, ["address.street", "locations[3].city", "tags"]);
+    assert.strictEqual(dotPath, "locations.0.city");
+  });
+});
@@ -0,0 +1,212 @@
+import { getFieldKind, unwrapSchema } from "./field-kind.ts";
+import { pathArrayToString } from "./path-array-to-string.ts";
+import type { WrapperType } from "./field-kind.ts";
+import type { JoinPath } from "./field-path.ts";
+import type { PathArrayToStringOptions, PathNotation } from "./path-array-to-string.ts";
+import type * as v from "valibot";
+
+/**
+ * Configuration options for fieldNames().
+ */
+export type FieldNamesOptions<TNotation extends PathNotation = PathNotation> =
+  PathArrayToStringOptions & {
+    /** Notation used for the field names. Defaults to "mixed" (e.g. "items[0].name") */
+    notation?: TNotation;
+  };
+
+type Schema = v.GenericSchema | v.GenericSchemaAsync;
+type Entries = v.ObjectEntries | v.ObjectEntriesAsync;
+type Path = Array<string | number>;
+
+/**
+ * Union of the entries of the object options of a union or variant schema.
+ */
+type OptionEntries<TOption> = TOption extends { entries: infer TEntries extends Entries }
+  ? TEntries
+  : never;
+
+/**
+ * Schema of a key in any of the given entries.
+ */
+type EntrySchema<TEntries, TKey extends PropertyKey> = TEntries extends unknown
+  ? TKey extends keyof TEntries
+    ? TEntries[TKey]
+    : never
+  : never;
+
+/**
+ * Accessors of the fields of object entries, merged across union options.
+ */
+type EntriesNames<TEntries, TNotation extends PathNotation, TPrefix extends string> = {
+  readonly [TKey in (TEntries extends unknown ? keyof TEntries : never) & string]: FieldNames<
+    EntrySchema<TEntries, TKey>,
+    TNotation,
+    JoinPath<TPrefix, TKey, TNotation>
+  >;
+};
+
+/**
+ * Typed accessor of the field names of a form schema, as returned by fieldNames(). Fields are
+ * their field name, nested objects (including the object options of unions and variants) are
+ * accessors of their fields, and arrays, tuples and records are functions of the index or key.
+ * Form helpers like repeatable() are a single field name.
+ *
+ * @example
+ * const schema = formData({
+ *   name: text(),
+ *   locations: v.array(v.object({ city: text() })),
+ * });
+ *
+ * type Names = FieldNames<typeof schema>;
+ * // { name: "name"; locations: <TIndex extends number>(index: TIndex) => { city: `locations[${TIndex}].city` } }
+ */
+export type FieldNames<
+  TSchema,
+  TNotation extends PathNotation = "mixed",
+  TPrefix extends string = "",
+> = TSchema extends { type: WrapperType; wrapped: infer TWrapped }
+  ? FieldNames<TWrapped, TNotation, TPrefix>
+  : TSchema extends { entries: infer TEntries extends Entries }
+    ? EntriesNames<TEntries, TNotation, TPrefix>
+    : TSchema extends { type: "array"; item: infer TItem }
+      ? <TIndex extends number>(
+          index: TIndex,
+        ) => FieldNames<TItem, TNotation, JoinPath<TPrefix, TIndex, TNotation>>
+      : TSchema extends { items: infer TItems extends ReadonlyArray<unknown> }
+        ? <TIndex extends number>(
+            index: TIndex,
+          ) => FieldNames<TItems[TIndex], TNotation, JoinPath<TPrefix, TIndex, TNotation>>
+        : TSchema extends { type: "record"; value: infer TValue }
+          ? <TKey extends string>(
+              key: TKey,
+            ) => FieldNames<TValue, TNotation, JoinPath<TPrefix, TKey, TNotation>>
+          : TSchema extends {
+                type: "union" | "variant";
+                options: ReadonlyArray<infer TOption>;
+              }
+            ? [OptionEntries<TOption>] extends [never]
+              ? TPrefix
+              : EntriesNames<OptionEntries<TOption>, TNotation, TPrefix>
+            : TPrefix;
+
+/**
+ * Returns the entries of an object or formData() schema.
+ *
+ * @param schema - Unwrapped schema
+ * @returns The object entries or undefined if the schema is not an object
+ */
+function getEntries(schema: Schema): Entries | undefined {
+  const kind = getFieldKind(schema);
+  if (kind?.type === "form") {
+    return kind.entries;
+  }
+  return kind === undefined && "entries" in schema ? (schema.entries as Entries) : undefined;
+}
+
+/**
+ * Recursively builds the field names of a schema.
+ *
+ * @param schema - Schema of the field
+ * @param path - Path of the field
+ * @param options - Notation of the field names
+ * @returns The field name, or the accessor of the nested field names
+ */
+function buildNames(schema: Schema, path: Path, options: FieldNamesOptions): unknown {
+  const inner = unwrapSchema(schema);
+  const kind = getFieldKind(inner);
+  // Form helpers are a single field, even if they accept multiple values like repeatable().
+  if (kind !== undefined && kind.type !== "form") {
+    return pathArrayToString(path, options);
+  }
+
+  const entries = getEntries(inner);
+  if (entries !== undefined) {
+    return buildEntriesNames([entries], path, options);
+  }
+  if (inner.type === "array" && "item" in inner) {
+    return (index: number) => buildNames(inner.item as Schema, [...path, index], options);
+  }
+  if ("items" in inner && Array.isArray(inner.items)) {
+    const items = inner.items as Array<Schema>;
+    const rest = "rest" in inner ? (inner.rest as Schema) : undefined;
+    return (index: number) => {
+      const item = items[index] ?? rest;
+      return item === undefined ? undefined : buildNames(item, [...path, index], options);
+    };
+  }
+  if (inner.type === "record" && "value" in inner) {
+    return (key: string) => buildNames(inner.value as Schema, [...path, key], options);
+  }
+  if ((inner.type === "union" || inner.type === "variant") && "options" in inner) {
+    const optionEntries = (inner.options as Array<Schema>)
+      .map((option) => getEntries(unwrapSchema(option)))
+      .filter((option) => option !== undefined);
+    if (optionEntries.length > 0) {
+      return buildEntriesNames(optionEntries, path, options);
+    }
+  }
+  return pathArrayToString(path, options);
+}
+
+/**
+ * Builds the accessor of the fields of object entries. Keys declared by several union options
+ * use the schema of the first option.
+ *
+ * @param entriesList - Entries of the object, or of every object option of a union
+ * @param path - Path of the object
+ * @param options - Notation of the field names
+ * @returns Object with the field names or nested accessors, keyed by entry key
+ */
+function buildEntriesNames(
+  entriesList: Array<Entries>,
+  path: Path,
+  options: FieldNamesOptions,
+): Record<string, unknown> {
+  const schemas = new Map<string, Schema>();
+  for (const entries of entriesList) {
+    for (const [key, schema] of Object.entries(entries)) {
+      if (!schemas.has(key)) {
+        schemas.set(key, schema);
+      }
+    }
+  }
+  // Object.fromEntries() defines own properties, so keys like "__proto__" are safe.
+  return Object.fromEntries(
+    [...schemas].map(([key, schema]) => [key, buildNames(schema, [...path, key], options)]),
+  );
+}
+
+/**
+ * Returns a typed accessor of the field names of a form schema, so field names don't have to be
+ * typed by hand and renaming a key of the schema is a compile error wherever the name is used.
+ * The names are written the way formData() parses them, in the given notation.
+ *
+ * @param schema - Form schema, usually created with formData()
+ * @param options - Notation of the field names
+ * @returns Accessor of the field names, see FieldNames
+ *
+ * @example
+ * const schema = formData({
+ *   name: text(),
+ *   locations: v.array(v.object({ city: text() })),
+ *   tags: repeatable(),
+ * });
+ *
+ * const names = fieldNames(schema);
+ * names.name;               // → "name"
+ * names.locations(0).city;  // → "locations[0].city"
+ * names.tags;               // → "tags"
+ *
+ * fieldNames(schema, { notation: "dot" }).locations(0).city; // → "locations.0.city"
+ */
+export function fieldNames<TSchema extends Schema, TNotation extends PathNotation = "mixed">(
+  schema: TSchema,
+  options: FieldNamesOptions<TNotation> = {},
+): FieldNames<TSchema, TNotation> {
+  // Objects, and unions or variants of objects, have an accessor of their fields.
+  const names = buildNames(schema, [], options);
+  if (typeof names !== "object") {
+    throw new Error("Cannot create field names for a schema that is not an object");
+  }
+  return names as FieldNames<TSchema, TNotation>;
+}
@@ -0,0 +1,76 @@
+import type { PathNotation } from "./path-array-to-string.ts";
+import type * as v from "valibot";
+
+/**
+ * Appends a key to a field path using the given notation.
+ * Mirrors the runtime behavior of pathArrayToString.
+ */
+export type JoinPath<
+  TPrefix extends string,
+  TKey extends string | number,
+  TNotation extends PathNotation,
+> = TPrefix extends ""
+  ? TKey extends number
+    ? TNotation extends "mixed"
+      ? `[${TKey}]`
+      : `${TKey}`
+    : `${TKey}`
+  : TKey extends number
+    ? TNotation extends "dot"
+      ? `${TPrefix}.${TKey}`
+      : `${TPrefix}[${TKey}]`
+    : TNotation extends "bracket"
+      ? `${TPrefix}[${TKey}]`
+      : `${TPrefix}.${TKey}`;
+
+/**
+ * Recursively collects the field paths of a value type.
+ * Arrays contribute an index segment, files and dates are treated as leaves.
+ */
+type Paths<TValue, TNotation extends PathNotation, TPrefix extends string> =
+  TValue extends ReadonlyArray<infer TItem>
+    ? JoinPath<TPrefix, number, TNotation> extends infer TPath extends string
+      ? TPath | Paths<NonNullable<TItem>, TNotation, TPath>
+      : never
+    : TValue extends Blob | Date
+      ? never
+      : TValue extends object
+        ? {
+            [TKey in keyof TValue & string]-?: JoinPath<
+              TPrefix,
+              TKey,
+              TNotation
+            > extends infer TPath extends string
+              ? TPath | Paths<NonNullable<TValue[TKey]>, TNotation, TPath>
+              : never;
+          }[keyof TValue & string]
+        : never;
+
+/**
+ * Union of every field name of a value type, e.g. the output of a form schema, written in the
+ * given notation. See FieldPath.
+ */
+export type ValuePath<TValue, TNotation extends PathNotation = "mixed"> = Paths<
+  TValue,
+  TNotation,
+  ""
+>;
+
+/**
+ * Union of every field name of a form schema, written in the given notation.
+ * Includes the names of nested containers (e.g. "address") as well as their fields
+ * (e.g. "address.street"). Array indices are typed as `${number}`.
+ *
+ * @example
+ * const schema = formData({
+ *   name: text(),
+ *   locations: v.array(v.object({ city: text() })),
+ * });
+ *
+ * type Names = FieldPath<typeof schema>;
+ * // "name" | "locations" | `locations[${number}]` | `locations[${number}].city`
+ */
+export type FieldPath<
+  TSchema extends v.GenericSchema | v.GenericSchemaAsync,
+  TNotation extends PathNotation = "mixed",
+> = ValuePath<v.InferOutput<TSchema>, TNotation>;
@@ -0,0 +1,127 @@
+import * as assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import * as v from "valibot";
+import { fileContent, fileHash, fileSignature } from "./file-content.ts";
+import { file, formDataAsync, text } from "./form-data-schema.ts";
+
+const PNG_BYTES = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d];
+const PDF_BYTES = [0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x37];
+const EXE_BYTES = [0x4d, 0x5a, 0x90, 0x00, 0x03, 0x00, 0x00, 0x00];
+
+function createFile(bytes: Array<number>, name: string, type: string) {
+  return new File([new Uint8Array(bytes)], name, { type });
+}
+
+async function getIssues(schema: v.GenericSchemaAsync, input: unknown) {
+  const result = await v.safeParseAsync(schema, input);
+  assert.ok(!result.success);
+  return result.issues.map((issue) => ({
+    message: issue.message,
+    path: v.getDotPath(issue),
+  }));
+}
+
+describe("File Content Validators", () => {
+  describe("fileSignature()", () => {
+    test("should accept files with a matching signature", async () => {
+      const schema = v.pipeAsync(file(), fileSignature(["png", "pdf"]));
+      const png = createFile(PNG_BYTES, "image.png", "image/png");
+      const pdf = createFile(PDF_BYTES, "document.pdf", "application/pdf");
+      assert.strictEqual(await v.parseAsync(schema, png), png);
+      assert.strictEqual(await v.parseAsync(schema, pdf), pdf);
+    });
+
+    test("should reject files whose content does not match the claimed type", async () => {
+      const schema = v.pipeAsync(file(), fileSignature(["png", "jpeg"]));
+      const issues = await getIssues(schema, createFile(EXE_BYTES, "avatar.png", "image/png"));
+      assert.deepStrictEqual(issues, [
+        { message: "Invalid file signature: Expected png | jpeg but received unknown", path: null },
+      ]);
+    });
+
+    test("should report the detected type", async () => {
+      const schema = v.pipeAsync(file(), fileSignature(["png"]));
+      const issues = await getIssues(schema, createFile(PDF_BYTES, "image.png", "image/png"));
+      assert.deepStrictEqual(issues, [
+        { message: "Invalid file signature: Expected png but received pdf", path: null },
+      ]);
+    });
+
+    test("should reject files that are shorter than the signature", async () => {
+      const schema = v.pipeAsync(file(), fileSignature(["png"], "Not a PNG"));
+      const issues = await getIssues(schema, createFile([0x89, 0x50], "image.png", "image/png"));
+      assert.deepStrictEqual(issues, [{ message: "Not a PNG", path: null }]);
+    });
+
+    test("should skip missing optional files", async () => {
+      const schema = v.pipeAsync(file(v.optional(v.instance(File))), fileSignature(["png"]));
+      assert.strictEqual(await v.parseAsync(schema, undefined), undefined);
+    });
+  });
+
+  describe("fileContent()", () => {
+    test("should pass the bytes and the file to the requirement", async () => {
+      const schema = v.pipeAsync(
+        file(),
+        fileContent((bytes, input) => bytes.length === input.size && bytes[0] === 0x25),
+      );
+      const pdf = createFile(PDF_BYTES, "document.pdf", "application/pdf");
+      assert.strictEqual(await v.parseAsync(schema, pdf), pdf);
+    });
+
+    test("should support async requirements and custom messages", async () => {
+      const schema = v.pipeAsync(
+        file(),
+        fileContent(async (bytes) => !bytes.includes(0), "Binary files are not allowed"),
+      );
+      const issues = await getIssues(schema, createFile(EXE_BYTES, "notes.txt", "text/plain"));
+      assert.deepStrictEqual(issues, [{ message: "Binary files are not allowed", path: null }]);
+    });
+  });
+
+  describe("fileHash()", () => {
+    test("should transform the file to its hash", async () => {
+      const schema = v.pipeAsync(file(), fileHash());
+      const input = new File(["hello"], "hello.txt", { type: "text/plain" });
+      const result = await v.parseAsync(schema, input);
+      assert.deepStrictEqual(result, {
+        file: input,
+        hash: "2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824",
+      });
+    });
+
+    test("should support other algorithms", async () => {
+      const schema = v.pipeAsync(file(), fileHash("sha-1"));
+      const result = await v.parseAsync(schema, new File(["hello"], "hello.txt"));
+      assert.strictEqual(result?.hash, "aaf4c61ddcc5e8a2dabede0f3b482cd9aea9434d");
+    });
+
+    test("should pass through missing optional files", async () => {
+      const schema = v.pipeAsync(file(v.optional(v.instance(File))), fileHash());
+      assert.strictEqual(await v.parseAsync(schema, undefined), undefined);
+    });
+  });
+
+  describe("with formDataAsync()", () => {
+    test("should report issues on the path of the file", async () => {
+      const schema = formDataAsync({
+        name: text(),
+        documents: v.arrayAsync(
+          v.objectAsync({ upload: v.pipeAsync(file(), fileSignature(["pdf"])) }),
+        ),
+      });
+      const formData = new FormData();
+      formData.append("name", "John");
+      formData.append("documents[0].upload", createFile(PDF_BYTES, "a.pdf", "application/pdf"));
+      formData.append("documents[1].upload", createFile(EXE_BYTES, "b.pdf", "application/pdf"));
+
+      const issues = await getIssues(schema, formData);
+      assert.deepStrictEqual(issues, [
+        {
+          message: "Invalid file signature: Expected pdf but received unknown",
+          path: "documents.1.upload",
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import * as v from "valibot";
+
+/**
+ * Magic bytes of the file types known to fileSignature().
+ * A null byte matches any value (e.g. the size field of a RIFF header).
+ */
+const FILE_SIGNATURES = {
+  bmp: [[0x42, 0x4d]],
+  gif: [[0x47, 0x49, 0x46, 0x38, null, 0x61]],
+  gzip: [[0x1f, 0x8b]],
+  jpeg: [[0xff, 0xd8, 0xff]],
+  pdf: [[0x25, 0x50, 0x44, 0x46, 0x2d]],
+  png: [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  webp: [[0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50]],
+  zip: [
+    [0x50, 0x4b, 0x03, 0x04],
+    [0x50, 0x4b, 0x05, 0x06],
+  ],
+} satisfies Record<string, Array<Array<number | null>>>;
+
+// Number of bytes that have to be read to detect any of the known file types.
+const SIGNATURE_LENGTH = 12;
+
+/**
+ * File type that can be detected by its signature.
+ */
+export type FileType = keyof typeof FILE_SIGNATURES;
+
+/**
+ * Hash algorithm supported by fileHash().
+ */
+export type FileHashAlgorithm = "sha-1" | "sha-256" | "sha-384" | "sha-512";
+
+/**
+ * Output of fileHash(): the validated file together with its hex encoded hash.
+ */
+export type HashedFile<TFile extends Blob = File> = {
+  file: TFile;
+  hash: string;
+};
+
+/**
+ * Reads the content of a Blob through its stream.
+ * When a length is given, the stream is cancelled as soon as enough bytes were read,
+ * so large uploads don't have to be read completely.
+ *
+ * @param blob - Blob or File to read
+ * @param length - Maximum number of bytes to read. Defaults to the whole Blob
+ * @returns The bytes that were read
+ */
+async function readBytes(blob: Blob, length = Infinity): Promise<Uint8Array<ArrayBuffer>> {
+  const chunks: Array<Uint8Array> = [];
+  let size = 0;
+  const reader = blob.stream().getReader();
+  try {
+    while (size < length) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      chunks.push(value);
+      size += value.byteLength;
+    }
+  } finally {
+    await reader.cancel();
+  }
+
+  const bytes = new Uint8Array(Math.min(size, length));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset);
+    bytes.set(part, offset);
+    offset += part.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * Detects the file type of the given bytes from its signature.
+ *
+ * @param bytes - The first bytes of a file
+ * @returns The detected file type or undefined if unknown
+ */
+function detectFileType(bytes: Uint8Array): FileType | undefined {
+  for (const [type, signatures] of Object.entries(FILE_SIGNATURES)) {
+    const matches = signatures.some((signature: Array<number | null>) => {
+      return (
+        bytes.length >= signature.length &&
+        signature.every((byte, index) => byte === null || byte === bytes[index])
+      );
+    });
+    if (matches) {
+      return type as FileType;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Async validation action that checks the content of a file with a custom requirement.
+ * The whole file is read through its stream and passed to the requirement as bytes.
+ * Missing files (undefined) are skipped, so the action can be used with optional fields.
+ * Has to be used within v.pipeAsync(), e.g. in a formDataAsync() shape.
+ *
+ * @param requirement - Function that receives the bytes and the file and returns if the content is valid
+ * @param message - Optional error message for validation failure
+ * @returns Async Valibot action that validates the file content
+ *
+ * @example
+ * const schema = formDataAsync({
+ *   data: v.pipeAsync(
+ *     file(),
+ *     fileContent((bytes) => !bytes.includes(0), "Binary files are not allowed"),
+ *   ),
+ * });
+ */
+export function fileContent<TInput extends Blob | undefined>(
+  requirement: (bytes: Uint8Array, file: NonNullable<TInput>) => boolean | Promise<boolean>,
+  message?: v.ErrorMessage<v.RawCheckIssue<TInput>>,
+) {
+  return v.rawCheckAsync<TInput>(async ({ dataset, addIssue }) => {
+    // Skip files that already failed validation and missing files.
+    if (!dataset.typed || dataset.value === undefined) {
+      return;
+    }
+    const file: Blob = dataset.value;
+    const bytes = await readBytes(file);
+    if (!(await requirement(bytes, file as NonNullable<TInput>))) {
+      addIssue({ message: message ?? "Invalid content: File content does not match" });
+    }
+  });
+}
+
+/**
+ * Async validation action that checks the type of a file by its magic bytes instead of the
+ * type claimed by the client. Only the first bytes are read from the stream, so the check is
+ * cheap even for large uploads. Missing files (undefined) are skipped.
+ * Has to be used within v.pipeAsync(), e.g. in a formDataAsync() shape.
+ *
+ * @param types - File types that are accepted
+ * @param message - Optional error message for validation failure
+ * @returns Async Valibot action that validates the file signature
+ *
+ * @example
+ * const schema = formDataAsync({
+ *   avatar: v.pipeAsync(file(), fileSignature(["png", "jpeg"])),
+ * });
+ *
+ * // An executable renamed to "avatar.png" with type "image/png" fails:
+ * // "Invalid file signature: Expected png | jpeg but received unknown"
+ */
+export function fileSignature<TInput extends Blob | undefined>(
+  types: ReadonlyArray<FileType>,
+  message?: v.ErrorMessage<v.RawCheckIssue<TInput>>,
+) {
+  const expected = types.join(" | ");
+  return v.rawCheckAsync<TInput>(async ({ dataset, addIssue }) => {
+    // Skip files that already failed validation and missing files.
+    if (!dataset.typed || dataset.value === undefined) {
+      return;
+    }
+    const file: Blob = dataset.value;
+    const received = detectFileType(await readBytes(file, SIGNATURE_LENGTH)) ?? "unknown";
+    if (!types.includes(received as FileType)) {
+      addIssue({
+        message: message ?? `Invalid file signature: Expected ${expected} but received ${received}`,
+        expected,
+        received,
+      });
+    }
+  });
+}
+
+/**
+ * Async transformation action that computes the hash of a file with the Web Crypto API.
+ * Transforms the file into an object containing the file and its hex encoded hash, e.g. to
+ * deduplicate uploads or to verify a checksum with a following v.check().
+ * Missing files (undefined) are passed through.
+ * Has to be used within v.pipeAsync(), e.g. in a formDataAsync() shape.
+ *
+ * @param algorithm - Hash algorithm. Defaults to "sha-256"
+ * @returns Async Valibot action that transforms a file to { file, hash }
+ *
+ * @example
+ * const schema = formDataAsync({
+ *   document: v.pipeAsync(file(), fileHash("sha-256")),
+ * });
+ *
+ * await v.parseAsync(schema, formData);
+ * // → { document: { file: File, hash: "e3b0c442..." } }
+ */
+export function fileHash<TInput extends Blob | undefined>(
+  algorithm: FileHashAlgorithm = "sha-256",
+) {
+  return v.transformAsync<TInput, HashedFile<NonNullable<TInput>> | undefined>(async (file) => {
+    if (file === undefined) {
+      return undefined;
+    }
+    const bytes = await readBytes(file);
+    const digest = await crypto.subtle.digest(algorithm.toUpperCase(), bytes);
+    const hash = Array.from(new Uint8Array(digest), (byte) => {
+      return byte.toString(16).padStart(2, "0");
+    }).join("");
+    return { file, hash };
+  });
+}
@@ -60,6 +60,111 @@ describe("Form Data Schema Validators", () => {
       assert.strictEqual(v.parse(minValue, "15"), 15);
       assert.throws(() => v.parse(minValue, "5"), v.ValiError);
     });
+
+    test("should ignore surrounding whitespace and reject other notations", () => {
+      assert.strictEqual(v.parse(vfd.numeric(), "  42 "), 42);
+      assert.strictEqual(v.parse(vfd.numeric(), "1e3"), 1000);
+      assert.throws(() => v.parse(vfd.numeric(), "0x10"), v.ValiError);
+      assert.throws(() => v.parse(vfd.numeric(), "Infinity"), v.ValiError);
+      assert.throws(() => v.parse(vfd.numeric(), "1,234.5"), v.ValiError);
+      assert.throws(() => v.parse(vfd.numeric(), "1e400"), v.ValiError);
+      const result = v.safeParse(vfd.numeric(), "abc");
+      assert.strictEqual(
+        result.issues?.[0].message,
+        'Invalid number: Expected number but received "abc"',
+      );
+    });
+
+    test("should parse numbers in the format of a locale", () => {
+      const germanNumber = vfd.numeric(undefined, { locale: "de-DE" });
+      assert.strictEqual(v.parse(germanNumber, "1.234,5"), 1234.5);
+      assert.strictEqual(v.parse(germanNumber, "-0,5"), -0.5);
+      assert.throws(() => v.parse(germanNumber, "1.5"), v.ValiError);
+      assert.strictEqual(v.parse(vfd.numeric(undefined, { locale: "en-US" }), "1,234.5"), 1234.5);
+    });
+
+    test("should reject exponents when allowExponent is false", () => {
+      const noExponent = vfd.numeric(undefined, { allowExponent: false });
+      assert.strictEqual(v.parse(noExponent, "1000"), 1000);
+      assert.throws(() => v.parse(noExponent, "1e3"), v.ValiError);
+    });
+
+    test("should require safe integers with the integer option", () => {
+      const integer = vfd.numeric(v.optional(v.number()), { integer: true });
+      assert.strictEqual(v.parse(integer, "42"), 42);
+      assert.strictEqual(v.parse(integer, "4.0"), 4);
+      assert.strictEqual(v.parse(integer, ""), undefined);
+      assert.strictEqual(
+        v.safeParse(integer, "1.5").issues?.[0].message,
+        'Invalid integer: Expected integer but received "1.5"',
+      );
+      assert.strictEqual(
+        v.safeParse(integer, "9007199254740993").issues?.[0].message,
+        'Invalid integer: Expected safe integer but received "9007199254740993"',
+      );
+    });
+  });
+
+  describe("bigintField()", () => {
+    test("should parse integers without losing precision", () => {
+      assert.strictEqual(v.parse(vfd.bigintField(), "9007199254740993"), 9007199254740993n);
+      assert.strictEqual(v.parse(vfd.bigintField(), "-12"), -12n);
+      assert.strictEqual(v.parse(vfd.bigintField(), "1.2e1"), 12n);
+      assert.strictEqual(
+        v.parse(vfd.bigintField(undefined, { locale: "de-DE" }), "9.007.199.254.740.993"),
+        9007199254740993n,
+      );
+    });
+
+    test("should reject decimals", () => {
+      const result = v.safeParse(vfd.bigintField(), "1.5");
+      assert.strictEqual(
+        result.issues?.[0].message,
+        'Invalid integer: Expected integer but received "1.5"',
+      );
+    });
+
+    test("should treat empty strings as undefined", () => {
+      assert.throws(() => v.parse(vfd.bigintField(), ""), v.ValiError);
+      assert.strictEqual(v.parse(vfd.bigintField(v.optional(v.bigint())), ""), undefined);
+    });
+
+    test("should work with custom validation", () => {
+      const positive = vfd.bigintField(v.pipe(v.bigint(), v.minValue(1n)));
+      assert.strictEqual(v.parse(positive, "1"), 1n);
+      assert.throws(() => v.parse(positive, "0"), v.ValiError);
+    });
+  });
+
+  describe("decimalField()", () => {
+    test("should parse exact decimal strings", () => {
+      assert.strictEqual(v.parse(vfd.decimalField(), "0.10"), "0.10");
+      assert.strictEqual(v.parse(vfd.decimalField(), "-0012.5"), "-12.5");
+      assert.strictEqual(
+        v.parse(vfd.decimalField(), "12345678901234567890.123456789"),
+        "12345678901234567890.123456789",
+      );
+      assert.strictEqual(v.parse(vfd.decimalField(), "1.5e-2"), "0.015");
+      assert.strictEqual(
+        v.parse(vfd.decimalField(undefined, { locale: "de-DE" }), "1.234,50"),
+        "1234.50",
+      );
+      assert.throws(() => v.parse(vfd.decimalField(), "1/2"), v.ValiError);
+    });
+
+    test("should limit the number of decimal places", () => {
+      const price = vfd.decimalField(undefined, { scale: 2 });
+      assert.strictEqual(v.parse(price, "19.99"), "19.99");
+      assert.strictEqual(
+        v.safeParse(price, "19.999").issues?.[0].message,
+        'Invalid decimal: Expected at most 2 decimal places but received "19.999"',
+      );
+    });
+
+    test("should treat empty strings as undefined", () => {
+      assert.throws(() => v.parse(vfd.decimalField(), ""), v.ValiError);
+      assert.strictEqual(v.parse(vfd.decimalField(v.optional(v.string())), ""), undefined);
+    });
   });
 
   describe("checkbox()", () => {
@@ -88,6 +193,65 @@ describe("Form Data Schema Validators", () => {
       assert.throws(() => v.parse(customCheckbox, "on"), v.ValiError);
       assert.throws(() => v.parse(customCheckbox, "no"), v.ValiError);
     });
+
+    test("should accept an explicit falseValue", () => {
+      const offCheckbox = vfd.checkbox({ falseValue: "off" });
+      assert.strictEqual(v.parse(offCheckbox, "on"), true);
+      assert.strictEqual(v.parse(offCheckbox, "off"), false);
+      assert.strictEqual(v.parse(offCheckbox, undefined), false);
+      assert.throws(() => v.parse(offCheckbox, "false"), v.ValiError);
+      assert.throws(() => v.parse(offCheckbox, ["off", "on"]), v.ValiError);
+    });
+
+    test("should resolve the hidden input pattern", () => {
+      const hiddenCheckbox = vfd.checkbox({ hiddenFallback: true });
+      assert.strictEqual(v.parse(hiddenCheckbox, ["false", "on"]), true);
+      assert.strictEqual(v.parse(hiddenCheckbox, "false"), false);
+      assert.strictEqual(v.parse(hiddenCheckbox, "on"), true);
+      assert.strictEqual(v.parse(hiddenCheckbox, undefined), false);
+      assert.throws(() => v.parse(hiddenCheckbox, ["false", "yes"]), v.ValiError);
+
+      const customCheckbox = vfd.checkbox({
+        trueValue: "1",
+        falseValue: "0",
+        hiddenFallback: true,
+      });
+      assert.strictEqual(v.parse(customCheckbox, ["0", "1"]), true);
+      assert.strictEqual(v.parse(customCheckbox, "0"), false);
+    });
+
+    test("should tell missing values apart from unchecked checkboxes in tristate mode", () => {
+      const tristateCheckbox = vfd.checkbox({ tristate: true });
+      assert.strictEqual(v.parse(tristateCheckbox, "on"), true);
+      assert.strictEqual(v.parse(tristateCheckbox, "false"), false);
+      assert.strictEqual(v.parse(tristateCheckbox, undefined), undefined);
+
+      const hiddenTristate = vfd.checkbox({
+        tristate: true,
+        hiddenFallback: true,
+        falseValue: "off",
+      });
+      assert.strictEqual(v.parse(hiddenTristate, ["off", "on"]), true);
+      assert.strictEqual(v.parse(hiddenTristate, "off"), false);
+      assert.strictEqual(v.parse(hiddenTristate, undefined), undefined);
+    });
+
+    test("should resolve hidden inputs in forms", () => {
+      const schema = vfd.formData({
+        terms: vfd.checkbox({ hiddenFallback: true }),
+        newsletter: vfd.checkbox({ hiddenFallback: true }),
+        notifications: vfd.checkbox({ tristate: true }),
+      });
+      const formData = new FormData();
+      formData.append("terms", "false");
+      formData.append("terms", "on");
+      formData.append("newsletter", "false");
+      assert.deepStrictEqual(v.parse(schema, formData), {
+        terms: true,
+        newsletter: false,
+        notifications: undefined,
+      });
+    });
   });
 
   describe("file()", () => {
@@ -258,6 +422,156 @@ describe("FormData Integration", () => {
     });
   });
 
+  describe("empty bracket support", () => {
+    test("should parse empty brackets as arrays", () => {
+      const formData = new URLSearchParams([
+        ["hobbies[]", "reading"],
+        ["hobbies[]", "traveling"],
+      ]);
+      const result = v.parse(vfd.formData({ hobbies: vfd.repeatable() }), formData);
+      assert.deepStrictEqual(result, { hobbies: ["reading", "traveling"] });
+    });
+
+    test("should parse a single value with empty brackets as an array", () => {
+      const formData = new URLSearchParams([["hobbies[]", "reading"]]);
+      const result = v.parse(vfd.formData({ hobbies: v.array(vfd.text()) }), formData);
+      assert.deepStrictEqual(result, { hobbies: ["reading"] });
+    });
+
+    test("should parse missing arrays as empty arrays unless they are optional", () => {
+      const schema = vfd.formData({
+        hobbies: v.array(vfd.text()),
+        tags: v.optional(v.array(vfd.text())),
+      });
+      assert.deepStrictEqual(v.parse(schema, new URLSearchParams()), {
+        hobbies: [],
+        tags: undefined,
+      });
+    });
+
+    test("should group consecutive fields into array items", () => {
+      const formData = new URLSearchParams([
+        ["items[][title]", "Pen"],
+        ["items[][qty]", "2"],
+        ["items[][title]", "Ink"],
+        ["items[][qty]", "5"],
+      ]);
+      const result = v.parse(
+        vfd.formData({
+          items: v.array(v.object({ title: vfd.text(), qty: vfd.numeric() })),
+        }),
+        formData,
+      );
+      assert.deepStrictEqual(result, {
+        items: [
+          { title: "Pen", qty: 2 },
+          { title: "Ink", qty: 5 },
+        ],
+      });
+    });
+
+    test("should keep the submission order of appended and indexed fields", () => {
+      const formData = new URLSearchParams([
+        ["tags[]", "a"],
+        ["tags[1]", "b"],
+        ["tags[]", "c"],
+      ]);
+      assert.deepStrictEqual(v.parse(vfd.formData({ tags: vfd.repeatable() }), formData), {
+        tags: ["a", "b", "c"],
+      });
+    });
+
+    test("should report issues of appended fields on their array item", () => {
+      const schema = vfd.formData(
+        { items: v.array(v.object({ title: vfd.text(), qty: vfd.numeric() })) },
+        { unknownKeys: "error" },
+      );
+      const getIssues = (entries: Array<[string, string]>) => {
+        const result = v.safeParse(schema, new URLSearchParams(entries));
+        assert.ok(!result.success);
+        return result.issues.map((issue) => [v.getDotPath(issue), issue.message]);
+      };
+
+      assert.deepStrictEqual(
+        getIssues([
+          ["items[][title]", "Pen"],
+          ["items[][qty]", "2"],
+          ["items[][title]", "Ink"],
+          ["items[][qty]", "abc"],
+        ]),
+        [["items.1.qty", 'Invalid number: Expected number but received "abc"']],
+      );
+      assert.deepStrictEqual(
+        getIssues([
+          ["items[][title]", "Pen"],
+          ["items[][title]", "Ink"],
+          ["items[][price]", "3"],
+        ]),
+        [["items.1.price", 'Unknown field: "items[][price]" is not part of the schema']],
+      );
+    });
+
+    test("should report conflicts with empty brackets as issues", () => {
+      const formData = new URLSearchParams([
+        ["tags", "a"],
+        ["tags[]", "b"],
+      ]);
+      const result = v.safeParse(vfd.formData({ tags: vfd.repeatable() }), formData);
+      assert.ok(!result.success);
+      assert.strictEqual(result.issues.length, 1);
+    });
+  });
+
+  describe("escaped and literal keys", () => {
+    test("should parse keys containing dots", () => {
+      const formData = new URLSearchParams([
+        ['["user.email"]', "john@example.com"],
+        ["settings.theme\\.dark", "on"],
+      ]);
+      const result = v.parse(
+        vfd.formData({
+          "user.email": vfd.text(),
+          settings: v.object({ "theme.dark": vfd.checkbox() }),
+        }),
+        formData,
+      );
+      assert.deepStrictEqual(result, {
+        "user.email": "john@example.com",
+        settings: { "theme.dark": true },
+      });
+    });
+
+    test("should back-fill shape keys containing dots literally", () => {
+      const formData = new URLSearchParams();
+      const result = v.parse(
+        vfd.formData({ "user.email": vfd.text(v.optional(v.string())) }),
+        formData,
+      );
+      assert.deepStrictEqual(result, { "user.email": undefined });
+    });
+
+    test("should keep numeric keys as strings when configured", () => {
+      const formData = new URLSearchParams([
+        ["prices[1001]", "10"],
+        ["prices[2002]", "20"],
+      ]);
+      const schema = vfd.formData(
+        { prices: v.record(v.string(), vfd.numeric()) },
+        { numericKeys: "string" },
+      );
+      assert.deepStrictEqual(v.parse(schema, formData), { prices: { "1001": 10, "2002": 20 } });
+    });
+
+    test("should not apply the array index limit to string numeric keys", () => {
+      const formData = new URLSearchParams([["prices[999999999]", "10"]]);
+      const schema = vfd.formData(
+        { prices: v.record(v.string(), vfd.numeric()) },
+        { numericKeys: "string" },
+      );
+      assert.deepStrictEqual(v.parse(schema, formData), { prices: { "999999999": 10 } });
+    });
+  });
+
   describe("missing field handling", () => {
     describe("text fields", () => {
       test("required should throw when missing", () => {
@@ -346,6 +660,330 @@ describe("FormData Integration", () => {
         assert.deepStrictEqual(result, { repeatableNumbers: [] });
       });
     });
+
+    describe("nested fields", () => {
+      test("should materialize missing nested objects", () => {
+        const schema = vfd.formData({
+          address: v.object({
+            newsletter: vfd.checkbox(),
+            tags: vfd.repeatable(),
+            geo: v.object({ verified: vfd.checkbox() }),
+          }),
+        });
+        const result = v.parse(schema, new URLSearchParams());
+        assert.deepStrictEqual(result, {
+          address: { newsletter: false, tags: [], geo: { verified: false } },
+        });
+      });
+
+      test("should fill missing keys of partially submitted objects", () => {
+        const schema = vfd.formData({
+          address: v.object({ city: vfd.text(), newsletter: vfd.checkbox() }),
+        });
+        const formData = new URLSearchParams([["address.city", "NYC"]]);
+        assert.deepStrictEqual(v.parse(schema, formData), {
+          address: { city: "NYC", newsletter: false },
+        });
+      });
+
+      test("should report missing nested fields on the field", () => {
+        const schema = vfd.formData({ address: v.object({ city: vfd.text() }) });
+        const result = v.safeParse(schema, new URLSearchParams());
+        assert.ok(!result.success);
+        assert.deepStrictEqual(
+          result.issues.map((issue) => v.getDotPath(issue)),
+          ["address.city"],
+        );
+      });
+
+      test("should keep missing optional objects undefined", () => {
+        const schema = vfd.formData({
+          address: v.optional(v.object({ newsletter: vfd.checkbox() })),
+        });
+        assert.deepStrictEqual(v.parse(schema, new URLSearchParams()), { address: undefined });
+        const formData = new URLSearchParams([["address.other", "x"]]);
+        assert.deepStrictEqual(v.parse(schema, formData), { address: { newsletter: false } });
+      });
+
+      test("should fill items of arrays of objects", () => {
+        const schema = vfd.formData({
+          items: v.array(v.object({ title: vfd.text(), done: vfd.checkbox() })),
+        });
+        const formData = new URLSearchParams([
+          ["items[0].title", "A"],
+          ["items[1].title", "B"],
+          ["items[1].done", "on"],
+        ]);
+        assert.deepStrictEqual(v.parse(schema, formData), {
+          items: [
+            { title: "A", done: false },
+            { title: "B", done: true },
+          ],
+        });
+      });
+
+      test("should fill tuples", () => {
+        const schema = vfd.formData({ flags: v.tuple([vfd.checkbox(), vfd.checkbox()]) });
+        const formData = new URLSearchParams([["flags[1]", "on"]]);
+        assert.deepStrictEqual(v.parse(schema, formData), { flags: [false, true] });
+      });
+
+      test("should fill the matching option of variants and unions", () => {
+        const schema = vfd.formData({
+          contact: v.variant("type", [
+            v.object({ type: v.literal("email"), email: vfd.text(), verified: vfd.checkbox() }),
+            v.object({ type: v.literal("phone"), phone: vfd.text(), sms: vfd.checkbox() }),
+          ]),
+          settings: v.union([
+            v.object({ theme: vfd.text(), compact: vfd.checkbox() }),
+            v.object({ locale: vfd.text(), tags: vfd.repeatable() }),
+          ]),
+        });
+        const formData = new URLSearchParams([
+          ["contact.type", "phone"],
+          ["contact.phone", "123"],
+          ["settings.locale", "en"],
+        ]);
+        assert.deepStrictEqual(v.parse(schema, formData), {
+          contact: { type: "phone", phone: "123", sms: false },
+          settings: { locale: "en", tags: [] },
+        });
+      });
+    });
+  });
+
+  describe("duplicate fields", () => {
+    const schema = vfd.formData({
+      name: vfd.text(),
+      tags: vfd.repeatable(),
+      ids: v.array(v.string()),
+      terms: vfd.checkbox({ hiddenFallback: true }),
+      items: v.array(v.object({ title: vfd.text(), labels: vfd.repeatable() })),
+    });
+
+    test("should report an issue for fields accepting a single value", () => {
+      const formData = new URLSearchParams([
+        ["name", "a"],
+        ["name", "b"],
+        ["items[0].title", "Pen"],
+        ["items[0].title", "Ink"],
+      ]);
+      const result = v.safeParse(schema, formData);
+      assert.ok(!result.success);
+      assert.deepStrictEqual(
+        result.issues.map((issue) => [v.getDotPath(issue), issue.message]),
+        [
+          ["name", "Duplicate field: Expected a single value but received 2 values"],
+          ["items.0.title", "Duplicate field: Expected a single value but received 2 values"],
+        ],
+      );
+    });
+
+    test("should group the values of fields accepting multiple values", () => {
+      const formData = new URLSearchParams([
+        ["name", "a"],
+        ["tags", "x"],
+        ["tags", "y"],
+        ["ids", "1"],
+        ["ids", "2"],
+        ["terms", "false"],
+        ["terms", "on"],
+        ["items[0].title", "Pen"],
+        ["items[0].labels", "red"],
+        ["items[0].labels", "blue"],
+      ]);
+      assert.deepStrictEqual(v.parse(schema, formData), {
+        name: "a",
+        tags: ["x", "y"],
+        ids: ["1", "2"],
+        terms: true,
+        items: [{ title: "Pen", labels: ["red", "blue"] }],
+      });
+    });
+
+    test("should apply the duplicates option to fields accepting a single value", () => {
+      const formData = new URLSearchParams([
+        ["name", "a"],
+        ["name", "b"],
+        ["tags", "x"],
+        ["tags", "y"],
+      ]);
+      const shape = { name: vfd.text(), tags: vfd.repeatable() };
+      assert.deepStrictEqual(v.parse(vfd.formData(shape, { duplicates: "first" }), formData), {
+        name: "a",
+        tags: ["x", "y"],
+      });
+      assert.deepStrictEqual(v.parse(vfd.formData(shape, { duplicates: "last" }), formData), {
+        name: "b",
+        tags: ["x", "y"],
+      });
+      const arraySchema = vfd.formData({ name: vfd.text() }, { duplicates: "array" });
+      const result = v.safeParse(arraySchema, formData);
+      assert.ok(!result.success);
+      assert.match(result.issues[0].message, /^Invalid type/);
+    });
+
+    test("should apply the duplicates option of individual fields in any notation", () => {
+      const formData = new URLSearchParams([
+        ["name", "a"],
+        ["name", "b"],
+        ["items[0][title]", "Pen"],
+        ["items[0][title]", "Ink"],
+        ["tags", "x"],
+        ["tags", "y"],
+      ]);
+      const duplicatesSchema = vfd.formData(
+        {
+          name: vfd.text(),
+          items: v.array(v.object({ title: vfd.text() })),
+          tags: vfd.repeatable(),
+        },
+        { duplicates: { name: "last", "items.0.title": "first", tags: "error" } },
+      );
+      const result = v.safeParse(duplicatesSchema, formData);
+      assert.ok(!result.success);
+      assert.deepStrictEqual(
+        result.issues.map((issue) => v.getDotPath(issue)),
+        ["tags"],
+      );
+
+      formData.delete("tags");
+      assert.deepStrictEqual(v.parse(duplicatesSchema, formData), {
+        name: "b",
+        items: [{ title: "Pen" }],
+        tags: [],
+      });
+    });
+
+    test("should group every spelling of a field name", () => {
+      const shape = { role: vfd.text(), u: v.object({ role: vfd.text() }), tags: vfd.repeatable() };
+      const formData = new URLSearchParams([
+        ["u.role", "user"],
+        ["u[role]", "admin"],
+        ["role", "user"],
+        ["[role]", "admin"],
+        ["tags", "a"],
+        ["[tags]", "b"],
+      ]);
+      const result = v.safeParse(vfd.formData(shape), formData);
+      assert.ok(!result.success);
+      assert.deepStrictEqual(
+        result.issues.map((issue) => v.getDotPath(issue)),
+        ["u.role", "role"],
+      );
+      assert.deepStrictEqual(v.parse(vfd.formData(shape, { duplicates: "first" }), formData), {
+        role: "user",
+        u: { role: "user" },
+        tags: ["a", "b"],
+      });
+    });
+  });
+
+  describe("unknown fields", () => {
+    const shape = {
+      name: vfd.text(),
+      address: v.object({ street: vfd.text() }),
+      items: v.array(v.object({ title: vfd.text() })),
+      tags: vfd.repeatable(),
+      meta: v.looseObject({}),
+    };
+    const formData = new URLSearchParams([
+      ["name", "Ada"],
+      ["role", "admin"],
+      ["address.street", "Main St"],
+      ["address[country]", "NZ"],
+      ["items[0].title", "Pen"],
+      ["items[0].price", "0"],
+      ["tags", "a"],
+      ["meta.source", "ad"],
+    ]);
+
+    test("should strip unknown fields by default", () => {
+      assert.deepStrictEqual(v.parse(vfd.formData(shape), formData), {
+        name: "Ada",
+        address: { street: "Main St" },
+        items: [{ title: "Pen" }],
+        tags: ["a"],
+        meta: { source: "ad" },
+      });
+    });
+
+    test("should report unknown fields by their submitted name", () => {
+      const result = v.safeParse(vfd.formData(shape, { unknownKeys: "error" }), formData);
+      assert.ok(!result.success);
+      assert.deepStrictEqual(
+        result.issues.map((issue) => [v.getDotPath(issue), issue.message]),
+        [
+          ["role", 'Unknown field: "role" is not part of the schema'],
+          ["address.country", 'Unknown field: "address[country]" is not part of the schema'],
+          ["items.0.price", 'Unknown field: "items[0].price" is not part of the schema'],
+        ],
+      );
+    });
+
+    test("should accept the fields of every option of unions", () => {
+      const schema = vfd.formData(
+        {
+          contact: v.variant("type", [
+            v.object({ type: v.literal("email"), email: vfd.text() }),
+            v.object({ type: v.literal("phone"), phone: vfd.text() }),
+          ]),
+        },
+        { unknownKeys: "error" },
+      );
+      const contact = new URLSearchParams([
+        ["contact.type", "phone"],
+        ["contact.phone", "123"],
+      ]);
+      assert.deepStrictEqual(v.parse(schema, contact), {
+        contact: { type: "phone", phone: "123" },
+      });
+      contact.append("contact.fax", "456");
+      assert.strictEqual(
+        v.safeParse(schema, contact).issues?.[0].message,
+        'Unknown field: "contact.fax" is not part of the schema',
+      );
+    });
+
+    test("should keep unknown fields at any depth with passthrough", () => {
+      assert.deepStrictEqual(
+        v.parse(vfd.formData(shape, { unknownKeys: "passthrough" }), formData),
+        {
+          name: "Ada",
+          role: "admin",
+          address: { street: "Main St", country: "NZ" },
+          items: [{ title: "Pen", price: "0" }],
+          tags: ["a"],
+          meta: { source: "ad" },
+        },
+      );
+    });
+
+    test("should report issues of known fields with passthrough", () => {
+      const schema = vfd.formData(
+        { address: v.object({ zip: vfd.numeric() }) },
+        { unknownKeys: "passthrough" },
+      );
+      const result = v.safeParse(
+        schema,
+        new URLSearchParams([
+          ["address.zip", "abc"],
+          ["role", "admin"],
+        ]),
+      );
+      assert.strictEqual(result.success, false);
+      assert.strictEqual(v.getDotPath(result.issues[0]), "address.zip");
+      assert.strictEqual(
+        result.issues[0].message,
+        v.safeParse(vfd.numeric(), "abc").issues?.[0].message,
+      );
+    });
+
+    test("should keep unknown fields with passthrough in async schemas", async () => {
+      const schema = vfd.formDataAsync(shape, { unknownKeys: "passthrough" });
+      const result = await v.parseAsync(schema, formData);
+      assert.strictEqual((result as Record<string, unknown>).role, "admin");
+    });
   });
 
   describe("complex scenarios", () => {
@@ -378,4 +1016,270 @@ describe("FormData Integration", () => {
       });
     });
   });
+
+  describe("hardening", () => {
+    function getIssues(schema: v.GenericSchema, input: unknown) {
+      const result = v.safeParse(schema, input);
+      assert.ok(!result.success);
+      return result.issues.map((issue) => ({
+        message: issue.message,
+        path: v.getDotPath(issue),
+      }));
+    }
+
+    test("should reject prototype pollution attempts as issues", () => {
+      const formData = new URLSearchParams([
+        ["name", "John"],
+        ["__proto__.polluted", "yes"],
+        ["address.constructor.prototype.polluted", "yes"],
+      ]);
+      const issues = getIssues(vfd.formData({ name: vfd.text() }), formData);
+      assert.deepStrictEqual(issues, [
+        {
+          message: 'Invalid field name: Segment "__proto__" is not allowed',
+          path: "__proto__.polluted",
+        },
+        {
+          message: 'Invalid field name: Segment "constructor" is not allowed',
+          path: "address.constructor.prototype.polluted",
+        },
+      ]);
+      assert.strictEqual(({} as Record<string, unknown>).polluted, undefined);
+    });
+
+    test("should build nested objects without prototype", () => {
+      const formData = new URLSearchParams([["address.street", "Main St"]]);
+      const result = v.parse(
+        vfd.formData({ address: v.looseObject({ street: vfd.text() }) }),
+        formData,
+      );
+      assert.deepStrictEqual(result, { address: { street: "Main St" } });
+    });
+
+    test("should report conflicting field names as issues", () => {
+      const formData = new URLSearchParams([
+        ["user", "John"],
+        ["user.name", "John"],
+      ]);
+      const issues = getIssues(vfd.formData({ user: vfd.text() }), formData);
+      assert.strictEqual(issues.length, 1);
+      assert.strictEqual(issues[0]?.path, "user.name");
+    });
+
+    test("should limit the array index", () => {
+      const formData = new URLSearchParams([["items[999999999]", "value"]]);
+      const issues = getIssues(vfd.formData({ items: v.array(vfd.text()) }), formData);
+      assert.deepStrictEqual(issues, [
+        {
+          message: "Invalid array index: Expected at most 1000 but received 999999999",
+          path: "items.999999999",
+        },
+      ]);
+      const custom = vfd.formData({ items: v.array(vfd.text()) }, { maxArrayIndex: 1 });
+      assert.throws(() => v.parse(custom, new URLSearchParams([["items[2]", "a"]])), v.ValiError);
+    });
+
+    test("should limit the array index of appended values", () => {
+      const schema = vfd.formData({ items: v.array(vfd.text()) }, { maxArrayIndex: 1 });
+      const formData = new URLSearchParams([
+        ["items[]", "a"],
+        ["items[]", "b"],
+      ]);
+      assert.deepStrictEqual(v.parse(schema, formData), { items: ["a", "b"] });
+      formData.append("items[]", "c");
+      formData.append("items[]", "d");
+      assert.deepStrictEqual(getIssues(schema, formData), [
+        { message: "Invalid array index: Expected at most 1 but received 2", path: "items.2" },
+      ]);
+    });
+
+    test("should limit the path depth", () => {
+      const schema = vfd.formData({ a: v.object({ b: v.unknown() }) }, { maxDepth: 2 });
+      assert.deepStrictEqual(v.parse(schema, new URLSearchParams([["a.b", "ok"]])), {
+        a: { b: "ok" },
+      });
+      const issues = getIssues(schema, new URLSearchParams([["a.b.c", "too deep"]]));
+      assert.deepStrictEqual(issues, [
+        {
+          message: "Invalid field name: Expected at most 2 segments but received 3",
+          path: "a.b.c",
+        },
+      ]);
+    });
+
+    test("should limit the number of entries", () => {
+      const schema = vfd.formData({ tags: vfd.repeatable() }, { maxEntries: 2 });
+      assert.deepStrictEqual(
+        v.parse(
+          schema,
+          new URLSearchParams([
+            ["tags", "a"],
+            ["tags", "b"],
+          ]),
+        ),
+        { tags: ["a", "b"] },
+      );
+      const issues = getIssues(
+        schema,
+        new URLSearchParams([
+          ["tags", "a"],
+          ["tags", "b"],
+          ["tags", "c"],
+        ]),
+      );
+      assert.deepStrictEqual(issues, [
+        { message: "Too many entries: Expected at most 2", path: null },
+      ]);
+    });
+
+    test("should limit the number of distinct keys", () => {
+      const schema = vfd.formData({ a: vfd.text() }, { maxKeys: 1 });
+      const issues = getIssues(
+        schema,
+        new URLSearchParams([
+          ["a", "1"],
+          ["b", "2"],
+        ]),
+      );
+      assert.deepStrictEqual(issues, [
+        { message: "Too many fields: Expected at most 1 but received 2", path: null },
+      ]);
+    });
+
+    test("should limit the total string size in bytes", () => {
+      const schema = vfd.formData({ name: vfd.text() }, { maxBytes: 10 });
+      assert.deepStrictEqual(v.parse(schema, new URLSearchParams([["name", "ab"]])), {
+        name: "ab",
+      });
+      const issues = getIssues(schema, new URLSearchParams([["name", "€€€"]]));
+      assert.deepStrictEqual(issues, [
+        { message: "Too large: Expected at most 10 bytes but received 13", path: null },
+      ]);
+    });
+
+    test("should allow disabling limits", () => {
+      const schema = vfd.formData({ items: v.array(vfd.text()) }, { maxArrayIndex: Infinity });
+      const result = v.parse(schema, new URLSearchParams([["items[0]", "a"]]));
+      assert.deepStrictEqual(result, { items: ["a"] });
+    });
+  });
+
+  describe("formDataPatch()", () => {
+    const schema = vfd.formDataPatch({
+      name: vfd.text(),
+      bio: vfd.text(v.optional(v.string())),
+      age: vfd.numeric(v.optional(v.number())),
+      newsletter: vfd.checkbox(),
+      tags: vfd.repeatable(),
+      address: v.object({ street: vfd.text(), city: vfd.text() }),
+    });
+
+    test("should only return submitted fields", () => {
+      assert.deepStrictEqual(v.parse(schema, new URLSearchParams("name=Ada")), { name: "Ada" });
+      assert.deepStrictEqual(v.parse(schema, new URLSearchParams()), {});
+    });
+
+    test("should return null for cleared fields", () => {
+      assert.deepStrictEqual(v.parse(schema, new URLSearchParams("bio=&age=")), {
+        bio: null,
+        age: null,
+      });
+    });
+
+    test("should still validate submitted required fields", () => {
+      const result = v.safeParse(schema, new URLSearchParams("name="));
+      assert.ok(!result.success);
+      assert.deepStrictEqual(
+        result.issues.map((issue) => v.getDotPath(issue)),
+        ["name"],
+      );
+    });
+
+    test("should only apply checkbox() and repeatable() defaults to submitted fields", () => {
+      assert.deepStrictEqual(
+        v.parse(
+          schema,
+          new URLSearchParams([
+            ["newsletter", "on"],
+            ["tags[]", "a"],
+          ]),
+        ),
+        { newsletter: true, tags: ["a"] },
+      );
+      assert.deepStrictEqual(v.parse(schema, new URLSearchParams("name=Ada")), { name: "Ada" });
+    });
+
+    test("should parse nested objects partially", () => {
+      assert.deepStrictEqual(v.parse(schema, new URLSearchParams("address.city=Paris")), {
+        address: { city: "Paris" },
+      });
+    });
+
+    test("should parse nested objects with a pipe as a whole", () => {
+      const piped = vfd.formDataPatch({
+        range: v.pipe(
+          v.object({ from: vfd.numeric(), to: vfd.numeric() }),
+          v.check(({ from, to }) => from <= to, "Invalid range"),
+        ),
+      });
+      assert.deepStrictEqual(v.parse(piped, new URLSearchParams("range.from=1&range.to=2")), {
+        range: { from: 1, to: 2 },
+      });
+      assert.ok(!v.safeParse(piped, new URLSearchParams("range.from=1")).success);
+    });
+
+    test("should accept the formData() options", () => {
+      const strict = vfd.formDataPatch({ name: vfd.text() }, { unknownKeys: "error" });
+      assert.ok(!v.safeParse(strict, new URLSearchParams("role=admin")).success);
+    });
+  });
+
+  describe("formDataAsync()", () => {
+    test("should parse like formData()", async () => {
+      const schema = vfd.formDataAsync({
+        name: vfd.text(),
+        address: v.object({ city: vfd.text() }),
+        tags: vfd.repeatable(),
+      });
+      const result = await v.parseAsync(
+        schema,
+        new URLSearchParams([
+          ["name", "John"],
+          ["address.city", "NYC"],
+          ["tags[]", "a"],
+        ]),
+      );
+      assert.deepStrictEqual(result, { name: "John", address: { city: "NYC" }, tags: ["a"] });
+    });
+
+    test("should run async schemas of the shape", async () => {
+      const schema = vfd.formDataAsync({
+        username: v.pipeAsync(
+          vfd.text(),
+          v.checkAsync(async (username) => username !== "taken", "Username is taken"),
+        ),
+      });
+      const result = await v.safeParseAsync(schema, new URLSearchParams([["username", "taken"]]));
+      assert.strictEqual(result.success, false);
+      assert.deepStrictEqual(
+        result.issues?.map((issue) => [issue.message, v.getDotPath(issue)]),
+        [["Username is taken", "username"]],
+      );
+    });
+
+    test("should apply the same limits", async () => {
+      const schema = vfd.formDataAsync({ name: vfd.text() }, { maxEntries: 1 });
+      const result = await v.safeParseAsync(
+        schema,
+        new URLSearchParams([
+          ["name", "a"],
+          ["name", "b"],
+        ]),
+      );
+      assert.deepStrictEqual(
+        result.issues?.map((issue) => issue.message),
+        ["Too many entries: Expected at most 1"],
+      );
+    });
+  });
 });
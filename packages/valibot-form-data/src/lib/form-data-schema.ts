@@ -1,5 +1,23 @@
 import * as v from "valibot";
-import { setPath } from "./set-path.ts";
+import {
+  defineFieldKind,
+  defineFormRoot,
+  getFieldKind,
+  getNestedSchema,
+  unwrapSchema,
+} from "./field-kind.ts";
+import { fillMissingValues, fillSubmittedKeys, getPartialEntries } from "./missing-keys.ts";
+import { parseNumberString } from "./number-format.ts";
+import { isUnsafePathSegment, resolvePath, setPath } from "./set-path.ts";
+import { APPEND_SEGMENT, stringToPathArray } from "./string-to-path-array.ts";
+import {
+  isUnknownField,
+  passthroughUnknownKeys,
+  passthroughUnknownKeysAsync,
+} from "./unknown-keys.ts";
+import type { WrapperType } from "./field-kind.ts";
+import type { NumberFormatOptions } from "./number-format.ts";
+import type { NumericKeys, PathSegment } from "./string-to-path-array.ts";
 
 /**
  * Internal helper that transforms empty strings to undefined.
@@ -8,7 +26,7 @@ import { setPath } from "./set-path.ts";
  * @param message - Optional error message for validation failure
  * @returns Valibot schema that converts "" to undefined or passes through non-empty strings
  */
-function emptyToUndefined(message?: v.ErrorMessage<v.BaseIssue<unknown>>) {
+export function emptyToUndefined(message?: v.ErrorMessage<v.BaseIssue<unknown>>) {
   return v.union(
     [
       v.pipe(
@@ -48,36 +66,137 @@ export function text<
     v.BaseIssue<unknown>
   > = v.StringSchema<undefined>,
 >(schema?: TSchema) {
-  return v.pipe(emptyToUndefined(), schema ?? (v.string() as unknown as TSchema));
+  return defineFieldKind(v.pipe(emptyToUndefined(), schema ?? (v.string() as unknown as TSchema)), {
+    type: "text",
+  });
 }
 
 /**
- * Internal helper that coerces string numbers to numbers, handling undefined passthrough.
- * Used after emptyToUndefined() which can produce string | undefined.
+ * Configuration options for numeric().
+ */
+export type NumericOptions = NumberFormatOptions & {
+  /** Requires an integer within the safe integer range. Defaults to false */
+  integer?: boolean;
+};
+
+/**
+ * Configuration options for decimalField().
+ */
+export type DecimalOptions = NumberFormatOptions & {
+  /** Maximum number of decimal places, e.g. 2 for amounts of money */
+  scale?: number;
+};
+
+/**
+ * Type of the value numeric fields are parsed to.
+ */
+type NumericFormat = "number" | "bigint" | "decimal";
+
+/**
+ * Schema of a numeric field, with the value type it is parsed to.
+ */
+type NumericFieldSchema<TValue, TSchema extends v.GenericSchema> = v.SchemaWithPipe<
+  readonly [
+    ReturnType<typeof emptyToUndefined>,
+    v.RawTransformAction<string | undefined, TValue | undefined>,
+    TSchema,
+  ]
+>;
+
+/**
+ * Internal helper that parses submitted numbers without losing precision, handling undefined
+ * passthrough. Used after emptyToUndefined() which can produce string | undefined.
  *
- * @param message - Optional error message for validation failure
- * @returns Valibot schema that transforms string to number or passes through undefined
+ * @param format - Type of the value the number is parsed to
+ * @param options - Locale of the value, exponents, and the integer and scale requirements
+ * @returns Valibot action that transforms the submitted string to a number, bigint or decimal string
  */
-function coerceStringOrUndefinedToNumber(message?: v.ErrorMessage<v.BaseIssue<unknown>>) {
-  return v.union(
-    [
-      v.undefined(),
-      v.pipe(
-        v.string(),
-        v.transform((string) => Number(string)),
-        v.number(),
-      ),
-    ],
-    message,
-  );
+function parseNumeric(format: NumericFormat, options: NumericOptions & DecimalOptions) {
+  const { integer = format === "bigint", scale } = options;
+  const expected = integer ? "integer" : format;
+
+  return v.rawTransform<string | undefined, unknown>(({ dataset, addIssue, NEVER }) => {
+    const input = dataset.value;
+    if (input === undefined) {
+      return undefined;
+    }
+
+    const parsed = parseNumberString(input, options);
+    if (parsed === undefined || (integer && /[1-9]/.test(parsed.fraction))) {
+      addIssue({
+        message: `Invalid ${expected}: Expected ${expected} but received "${input}"`,
+        expected,
+        received: `"${input}"`,
+      });
+      return NEVER;
+    }
+    if (scale !== undefined && parsed.fraction.length > scale) {
+      addIssue({
+        message: `Invalid decimal: Expected at most ${scale} decimal places but received "${input}"`,
+        expected: `<=${scale} decimal places`,
+        received: `"${input}"`,
+      });
+      return NEVER;
+    }
+
+    const sign = parsed.negative ? "-" : "";
+    if (format === "bigint") {
+      return BigInt(`${sign}${parsed.integer}`);
+    }
+    if (format === "decimal") {
+      return parsed.fraction === ""
+        ? `${sign}${parsed.integer}`
+        : `${sign}${parsed.integer}.${parsed.fraction}`;
+    }
+
+    const number = Number(`${sign}${parsed.integer}.${parsed.fraction || "0"}`);
+    // Larger integers can't be represented exactly, use bigintField() for them.
+    if (integer ? !Number.isSafeInteger(number) : !Number.isFinite(number)) {
+      const requirement = integer ? "safe integer" : "finite number";
+      addIssue({
+        message: `Invalid ${expected}: Expected ${requirement} but received "${input}"`,
+        expected: requirement,
+        received: `"${input}"`,
+      });
+      return NEVER;
+    }
+    return number;
+  });
+}
+
+/**
+ * Internal helper that builds the schema of a numeric field: empty strings are transformed to
+ * undefined, the submitted number is parsed, and the provided schema is applied.
+ *
+ * @param format - Type of the value the number is parsed to
+ * @param schema - Schema to validate the parsed value
+ * @param options - Format and requirements of the submitted number
+ * @returns Valibot schema of the field
+ */
+function numericField(
+  format: NumericFormat,
+  schema: v.GenericSchema,
+  options: NumericOptions & DecimalOptions,
+) {
+  return defineFieldKind(v.pipe(emptyToUndefined(), parseNumeric(format, options), schema), {
+    type: "numeric",
+    format,
+    locale: options.locale,
+    integer: options.integer ?? format === "bigint",
+    scale: options.scale,
+  });
 }
 
 /**
- * Schema for numeric input fields that coerces numerical strings to numbers and transforms empty strings to undefined before validation.
+ * Schema for numeric input fields that parses numerical strings to numbers and transforms empty strings to undefined before validation.
  * If you call numeric with no arguments, it assumes the field is a required number by default.
+ * Numbers are accepted in the format of number inputs ("1234.5"), or in the format of the locale
+ * option (e.g. "1.234,5" for "de-DE"). Surrounding whitespace is ignored, while hexadecimal
+ * literals, "Infinity" and misplaced grouping separators are rejected.
  *
- * @param schema - Optional schema to validate the number after coercion and empty string transformation. Defaults to v.number()
- * @returns Valibot schema that converts empty strings to undefined, coerces strings to numbers, then applies the provided schema
+ * @param schema - Optional schema to validate the number after parsing and empty string transformation. Defaults to v.number()
+ * @param options - Locale of the input, whether exponents are accepted and whether an integer is required
+ * @returns Valibot schema that converts empty strings to undefined, parses strings to numbers, then applies the provided schema
  *
  * @example
  * const requiredSchema = numeric(); // same as numeric(v.number())
@@ -91,19 +210,82 @@ function coerceStringOrUndefinedToNumber(message?: v.ErrorMessage<v.BaseIssue<un
  *
  * const minValueSchema = numeric(v.pipe(v.number(), v.minValue(13)));
  * minValueSchema.parse("10");      // → ValidationError
+ *
+ * const germanSchema = numeric(undefined, { locale: "de-DE" });
+ * germanSchema.parse("1.234,5");   // → 1234.5
+ * germanSchema.parse("1.5");       // → ValidationError
+ *
+ * const integerSchema = numeric(undefined, { integer: true, allowExponent: false });
+ * integerSchema.parse("1.5");      // → ValidationError ("Expected integer")
+ * integerSchema.parse("1e3");      // → ValidationError
  */
+export function numeric(
+  schema?: undefined,
+  options?: NumericOptions,
+): NumericFieldSchema<number, v.NumberSchema<undefined>>;
 export function numeric<
-  TSchema extends v.BaseSchema<
-    number | undefined,
-    unknown,
-    v.BaseIssue<unknown>
-  > = v.NumberSchema<undefined>,
->(schema?: TSchema) {
-  return v.pipe(
-    emptyToUndefined(),
-    coerceStringOrUndefinedToNumber(),
-    schema ?? (v.number() as unknown as TSchema),
-  );
+  TSchema extends v.BaseSchema<number | undefined, unknown, v.BaseIssue<unknown>>,
+>(schema: TSchema, options?: NumericOptions): NumericFieldSchema<number, TSchema>;
+export function numeric(schema?: v.GenericSchema, options: NumericOptions = {}) {
+  return numericField("number", schema ?? v.number(), options);
+}
+
+/**
+ * Schema for integer fields that have to be exact beyond Number.MAX_SAFE_INTEGER, e.g. large
+ * IDs. Works like numeric() with the integer option, but parses to a bigint.
+ * If you call bigintField with no arguments, it assumes the field is a required bigint by default.
+ *
+ * @param schema - Optional schema to validate the bigint after parsing. Defaults to v.bigint()
+ * @param options - Locale of the input and whether exponents are accepted
+ * @returns Valibot schema that converts empty strings to undefined, parses strings to bigints, then applies the provided schema
+ *
+ * @example
+ * const id = bigintField();
+ * id.parse("9007199254740993");   // → 9007199254740993n
+ * id.parse("1.5");                // → ValidationError ("Expected integer")
+ *
+ * const positive = bigintField(v.optional(v.pipe(v.bigint(), v.minValue(1n))));
+ * positive.parse("");             // → undefined
+ */
+export function bigintField(
+  schema?: undefined,
+  options?: NumberFormatOptions,
+): NumericFieldSchema<bigint, v.BigintSchema<undefined>>;
+export function bigintField<
+  TSchema extends v.BaseSchema<bigint | undefined, unknown, v.BaseIssue<unknown>>,
+>(schema: TSchema, options?: NumberFormatOptions): NumericFieldSchema<bigint, TSchema>;
+export function bigintField(schema?: v.GenericSchema, options: NumberFormatOptions = {}) {
+  return numericField("bigint", schema ?? v.bigint(), options);
+}
+
+/**
+ * Schema for exact decimal fields, e.g. amounts of money. Works like numeric(), but returns the
+ * number as a normalized decimal string ("-1234.50") instead of a floating point number, so no
+ * precision is lost. Trailing zeros of the decimal places are kept.
+ * If you call decimalField with no arguments, it assumes the field is a required decimal by default.
+ *
+ * @param schema - Optional schema to validate the decimal string after parsing. Defaults to v.string()
+ * @param options - Locale of the input, whether exponents are accepted and the maximum number of decimal places
+ * @returns Valibot schema that converts empty strings to undefined, parses strings to decimal strings, then applies the provided schema
+ *
+ * @example
+ * const price = decimalField(undefined, { scale: 2 });
+ * price.parse("19.90");           // → "19.90"
+ * price.parse("0.1e1");           // → "1"
+ * price.parse("19.999");          // → ValidationError ("Expected at most 2 decimal places")
+ *
+ * const germanPrice = decimalField(v.optional(v.string()), { locale: "de-DE", scale: 2 });
+ * germanPrice.parse("1.234,50");  // → "1234.50"
+ */
+export function decimalField(
+  schema?: undefined,
+  options?: DecimalOptions,
+): NumericFieldSchema<string, v.StringSchema<undefined>>;
+export function decimalField<
+  TSchema extends v.BaseSchema<string | undefined, unknown, v.BaseIssue<unknown>>,
+>(schema: TSchema, options?: DecimalOptions): NumericFieldSchema<string, TSchema>;
+export function decimalField(schema?: v.GenericSchema, options: DecimalOptions = {}) {
+  return numericField("decimal", schema ?? v.string(), options);
 }
 
 /**
@@ -112,12 +294,38 @@ export function numeric<
 type CheckboxArgs = {
   /** The value that represents "checked" state. Defaults to "on" */
   trueValue?: string;
+  /**
+   * The value that represents "unchecked" state, e.g. "off" or "false" sent by a hidden input
+   * or an API client. Defaults to "false" with hiddenFallback or tristate, otherwise unchecked
+   * checkboxes are only represented by a missing value
+   */
+  falseValue?: string;
+  /**
+   * Accepts a hidden input with the falseValue placed before the checkbox, which submits both
+   * values when the checkbox is checked. Defaults to false
+   */
+  hiddenFallback?: boolean;
+  /**
+   * Returns undefined instead of false when the field is not submitted at all, e.g. to tell
+   * "unchanged" from "unchecked" in PATCH forms. Defaults to false
+   */
+  tristate?: boolean;
 };
 
+/**
+ * Schema of a checkbox, with the output type depending on the tristate option.
+ */
+type CheckboxSchema<TOutput> = v.UnionSchema<
+  Array<v.BaseSchema<string | Array<string> | undefined, TOutput, v.BaseIssue<unknown>>>,
+  undefined
+>;
+
 /**
  * Schema for checkbox inputs that converts form values to boolean.
  * Unlike other helpers, this is not a preprocessor, but a complete schema.
- * By default, treats "on" as true and undefined as false, but you can customize the true value.
+ * By default, treats "on" as true and undefined as false, but you can customize the true value,
+ * accept an explicit false value, accept the hidden input pattern, and tell a missing value
+ * apart from an unchecked checkbox.
  *
  * @param args - Configuration options for checkbox validation
  * @returns Valibot schema that converts checkbox values to boolean
@@ -131,19 +339,58 @@ type CheckboxArgs = {
  * customValue.parse("true");          // → true
  * customValue.parse(undefined);       // → false
  * customValue.parse("false");         // → ValidationError
+ *
+ * // <input type="hidden" name="terms" value="false"><input type="checkbox" name="terms">
+ * const withHiddenInput = checkbox({ hiddenFallback: true });
+ * withHiddenInput.parse(["false", "on"]); // → true
+ * withHiddenInput.parse("false");         // → false
+ *
+ * const patchCheckbox = checkbox({ tristate: true });
+ * patchCheckbox.parse("false");       // → false
+ * patchCheckbox.parse(undefined);     // → undefined
  */
+export function checkbox(
+  args: CheckboxArgs & { tristate: true },
+): CheckboxSchema<boolean | undefined>;
+export function checkbox(args?: CheckboxArgs): CheckboxSchema<boolean>;
 export function checkbox(args: CheckboxArgs = {}) {
-  const { trueValue = "on" } = args;
-  return v.union([
+  const { trueValue = "on", hiddenFallback = false, tristate = false } = args;
+  const falseValue = args.falseValue ?? (hiddenFallback || tristate ? "false" : undefined);
+  const options: Array<v.GenericSchema<string | Array<string> | undefined, boolean | undefined>> = [
     v.pipe(
       v.literal(trueValue),
       v.transform(() => true),
     ),
+  ];
+  if (falseValue !== undefined) {
+    options.push(
+      v.pipe(
+        v.literal(falseValue),
+        v.transform(() => false),
+      ),
+    );
+  }
+  if (hiddenFallback && falseValue !== undefined) {
+    // The hidden input and the checked checkbox share the same name, so both values are grouped.
+    options.push(
+      v.pipe(
+        v.array(v.picklist([falseValue, trueValue])),
+        v.transform((values) => values.includes(trueValue)),
+      ),
+    );
+  }
+  options.push(
     v.pipe(
       v.undefined(),
-      v.transform(() => false),
+      v.transform(() => (tristate ? undefined : false)),
     ),
-  ]);
+  );
+  return defineFieldKind(v.union(options), {
+    type: "checkbox",
+    trueValue,
+    falseValue,
+    hiddenFallback,
+  });
 }
 
 /**
@@ -197,7 +444,10 @@ export function file<
     undefined
   >,
 >(schema?: TSchema) {
-  return v.pipe(emptyFileToUndefined(), schema ?? (v.instance(File) as unknown as TSchema));
+  return defineFieldKind(
+    v.pipe(emptyFileToUndefined(), schema ?? (v.instance(File) as unknown as TSchema)),
+    { type: "file" },
+  );
 }
 
 /**
@@ -227,18 +477,22 @@ export function repeatable<
     undefined
   >,
 >(schema?: TSchema) {
-  return v.pipe(
-    v.unknown(),
-    v.transform((value) => {
-      if (Array.isArray(value)) {
-        return value;
-      }
-      if (value === undefined) {
-        return [];
-      }
-      return [value];
-    }),
-    schema ?? (v.array(text()) as unknown as TSchema),
+  const arraySchema = schema ?? (v.array(text()) as unknown as TSchema);
+  return defineFieldKind(
+    v.pipe(
+      v.unknown(),
+      v.transform((value) => {
+        if (Array.isArray(value)) {
+          return value;
+        }
+        if (value === undefined) {
+          return [];
+        }
+        return [value];
+      }),
+      arraySchema,
+    ),
+    { type: "repeatable", schema: arraySchema },
   );
 }
 
@@ -268,7 +522,7 @@ export function repeatableOfType<
  * @param value - Value to check for iterability
  * @returns Type predicate indicating if value is iterable
  */
-function isIterable<T = unknown>(value: unknown): value is Iterable<T> {
+export function isIterable<T = unknown>(value: unknown): value is Iterable<T> {
   return (
     (typeof value === "object" || typeof value === "function") &&
     value !== null &&
@@ -277,6 +531,440 @@ function isIterable<T = unknown>(value: unknown): value is Iterable<T> {
   );
 }
 
+/**
+ * Checks if the shape of a form is a schema rather than object entries. Entries cannot be
+ * mistaken for a schema, as their values are schemas and not strings.
+ *
+ * @param shape - Object entries or schema of a form
+ * @returns Type predicate indicating if shape is a schema
+ */
+function isSchema<TSchema extends Schema>(
+  shape: TSchema | v.ObjectEntries | v.ObjectEntriesAsync,
+): shape is TSchema {
+  return shape.kind === "schema";
+}
+
+/**
+ * How a field name submitted multiple times is handled:
+ * - "array": the values are grouped into an array
+ * - "first": the first value is kept
+ * - "last": the last value is kept
+ * - "error": an issue is reported on the field
+ */
+export type DuplicatesPolicy = "array" | "first" | "last" | "error";
+
+/**
+ * Configuration options for formData().
+ * The limits protect against resource exhaustion from untrusted request bodies,
+ * set a limit to Infinity to disable it.
+ */
+export type FormDataOptions = {
+  /** Maximum number of submitted entries. Defaults to 1000 */
+  maxEntries?: number;
+  /** Maximum number of distinct field names. Defaults to 1000 */
+  maxKeys?: number;
+  /** Maximum number of path segments in a field name (e.g. "items[0].name" has 3). Defaults to 10 */
+  maxDepth?: number;
+  /**
+   * Maximum array index in a field name (e.g. "items[99]"), also applied to the index of
+   * appended values (e.g. the 100th "items[]"). Defaults to 1000
+   */
+  maxArrayIndex?: number;
+  /** Maximum total size of field names and string values in UTF-8 bytes. Defaults to 1 MiB */
+  maxBytes?: number;
+  /**
+   * How numeric-looking segments of field names are parsed. With "index", "prices[1001]" creates
+   * an array item; with "string", it creates an object key, e.g. for v.record() fields.
+   * Quoted keys (e.g. 'agents["007"]') are always strings. Defaults to "index"
+   */
+  numericKeys?: NumericKeys;
+  /**
+   * How field names submitted multiple times are handled, see DuplicatesPolicy. The policy
+   * applies to fields that accept a single value, fields that accept multiple values (e.g.
+   * repeatable() or v.array()) always receive an array. Pass an object keyed by field name to
+   * set the policy of individual fields instead. Defaults to "error"
+   */
+  duplicates?: DuplicatesPolicy | { readonly [fieldName: string]: DuplicatesPolicy };
+  /**
+   * How submitted fields that are not part of the shape are handled, at any depth: "strip"
+   * removes them, "error" reports an issue for each of them by its submitted name, and
+   * "passthrough" keeps them in the output. Defaults to "strip"
+   */
+  unknownKeys?: "strip" | "error" | "passthrough";
+};
+
+/**
+ * Union or variant schema of a form whose fields depend on a submitted field, e.g. created with
+ * formVariant(). Accepted by formData() instead of object entries.
+ */
+export type FormVariantSchema =
+  | v.VariantSchema<string, v.VariantOptions<string>, v.ErrorMessage<v.VariantIssue> | undefined>
+  | v.UnionSchema<v.UnionOptions, v.ErrorMessage<v.UnionIssue<v.BaseIssue<unknown>>> | undefined>;
+
+/**
+ * Async version of FormVariantSchema, accepted by formDataAsync().
+ */
+export type FormVariantSchemaAsync =
+  | FormVariantSchema
+  | v.VariantSchemaAsync<
+      string,
+      v.VariantOptionsAsync<string>,
+      v.ErrorMessage<v.VariantIssue> | undefined
+    >
+  | v.UnionSchemaAsync<
+      v.UnionOptionsAsync,
+      v.ErrorMessage<v.UnionIssue<v.BaseIssue<unknown>>> | undefined
+    >;
+
+type Schema = v.GenericSchema | v.GenericSchemaAsync;
+
+// Valibot schema types that accept the values of a field name submitted multiple times.
+const MULTIPLE_VALUES_TYPES = new Set(["any", "array", "tuple", "unknown"]);
+
+// Shared encoder used to measure the UTF-8 byte size of submitted strings.
+const textEncoder = new TextEncoder();
+
+/**
+ * Converts path segments of a field name to an issue path, so that issues about
+ * a submitted field are reported on that field.
+ *
+ * @param input - The grouped entries the field belongs to
+ * @param segments - Path segments of the field name, with empty brackets resolved to their
+ *   array index (see resolvePath())
+ * @returns Valibot issue path, or undefined for an empty path
+ */
+export function toIssuePath(
+  input: unknown,
+  segments: Array<string | number>,
+): [v.IssuePathItem, ...Array<v.IssuePathItem>] | undefined {
+  const [first, ...rest] = segments.map((key): v.UnknownPathItem => {
+    return { type: "unknown", origin: "value", input, key, value: undefined };
+  });
+  return first ? [first, ...rest] : undefined;
+}
+
+/**
+ * Checks a submitted field name against the unsafe segment and depth/index limits.
+ *
+ * @param segments - Path segments of the field name
+ * @param options - The resolved limits
+ * @returns Error message if the field name is not allowed, otherwise undefined
+ */
+export function validateFieldName(
+  segments: Array<PathSegment>,
+  options: Required<FormDataOptions>,
+): string | undefined {
+  const unsafeSegment = segments.find(isUnsafePathSegment);
+  if (unsafeSegment !== undefined) {
+    return `Invalid field name: Segment "${String(unsafeSegment)}" is not allowed`;
+  }
+  if (segments.length > options.maxDepth) {
+    return `Invalid field name: Expected at most ${options.maxDepth} segments but received ${segments.length}`;
+  }
+  for (const segment of segments) {
+    if (typeof segment === "number" && segment > options.maxArrayIndex) {
+      return `Invalid array index: Expected at most ${options.maxArrayIndex} but received ${segment}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolves the options of formData() and formDataAsync() with their defaults.
+ *
+ * @param options - Configuration options
+ * @returns Options with every limit set
+ */
+export function resolveFormDataOptions(options: FormDataOptions): Required<FormDataOptions> {
+  return {
+    maxEntries: 1000,
+    maxKeys: 1000,
+    maxDepth: 10,
+    maxArrayIndex: 1000,
+    maxBytes: 1024 * 1024,
+    numericKeys: "index",
+    duplicates: "error",
+    unknownKeys: "strip",
+    ...options,
+  };
+}
+
+/**
+ * Returns the schema of a nested value, following form schemas, repeatable() fields and the
+ * options of unions.
+ *
+ * @param schema - Schema of the parent value
+ * @param segment - Path segment of the nested value
+ * @returns Schema of the nested value or undefined if unknown
+ */
+function getChildSchema(schema: Schema, segment: PathSegment): Schema | undefined {
+  const inner = unwrapSchema(schema);
+  const kind = getFieldKind(inner);
+  const key = segment === APPEND_SEGMENT ? 0 : segment;
+  if (kind?.type === "form") {
+    return typeof key === "string" && Object.hasOwn(kind.entries, key)
+      ? kind.entries[key]
+      : undefined;
+  }
+  if (kind?.type === "repeatable") {
+    return getNestedSchema(unwrapSchema(kind.schema), key);
+  }
+  if (kind !== undefined) {
+    return undefined;
+  }
+  if ((inner.type === "union" || inner.type === "variant") && "options" in inner) {
+    for (const option of inner.options as Array<Schema>) {
+      const child = getChildSchema(option, segment);
+      if (child !== undefined) {
+        return child;
+      }
+    }
+    return undefined;
+  }
+  return getNestedSchema(inner, key);
+}
+
+/**
+ * Returns the schema of a submitted field.
+ *
+ * @param root - Object, union or variant schema of the form
+ * @param segments - Path segments of the field name
+ * @returns Schema of the field or undefined if the field is not part of the shape
+ */
+function getFieldSchema(root: Schema, segments: Array<PathSegment>): Schema | undefined {
+  let schema: Schema | undefined = root;
+  for (const segment of segments) {
+    if (schema === undefined) {
+      return undefined;
+    }
+    schema = getChildSchema(schema, segment);
+  }
+  return schema;
+}
+
+/**
+ * Checks if a field accepts the values of a field name submitted multiple times, e.g.
+ * repeatable() and delimited() fields or checkboxes with a hidden fallback input.
+ *
+ * @param schema - Schema of the field, or undefined if the field is not part of the shape
+ * @returns True if the values should be grouped into an array
+ */
+function acceptsMultipleValues(schema: Schema | undefined): boolean {
+  // Unknown fields are handled by the object schema, so their values are kept.
+  if (schema === undefined) {
+    return true;
+  }
+  const inner = unwrapSchema(schema);
+  const kind = getFieldKind(inner);
+  if (kind !== undefined) {
+    return (
+      kind.type === "repeatable" ||
+      kind.type === "delimited" ||
+      (kind.type === "checkbox" && kind.hiddenFallback)
+    );
+  }
+  if ((inner.type === "union" || inner.type === "variant") && "options" in inner) {
+    return (inner.options as Array<Schema>).some(acceptsMultipleValues);
+  }
+  return MULTIPLE_VALUES_TYPES.has(inner.type);
+}
+
+/**
+ * Internal action that converts an iterable to an array of entries,
+ * stopping as soon as there are more than allowed.
+ *
+ * @param config - The resolved formData() options
+ * @returns Valibot action that transforms an iterable to an array
+ */
+function iterableToEntries(config: Required<FormDataOptions>) {
+  return v.rawTransform<Iterable<unknown>, Array<unknown>>(({ dataset, addIssue, NEVER }) => {
+    const entries: Array<unknown> = [];
+    for (const entry of dataset.value) {
+      if (entries.length >= config.maxEntries) {
+        addIssue({
+          message: `Too many entries: Expected at most ${config.maxEntries}`,
+          expected: `<=${config.maxEntries}`,
+        });
+        return NEVER;
+      }
+      entries.push(entry);
+    }
+    return entries;
+  });
+}
+
+/**
+ * Internal action that transforms flat key-value pairs into a nested object structure.
+ * Resolves multiple values of the same key with the duplicates policy, builds nested objects with setPath and
+ * back-fills missing keys and containers of the shape, including nested ones. Field names and input size are checked against
+ * the configured limits, and every violation is reported as an issue.
+ *
+ * @param root - Object, union or variant schema of the form, used to back-fill missing keys
+ * @param config - The resolved formData() options
+ * @param partial - Only fills the submitted keys, for formDataPatch()
+ * @returns Valibot action that transforms entries to a nested object
+ */
+function entriesToObject(root: Schema, config: Required<FormDataOptions>, partial = false) {
+  const { duplicates, numericKeys } = config;
+  const defaultPolicy = typeof duplicates === "string" ? duplicates : "error";
+  // Policies of individual fields, keyed by their path segments so every notation matches.
+  const fieldPolicies = new Map<string, DuplicatesPolicy>();
+  if (typeof duplicates === "object") {
+    for (const [name, policy] of Object.entries(duplicates)) {
+      fieldPolicies.set(JSON.stringify(stringToPathArray(name, { numericKeys })), policy);
+    }
+  }
+
+  return v.rawTransform<Array<[string, unknown]>, Record<string, unknown>>(
+    ({ dataset, addIssue, NEVER }) => {
+      const data = dataset.value;
+
+      // Limit the total size of submitted strings (files are not counted)
+      let bytes = 0;
+      for (const [key, value] of data) {
+        bytes += textEncoder.encode(key).length;
+        if (typeof value === "string") {
+          bytes += textEncoder.encode(value).length;
+        }
+      }
+      if (bytes > config.maxBytes) {
+        addIssue({
+          message: `Too large: Expected at most ${config.maxBytes} bytes but received ${bytes}`,
+          expected: `<=${config.maxBytes}`,
+          received: `${bytes}`,
+        });
+        return NEVER;
+      }
+
+      // Group values by field (handling multiple values for same field), in the order of their
+      // first submission. Fields are compared by their path segments, so every spelling of a
+      // field name (e.g. "u.role" and "u[role]") is grouped. Keys with empty brackets (e.g.
+      // "tags[]" or "items[][name]") append each value separately, so they keep their position
+      // among the other fields.
+      const fields: Array<{ key: string; segments: Array<PathSegment>; values: Array<unknown> }> =
+        [];
+      const groups = new Map<string, Array<unknown>>();
+      const keys = new Set<string>();
+      for (const [key, value] of data) {
+        keys.add(key);
+        const segments = stringToPathArray(key, { numericKeys });
+        if (segments.includes(APPEND_SEGMENT)) {
+          fields.push({ key, segments, values: [value] });
+          continue;
+        }
+        const path = JSON.stringify(segments);
+        const values = groups.get(path);
+        if (values) {
+          values.push(value);
+        } else {
+          const group = [value];
+          groups.set(path, group);
+          fields.push({ key, segments, values: group });
+        }
+      }
+
+      if (keys.size > config.maxKeys) {
+        addIssue({
+          message: `Too many fields: Expected at most ${config.maxKeys} but received ${keys.size}`,
+          expected: `<=${config.maxKeys}`,
+          received: `${keys.size}`,
+        });
+        return NEVER;
+      }
+
+      // Single value stays as single value, multiple values are resolved with the policy
+      const assignments: Array<{ key: string; segments: Array<PathSegment>; value: unknown }> = [];
+      let valid = true;
+      for (const { key, segments, values } of fields) {
+        if (values.length === 1) {
+          assignments.push({ key, segments, value: values[0] });
+          continue;
+        }
+        const policy =
+          fieldPolicies.get(JSON.stringify(segments)) ??
+          (acceptsMultipleValues(getFieldSchema(root, segments)) ? "array" : defaultPolicy);
+        if (policy === "error") {
+          addIssue({
+            message: `Duplicate field: Expected a single value but received ${values.length} values`,
+            expected: "1",
+            received: `${values.length}`,
+            // Keys with empty brackets are never grouped, so there is nothing to resolve
+            path: toIssuePath(data, resolvePath(undefined, segments)),
+          });
+          valid = false;
+          continue;
+        }
+        const value = policy === "first" ? values[0] : policy === "last" ? values.at(-1) : values;
+        assignments.push({ key, segments, value });
+      }
+
+      // Build nested object using setPath for dot/bracket notation. Empty brackets in issue
+      // paths are resolved to the index of the array item the value is appended to.
+      const result: Record<string, unknown> = Object.create(null);
+      const invalidKeys = new Set<string>();
+      const unknownFields: Array<{ key: string; path: Array<string | number> }> = [];
+      for (const { key, segments, value } of assignments) {
+        const path = resolvePath(result, segments);
+        if (config.unknownKeys === "error" && isUnknownField(root, segments)) {
+          unknownFields.push({ key, path });
+        }
+        if (invalidKeys.has(key)) {
+          continue;
+        }
+        // Appended values are checked against maxArrayIndex by the index they are appended at
+        const message = validateFieldName(path, config);
+        if (message !== undefined) {
+          addIssue({ message, path: toIssuePath(data, path) });
+          invalidKeys.add(key);
+          valid = false;
+          continue;
+        }
+
+        try {
+          setPath(result, key, value, { nullPrototype: true, numericKeys });
+        } catch (error) {
+          // Conflicting field names, e.g. "user" and "user.name"
+          addIssue({
+            message: `Invalid field name: ${error instanceof Error ? error.message : String(error)}`,
+            path: toIssuePath(data, path),
+          });
+          invalidKeys.add(key);
+          valid = false;
+        }
+      }
+
+      const unknownKeys = new Set<string>();
+      for (const { key, path } of unknownFields) {
+        if (!unknownKeys.has(key)) {
+          addIssue({
+            message: `Unknown field: "${key}" is not part of the schema`,
+            expected: "never",
+            received: `"${key}"`,
+            path: toIssuePath(data, path),
+          });
+          unknownKeys.add(key);
+          valid = false;
+        }
+      }
+
+      if (!valid) {
+        return NEVER;
+      }
+
+      // Ensure all schema keys are present at any depth, even if missing from form data
+      // This allows validators to provide their own defaults (like repeatable() returning [])
+      const partialEntries = partial ? getPartialEntries(root) : undefined;
+      if (partialEntries !== undefined) {
+        fillSubmittedKeys(partialEntries, result);
+      } else {
+        fillMissingValues(root, result);
+      }
+
+      return result;
+    },
+  );
+}
+
 /**
  * Schema for processing FormData or URLSearchParams into a structured object.
  * This is the main function for parsing HTML form submissions.
@@ -284,19 +972,31 @@ function isIterable<T = unknown>(value: unknown): value is Iterable<T> {
  * The function performs several transformations:
  * 1. Validates the input is iterable (FormData/URLSearchParams)
  * 2. Converts to array of [key, value] entries
- * 3. Groups multiple values for the same key into arrays
- * 4. Uses setPath to create nested objects from dot/bracket notation keys
+ * 3. Groups multiple values for the same key into arrays for fields accepting multiple values
+ *    (e.g. repeatable()), and reports an issue for other fields (see the duplicates option)
+ * 4. Uses setPath to create nested objects from dot/bracket notation keys,
+ *    appending to arrays for empty brackets (e.g. "hobbies[]" or "items[][name]")
  * 5. Validates the result against the provided schema shape
  *
- * @param shape - Valibot object schema defining the expected structure
+ * Instead of object entries, the shape can be a union or variant schema (e.g. created with
+ * formVariant()) for forms whose fields depend on a submitted field. Missing keys are then
+ * back-filled for the option matching the submitted value only.
+ *
+ * Since the input usually comes from an untrusted request body, field names that would reach
+ * the prototype chain (e.g. "__proto__.polluted") are rejected, nested objects are created
+ * without a prototype, and the size of the input is limited (see FormDataOptions).
+ * Each violation is reported as a Valibot issue, on the offending field where possible.
+ *
+ * @param shape - Valibot object entries, or a union or variant schema, defining the expected structure
+ * @param options - Configuration options for parsing field names and limiting the input size
  * @returns Valibot schema that transforms FormData to structured object
  *
  * @example
  * const schema = formData({
  *   name: text(),
  *   age: numeric(),
- *   "address.street": text(),
- *   "hobbies[]": repeatable(),
+ *   address: v.object({ street: text() }),
+ *   hobbies: repeatable(),
  * });
  *
  * const formData = new FormData();
@@ -313,46 +1013,196 @@ function isIterable<T = unknown>(value: unknown): value is Iterable<T> {
  * //   address: { street: "123 Main St" },
  * //   hobbies: ["reading", "gaming"]
  * // }
+ *
+ * @example
+ * const uploadSchema = formData({ files: repeatableOfType(file()) }, { maxEntries: 10 });
+ *
+ * @example
+ * const checkoutSchema = formData(
+ *   formVariant("paymentMethod", {
+ *     card: { card: v.object({ number: text() }) },
+ *     invoice: { invoice: v.object({ vatId: text() }) },
+ *   }),
+ * );
  */
-export function formData<E extends v.ObjectEntries>(shape: E) {
-  return v.pipe(
+export function formData<E extends v.ObjectEntries>(
+  shape: E,
+  options?: FormDataOptions,
+): v.ObjectSchema<E, undefined>;
+export function formData<TSchema extends FormVariantSchema>(
+  shape: TSchema,
+  options?: FormDataOptions,
+): TSchema;
+export function formData(
+  shape: v.ObjectEntries | FormVariantSchema,
+  options: FormDataOptions = {},
+): v.GenericSchema {
+  const config = resolveFormDataOptions(options);
+  const root = (isSchema(shape) ? shape : v.object(shape)) as v.GenericSchema<
+    Record<string, unknown>
+  >;
+  const schema = v.pipe(
     v.unknown(),
     // Make sure that value is iterable (FormData, URLSearchParams, etc.)
     v.custom<Iterable<unknown>>(isIterable),
-    // Convert iterable to array of entries
-    v.transform((iterable) => [...iterable]),
+    // Convert iterable to array of entries, stopping as soon as there are too many
+    iterableToEntries(config),
     // Validate that all entries are [string, unknown] pairs
     v.array(v.tuple([v.string(), v.unknown()])),
     // Transform flat key-value pairs into nested object structure
-    v.transform((data) => {
-      // Group values by key (handling multiple values for same key)
-      const map = new Map<string, Array<unknown>>();
-      for (const [key, value] of data) {
-        if (map.has(key)) {
-          map.get(key)?.push(value);
-        } else {
-          map.set(key, [value]);
-        }
-      }
+    entriesToObject(root, config),
+    // Validate the final object against the provided schema shape
+    config.unknownKeys === "passthrough" ? passthroughUnknownKeys(root) : root,
+  );
+  return isSchema(shape)
+    ? defineFormRoot(schema, shape)
+    : defineFieldKind(schema, { type: "form", entries: shape, options: config });
+}
 
-      // Build nested object using setPath for dot/bracket notation
-      const result = [...map].reduce((acc, [key, list]) => {
-        // Single value stays as single value, multiple values become array
-        const value = list.length === 1 ? list[0] : list;
-        return setPath(acc, key, value);
-      }, {});
+/**
+ * Async version of formData() for shapes that contain async schemas, e.g. file content checks
+ * with fileSignature(), fileContent() or fileHash(). Performs the same transformations and
+ * accepts the same options, but has to be used with v.parseAsync() or v.safeParseAsync().
+ *
+ * @param shape - Valibot object entries or a union or variant schema, which may contain async schemas
+ * @param options - Configuration options for parsing field names and limiting the input size
+ * @returns Async Valibot schema that transforms FormData to structured object
+ *
+ * @example
+ * const schema = formDataAsync({
+ *   name: text(),
+ *   avatar: v.pipeAsync(file(), fileSignature(["png", "jpeg"])),
+ * });
+ *
+ * await v.parseAsync(schema, formData);
+ * // → { name: "John", avatar: File }
+ */
+export function formDataAsync<E extends v.ObjectEntriesAsync>(
+  shape: E,
+  options?: FormDataOptions,
+): v.ObjectSchemaAsync<E, undefined>;
+export function formDataAsync<TSchema extends FormVariantSchemaAsync>(
+  shape: TSchema,
+  options?: FormDataOptions,
+): TSchema;
+export function formDataAsync(
+  shape: v.ObjectEntriesAsync | FormVariantSchemaAsync,
+  options: FormDataOptions = {},
+): v.GenericSchemaAsync {
+  const config = resolveFormDataOptions(options);
+  const root = (isSchema(shape) ? shape : v.objectAsync(shape)) as v.GenericSchemaAsync<
+    Record<string, unknown>
+  >;
+  const schema = v.pipeAsync(
+    v.unknown(),
+    v.custom<Iterable<unknown>>(isIterable),
+    iterableToEntries(config),
+    v.array(v.tuple([v.string(), v.unknown()])),
+    entriesToObject(root, config),
+    config.unknownKeys === "passthrough" ? passthroughUnknownKeysAsync(root) : root,
+  );
+  return isSchema(shape)
+    ? defineFormRoot(schema, shape)
+    : defineFieldKind(schema, { type: "form", entries: shape, options: config });
+}
 
-      // Ensure all schema keys are present, even if missing from form data
-      // This allows validators to provide their own defaults (like repeatable() returning [])
-      for (const key of Object.keys(shape)) {
-        if (!(key in result)) {
-          setPath(result, key, undefined);
+/**
+ * Output of a field parsed by formDataPatch(): nested objects are partial, and cleared fields
+ * are null.
+ */
+type PatchValue<TSchema extends v.GenericSchema> = TSchema extends { pipe: unknown }
+  ? Exclude<v.InferOutput<TSchema>, undefined> | null
+  : TSchema extends { type: WrapperType; wrapped: infer TWrapped extends v.GenericSchema }
+    ? PatchValue<TWrapped>
+    : TSchema extends {
+          type: "loose_object" | "object" | "strict_object";
+          entries: infer TEntries extends v.ObjectEntries;
         }
-      }
+      ? FormDataPatch<TEntries>
+      : Exclude<v.InferOutput<TSchema>, undefined> | null;
 
-      return result;
+/**
+ * Output of formDataPatch(): a deep partial of the output of formData() with the submitted
+ * fields only, where cleared fields are null.
+ */
+export type FormDataPatch<TEntries extends v.ObjectEntries> = {
+  [TKey in keyof TEntries]?: PatchValue<TEntries[TKey]>;
+};
+
+/**
+ * Internal helper that makes the entries of a shape partial: every key may be missing, nested
+ * objects are partial too, and fields that parse to undefined (e.g. a cleared text() field)
+ * become null.
+ *
+ * @param entries - Entries of the form schema
+ * @returns Entries of the patch schema
+ */
+function toPatchEntries(entries: v.ObjectEntries): v.ObjectEntries {
+  return Object.fromEntries(
+    Object.entries(entries).map(([key, schema]) => {
+      const partialEntries = getPartialEntries(schema) as v.ObjectEntries | undefined;
+      if (partialEntries === undefined) {
+        const field = v.pipe(
+          schema,
+          v.transform((value) => value ?? null),
+        );
+        return [key, v.optional(field)];
+      }
+      const patchEntries = toPatchEntries(partialEntries);
+      const type = unwrapSchema(schema).type;
+      const object =
+        type === "loose_object"
+          ? v.looseObject(patchEntries)
+          : type === "strict_object"
+            ? v.strictObject(patchEntries)
+            : v.object(patchEntries);
+      return [key, v.optional(object)];
     }),
-    // Validate the final object against the provided schema shape
-    v.object(shape),
-  ) as unknown as v.ObjectSchema<E, undefined>;
+  );
+}
+
+/**
+ * Schema for update forms (e.g. PATCH requests), which only returns the submitted fields so
+ * "the field was cleared" can be told apart from "the field was not on the page". Works like
+ * formData() with the same options, but missing keys are not back-filled (so checkbox() and
+ * repeatable() fields only appear if they were submitted), fields that parse to undefined
+ * (e.g. an empty optional text() field) are returned as null, and nested objects are partial.
+ * Nested objects with a pipe are parsed as a whole, as their actions need the complete object.
+ *
+ * @param shape - Valibot object entries, the same as for formData()
+ * @param options - Configuration options for parsing field names and limiting the input size
+ * @returns Valibot schema that transforms FormData to the submitted fields
+ *
+ * @example
+ * const schema = formDataPatch({
+ *   name: text(),
+ *   bio: text(v.optional(v.string())),
+ *   newsletter: checkbox({ tristate: true }),
+ *   address: v.object({ street: text(), city: text() }),
+ * });
+ *
+ * schema.parse(new URLSearchParams("bio=&address.city=Paris"));
+ * // → { bio: null, address: { city: "Paris" } }
+ *
+ * schema.parse(new URLSearchParams("name="));
+ * // → ValidationError, as name is required
+ */
+export function formDataPatch<E extends v.ObjectEntries>(shape: E, options: FormDataOptions = {}) {
+  const config = resolveFormDataOptions(options);
+  const patchShape = toPatchEntries(shape);
+  const schema = v.pipe(
+    v.unknown(),
+    v.custom<Iterable<unknown>>(isIterable),
+    iterableToEntries(config),
+    v.array(v.tuple([v.string(), v.unknown()])),
+    entriesToObject(v.object(shape), config, true),
+    config.unknownKeys === "passthrough"
+      ? passthroughUnknownKeys(v.object(patchShape))
+      : v.object(patchShape),
+  );
+  return defineFieldKind(schema, {
+    type: "form",
+    entries: patchShape,
+    options: config,
+  }) as unknown as v.GenericSchema<unknown, FormDataPatch<E>> & { readonly entries: E };
 }
@@ -0,0 +1,152 @@
+import * as assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import * as v from "valibot";
+import * as vfd from "./form-data-schema.ts";
+import { formErrors, safeParseForm } from "./form-errors.ts";
+import type { FieldPath } from "./field-path.ts";
+
+const schema = vfd.formData({
+  name: vfd.text(v.pipe(v.string(), v.minLength(3, "Too short"), v.regex(/^[A-Z]/, "Capitalize"))),
+  address: v.object({
+    street: vfd.text(v.string("Required")),
+  }),
+  locations: v.optional(
+    v.array(
+      v.object({
+        city: vfd.text(v.string("Required")),
+      }),
+    ),
+  ),
+});
+
+function getIssues(input: unknown) {
+  const result = v.safeParse(schema, input);
+  assert.ok(!result.success);
+  return result.issues;
+}
+
+describe("formErrors()", () => {
+  test("should key errors by mixed notation field names by default", () => {
+    const issues = getIssues(
+      new URLSearchParams([
+        ["name", "John"],
+        ["address.street", ""],
+        ["locations.0.city", "NYC"],
+        ["locations.1.city", ""],
+      ]),
+    );
+    assert.deepStrictEqual(formErrors<typeof schema>(issues), {
+      formErrors: [],
+      fieldErrors: {
+        "address.street": ["Required"],
+        "locations[1].city": ["Required"],
+      },
+    });
+  });
+
+  test("should support dot and bracket notation", () => {
+    const issues = getIssues(
+      new URLSearchParams([
+        ["name", "John"],
+        ["address.street", "Main St"],
+        ["locations.0.city", ""],
+      ]),
+    );
+    assert.deepStrictEqual(formErrors(issues, { notation: "dot" }).fieldErrors, {
+      "locations.0.city": ["Required"],
+    });
+    assert.deepStrictEqual(formErrors(issues, { notation: "bracket" }).fieldErrors, {
+      "locations[0][city]": ["Required"],
+    });
+  });
+
+  test("should group multiple messages for the same field", () => {
+    const issues = getIssues(
+      new URLSearchParams([
+        ["name", "jo"],
+        ["address.street", "Main St"],
+      ]),
+    );
+    assert.deepStrictEqual(formErrors(issues).fieldErrors, {
+      name: ["Too short", "Capitalize"],
+    });
+  });
+
+  test("should quote field names containing special characters", () => {
+    const recordSchema = vfd.formData({ prices: v.record(v.string(), vfd.numeric()) });
+    const result = v.safeParse(recordSchema, new URLSearchParams([['prices["1001"]', "abc"]]));
+    assert.ok(!result.success);
+    assert.deepStrictEqual(Object.keys(formErrors(result.issues).fieldErrors), ['prices["1001"]']);
+    assert.deepStrictEqual(
+      Object.keys(formErrors(result.issues, { numericKeys: "string" }).fieldErrors),
+      ["prices.1001"],
+    );
+  });
+
+  test("should separate form-level errors", () => {
+    const issues = getIssues("not form data");
+    const errors = formErrors(issues);
+    assert.strictEqual(errors.formErrors.length, 1);
+    assert.deepStrictEqual(errors.fieldErrors, {});
+  });
+
+  test("should keep errors of a field named __proto__", () => {
+    const errors = formErrors(getIssues(new URLSearchParams([["__proto__", "1"]])));
+    assert.strictEqual(Object.getPrototypeOf(errors.fieldErrors), Object.prototype);
+    assert.deepStrictEqual(JSON.parse(JSON.stringify(errors.fieldErrors)), {
+      ["__proto__"]: ['Invalid field name: Segment "__proto__" is not allowed'],
+    });
+  });
+
+  test("should type field error keys from the schema shape", () => {
+    const names: Array<FieldPath<typeof schema>> = [
+      "name",
+      "address",
+      "address.street",
+      "locations",
+      "locations[0]",
+      "locations[0].city",
+    ];
+    const dotNames: Array<FieldPath<typeof schema, "dot">> = ["locations.0.city"];
+    const bracketNames: Array<FieldPath<typeof schema, "bracket">> = ["locations[0][city]"];
+    // @ts-expect-error - Unknown field names are not allowed
+    const unknownName: FieldPath<typeof schema> = "address.zip";
+    assert.strictEqual(names.length, 6);
+    assert.deepStrictEqual(
+      [...dotNames, ...bracketNames],
+      ["locations.0.city", "locations[0][city]"],
+    );
+    assert.strictEqual(unknownName, "address.zip");
+  });
+});
+
+describe("safeParseForm()", () => {
+  test("should return the output on success", () => {
+    const result = safeParseForm(
+      schema,
+      new URLSearchParams([
+        ["name", "John"],
+        ["address.street", "Main St"],
+      ]),
+    );
+    assert.deepStrictEqual(result, {
+      success: true,
+      output: { name: "John", address: { street: "Main St" }, locations: undefined },
+    });
+  });
+
+  test("should return issues and form errors on failure", () => {
+    const result = safeParseForm(
+      schema,
+      new URLSearchParams([
+        ["name", "John"],
+        ["address[street]", ""],
+      ]),
+      { notation: "bracket" },
+    );
+    assert.ok(!result.success);
+    assert.strictEqual(result.issues.length, 1);
+    assert.deepStrictEqual(result.formErrors, []);
+    assert.deepStrictEqual(result.fieldErrors, { "address[street]": ["Required"] });
+  });
+});
@@ -0,0 +1,161 @@
+import * as v from "valibot";
+import { pathArrayToString } from "./path-array-to-string.ts";
+import { APPEND_SEGMENT } from "./string-to-path-array.ts";
+import type { FieldPath } from "./field-path.ts";
+import type { PathNotation } from "./path-array-to-string.ts";
+import type { NumericKeys } from "./string-to-path-array.ts";
+
+/**
+ * Configuration options for mapping issues to form errors.
+ */
+export type FormErrorsOptions<TNotation extends PathNotation = PathNotation> = {
+  /** Notation used for the field names. Defaults to "mixed" (e.g. "items[0].name") */
+  notation?: TNotation;
+  /**
+   * How the form parses numeric-looking segments, see formData(). With "string", numeric-looking
+   * object keys are written without quotes (e.g. "prices[1001]"). Defaults to "index"
+   */
+  numericKeys?: NumericKeys;
+};
+
+/**
+ * Error messages of a failed form submission, grouped by field name.
+ */
+export type FormErrors<
+  TSchema extends v.GenericSchema | v.GenericSchemaAsync = v.GenericSchema,
+  TNotation extends PathNotation = "mixed",
+> = {
+  /** Messages of issues that do not belong to a field, e.g. when the input is not FormData */
+  formErrors: Array<string>;
+  /** Messages of issues keyed by the field name, in the same notation as the form inputs */
+  fieldErrors: Partial<Record<FieldPath<TSchema, TNotation>, Array<string>>>;
+};
+
+/**
+ * Result of safeParseForm(), either the parsed output or the issues and form errors.
+ */
+export type SafeParseFormResult<
+  TSchema extends v.GenericSchema,
+  TNotation extends PathNotation = "mixed",
+> =
+  | {
+      success: true;
+      output: v.InferOutput<TSchema>;
+    }
+  | ({
+      success: false;
+      issues: [v.InferIssue<TSchema>, ...Array<v.InferIssue<TSchema>>];
+    } & FormErrors<TSchema, TNotation>);
+
+/**
+ * Converts the path of an issue to the field name it belongs to.
+ *
+ * @param issue - Valibot issue
+ * @param options - Notation and numeric key handling of the field name
+ * @returns The field name, or an empty string for issues at the root
+ */
+function issueToFieldName(issue: v.BaseIssue<unknown>, options: FormErrorsOptions): string {
+  if (issue.path === undefined) {
+    return "";
+  }
+  const path = issue.path.map((item) => {
+    const key: unknown = item.key;
+    return typeof key === "number" || key === APPEND_SEGMENT ? key : String(key);
+  });
+  return pathArrayToString(path, options);
+}
+
+/**
+ * Flattens Valibot issues into error messages keyed by form field names.
+ * Issue paths are converted back into the same string notation that formData() parses,
+ * so the keys match the `name` attributes of the submitted inputs.
+ * Multiple messages for the same field are grouped, and issues without a path are
+ * collected as form-level errors.
+ *
+ * @param issues - Issues of a failed parse, e.g. from ValiError.issues or safeParse()
+ * @param options - Configuration options
+ * @returns Form-level errors and field errors keyed by field name
+ *
+ * @example
+ * const schema = formData({
+ *   address: v.object({ street: text() }),
+ *   locations: v.array(v.object({ city: text() })),
+ * });
+ *
+ * const result = v.safeParse(schema, data);
+ * if (!result.success) {
+ *   formErrors<typeof schema>(result.issues);
+ *   // {
+ *   //   formErrors: [],
+ *   //   fieldErrors: {
+ *   //     "address.street": ["Invalid type: Expected string but received undefined"],
+ *   //     "locations[1].city": ["Invalid type: Expected string but received undefined"],
+ *   //   },
+ *   // }
+ * }
+ */
+export function formErrors<
+  TSchema extends v.GenericSchema | v.GenericSchemaAsync = v.GenericSchema,
+  TNotation extends PathNotation = "mixed",
+>(
+  issues: ReadonlyArray<v.BaseIssue<unknown>>,
+  options: FormErrorsOptions<TNotation> = {},
+): FormErrors<TSchema, TNotation> {
+  const errors: FormErrors = { formErrors: [], fieldErrors: {} };
+  const fieldErrors: Record<string, Array<string>> = errors.fieldErrors;
+
+  for (const issue of issues) {
+    const name = issueToFieldName(issue, options);
+    if (name === "") {
+      errors.formErrors.push(issue.message);
+    } else if (Object.hasOwn(fieldErrors, name)) {
+      fieldErrors[name]?.push(issue.message);
+    } else {
+      // Defined as own property, so a field named "__proto__" can't replace the prototype.
+      Object.defineProperty(fieldErrors, name, {
+        value: [issue.message],
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+    }
+  }
+
+  return errors as FormErrors<TSchema, TNotation>;
+}
+
+/**
+ * Parses form data with the given schema without throwing. On failure, the issues are
+ * additionally mapped to form-level and per-field errors using formErrors().
+ *
+ * @param schema - Form schema, usually created with formData()
+ * @param input - FormData, URLSearchParams or any other input of the schema
+ * @param options - Configuration options
+ * @returns The parsed output or the issues and form errors
+ *
+ * @example
+ * const result = safeParseForm(schema, await request.formData());
+ * if (result.success) {
+ *   await saveUser(result.output);
+ * } else {
+ *   return { errors: result.fieldErrors };
+ * }
+ */
+export function safeParseForm<
+  TSchema extends v.GenericSchema,
+  TNotation extends PathNotation = "mixed",
+>(
+  schema: TSchema,
+  input: unknown,
+  options: FormErrorsOptions<TNotation> = {},
+): SafeParseFormResult<TSchema, TNotation> {
+  const result = v.safeParse(schema, input);
+  if (result.success) {
+    return { success: true, output: result.output };
+  }
+  return {
+    success: false,
+    issues: result.issues,
+    ...formErrors<TSchema, TNotation>(result.issues, options),
+  };
+}
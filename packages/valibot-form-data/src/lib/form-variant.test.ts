@@ -0,0 +1,169 @@
+import * as assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import * as v from "valibot";
+import { fieldNames } from "./field-names.ts";
+import { checkbox, formData, formDataAsync, repeatable, text } from "./form-data-schema.ts";
+import { formVariant } from "./form-variant.ts";
+import { toOpenApiRequestBody } from "./openapi.ts";
+import { toSearchParams } from "./to-form-data.ts";
+
+const checkout = formData(
+  formVariant("paymentMethod", {
+    card: { card: v.object({ number: text(), save: checkbox() }) },
+    invoice: { invoice: v.object({ vatId: text(), references: repeatable() }) },
+  }),
+);
+
+describe("formVariant()", () => {
+  test("should parse the fields of the selected branch", () => {
+    assert.deepStrictEqual(
+      v.parse(checkout, new URLSearchParams("paymentMethod=card&card.number=4242")),
+      { paymentMethod: "card", card: { number: "4242", save: false } },
+    );
+    assert.deepStrictEqual(
+      v.parse(checkout, new URLSearchParams("paymentMethod=invoice&invoice.vatId=DE123")),
+      { paymentMethod: "invoice", invoice: { vatId: "DE123", references: [] } },
+    );
+  });
+
+  test("should only back-fill the keys of the selected branch", () => {
+    const result = v.safeParse(checkout, new URLSearchParams("paymentMethod=card"));
+    assert.ok(!result.success);
+    assert.deepStrictEqual(
+      result.issues.map((issue) => v.getDotPath(issue)),
+      ["card.number"],
+    );
+  });
+
+  test("should strip the fields of other branches", () => {
+    const data = new URLSearchParams("paymentMethod=card&card.number=4242&invoice.vatId=DE123");
+    assert.deepStrictEqual(v.parse(checkout, data), {
+      paymentMethod: "card",
+      card: { number: "4242", save: false },
+    });
+  });
+
+  test("should report a missing discriminator", () => {
+    for (const data of ["", "paymentMethod="]) {
+      const result = v.safeParse(checkout, new URLSearchParams(data));
+      assert.ok(!result.success);
+      assert.deepStrictEqual(
+        result.issues.map((issue) => [v.getDotPath(issue), issue.message]),
+        [["paymentMethod", 'Missing option: Expected "card" | "invoice"']],
+      );
+    }
+  });
+
+  test("should report an unknown discriminator", () => {
+    const result = v.safeParse(checkout, new URLSearchParams("paymentMethod=cash"));
+    assert.ok(!result.success);
+    assert.deepStrictEqual(
+      result.issues.map((issue) => [v.getDotPath(issue), issue.message]),
+      [["paymentMethod", 'Invalid option: Expected "card" | "invoice" but received "cash"']],
+    );
+  });
+
+  test("should narrow the output by the discriminator", () => {
+    const output = v.parse(checkout, new URLSearchParams("paymentMethod=card&card.number=4242"));
+    if (output.paymentMethod === "card") {
+      const number: string = output.card.number;
+      assert.strictEqual(number, "4242");
+    } else {
+      const vatId: string = output.invoice.vatId;
+      assert.fail(vatId);
+    }
+  });
+
+  test("should work as a nested schema", () => {
+    const schema = formData({
+      name: text(),
+      payment: formVariant("method", { card: { number: text() }, invoice: {} }),
+    });
+    assert.deepStrictEqual(
+      v.parse(schema, new URLSearchParams("name=Ada&payment.method=invoice")),
+      { name: "Ada", payment: { method: "invoice" } },
+    );
+  });
+});
+
+describe("union and variant shapes in formData()", () => {
+  test("should accept a variant schema", () => {
+    const schema = formData(
+      v.variant("type", [
+        v.object({ type: v.literal("person"), tags: repeatable() }),
+        v.object({ type: v.literal("company"), employees: repeatable() }),
+      ]),
+    );
+    assert.deepStrictEqual(v.parse(schema, new URLSearchParams("type=company")), {
+      type: "company",
+      employees: [],
+    });
+  });
+
+  test("should accept a union schema", () => {
+    const schema = formData(
+      v.union([v.object({ email: text() }), v.object({ phone: text(), sms: checkbox() })]),
+    );
+    assert.deepStrictEqual(v.parse(schema, new URLSearchParams("phone=123")), {
+      phone: "123",
+      sms: false,
+    });
+  });
+
+  test("should accept a variant schema in formDataAsync()", async () => {
+    const schema = formDataAsync(formVariant("kind", { a: { a: text() }, b: { b: repeatable() } }));
+    assert.deepStrictEqual(await v.parseAsync(schema, new URLSearchParams("kind=b")), {
+      kind: "b",
+      b: [],
+    });
+  });
+
+  test("should report unknown fields of every branch", () => {
+    const schema = formData(
+      formVariant("paymentMethod", {
+        card: { card: v.object({ number: text() }) },
+        invoice: { invoice: v.object({ vatId: text() }) },
+      }),
+      { unknownKeys: "error" },
+    );
+    const result = v.safeParse(
+      schema,
+      new URLSearchParams("paymentMethod=card&card.number=4242&role=admin"),
+    );
+    assert.ok(!result.success);
+    assert.deepStrictEqual(
+      result.issues.map((issue) => v.getDotPath(issue)),
+      ["role"],
+    );
+  });
+
+  test("should serialize the fields of the matching branch", () => {
+    const data = toSearchParams(checkout, {
+      paymentMethod: "card",
+      card: { number: "4242", save: true },
+    });
+    assert.strictEqual(data.toString(), "paymentMethod=card&card.number=4242&card.save=on");
+    assert.deepStrictEqual(v.parse(checkout, data), {
+      paymentMethod: "card",
+      card: { number: "4242", save: true },
+    });
+  });
+
+  test("should build the field names of every branch", () => {
+    const names = fieldNames(checkout);
+    assert.strictEqual(names.paymentMethod, "paymentMethod");
+    assert.strictEqual(names.card.number, "card.number");
+    assert.strictEqual(names.invoice.vatId, "invoice.vatId");
+  });
+
+  test("should describe the fields of every branch in OpenAPI", () => {
+    const urlEncoded = toOpenApiRequestBody(checkout).content["application/x-www-form-urlencoded"];
+    assert.deepStrictEqual(Object.keys(urlEncoded?.schema.properties ?? {}), [
+      "card.number",
+      "card.save",
+      "paymentMethod",
+      "invoice.vatId",
+      "invoice.references",
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+import * as v from "valibot";
+
+/**
+ * Object schema of a formVariant() option, the entries of the branch with a literal
+ * discriminator.
+ */
+type FormVariantOption<
+  TKey extends string,
+  TName extends string,
+  TEntries extends v.ObjectEntries,
+> = v.ObjectSchema<
+  Omit<TEntries, TKey> & Readonly<Record<TKey, v.LiteralSchema<TName, undefined>>>,
+  undefined
+>;
+
+/**
+ * Union of the options of a formVariant() schema.
+ */
+type FormVariantOptions<TKey extends string, TBranches extends Record<string, v.ObjectEntries>> = {
+  [TName in keyof TBranches & string]: FormVariantOption<TKey, TName, TBranches[TName]>;
+}[keyof TBranches & string];
+
+/**
+ * Schema created by formVariant(), a variant schema with one option per branch.
+ */
+export type FormVariant<TKey extends string, TBranches extends Record<string, v.ObjectEntries>> =
+  Array<FormVariantOptions<TKey, TBranches>> extends infer TOptions extends v.VariantOptions<TKey>
+    ? v.VariantSchema<TKey, TOptions, v.ErrorMessage<v.VariantIssue>>
+    : never;
+
+/**
+ * Creates a variant schema for forms whose fields depend on a submitted field, e.g. a payment
+ * method select deciding which payment fields are part of the form. Each branch is keyed by the
+ * submitted value of the discriminator and lists the entries of the fields it adds. Pass it to
+ * formData() to back-fill the missing keys of the selected branch only and to infer an output
+ * type that narrows by the discriminator. A missing or unknown discriminator is reported as an
+ * issue of the discriminator field.
+ *
+ * @param key - Name of the discriminator field
+ * @param branches - Entries of each branch, keyed by the submitted value of the discriminator
+ * @returns Valibot variant schema with an object option for each branch
+ *
+ * @example
+ * const checkout = formData(
+ *   formVariant("paymentMethod", {
+ *     card: { card: v.object({ number: text(), cvc: text() }) },
+ *     invoice: { invoice: v.object({ vatId: text(v.optional(v.string())) }) },
+ *   }),
+ * );
+ *
+ * checkout.parse(formData); // paymentMethod=card&card.number=4242...&card.cvc=123
+ * // → { paymentMethod: "card", card: { number: "4242...", cvc: "123" } }
+ *
+ * checkout.parse(new FormData());
+ * // → ValidationError ('Missing option: Expected "card" | "invoice"' at paymentMethod)
+ */
+export function formVariant<
+  const TKey extends string,
+  const TBranches extends Record<string, v.ObjectEntries>,
+>(key: TKey, branches: TBranches): FormVariant<TKey, TBranches> {
+  const expected = Object.keys(branches)
+    .map((name) => `"${name}"`)
+    .join(" | ");
+  const options = Object.entries(branches).map(([name, entries]) => {
+    return v.object({ ...entries, [key]: v.literal(name) });
+  }) as unknown as v.VariantOptions<TKey>;
+  return v.variant(key, options, (issue) => {
+    return issue.input === undefined || issue.input === ""
+      ? `Missing option: Expected ${expected}`
+      : `Invalid option: Expected ${expected} but received ${issue.received}`;
+  }) as unknown as FormVariant<TKey, TBranches>;
+}
@@ -0,0 +1,214 @@
+import * as assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import * as v from "valibot";
+import { date, datetimeLocal } from "./date-time.ts";
+import {
+  bigintField,
+  checkbox,
+  decimalField,
+  file,
+  formData,
+  numeric,
+  repeatable,
+  repeatableOfType,
+  text,
+} from "./form-data-schema.ts";
+import { fieldAttributes, inputProps } from "./input-props.ts";
+
+describe("inputProps()", () => {
+  test("should mark helpers as required unless optional", () => {
+    assert.deepStrictEqual(inputProps(text(), "name"), {
+      name: "name",
+      type: "text",
+      required: true,
+    });
+    assert.deepStrictEqual(inputProps(text(v.optional(v.string()))), { type: "text" });
+    assert.deepStrictEqual(inputProps(v.optional(text())), { type: "text" });
+    assert.deepStrictEqual(inputProps(file(v.optional(v.instance(File)))), { type: "file" });
+  });
+
+  test("should map string actions", () => {
+    const schema = text(v.pipe(v.string(), v.minLength(3), v.maxLength(20), v.regex(/^[a-z]+$/)));
+    assert.deepStrictEqual(inputProps(schema), {
+      type: "text",
+      minLength: 3,
+      maxLength: 20,
+      pattern: "^[a-z]+$",
+      required: true,
+    });
+    assert.deepStrictEqual(inputProps(text(v.pipe(v.string(), v.length(5)))), {
+      type: "text",
+      minLength: 5,
+      maxLength: 5,
+      required: true,
+    });
+  });
+
+  test("should wrap patterns that are not anchored at both ends", () => {
+    const digit = inputProps(text(v.pipe(v.string(), v.regex(/\d/))));
+    assert.strictEqual(digit.pattern, ".*(?:\\d).*");
+    assert.ok(new RegExp(`^(?:${digit.pattern})$`, "v").test("a1"));
+    assert.strictEqual(
+      inputProps(text(v.pipe(v.string(), v.regex(/^a|b$/)))).pattern,
+      ".*(?:^a|b$).*",
+    );
+    assert.strictEqual(
+      inputProps(text(v.pipe(v.string(), v.regex(/^a\$/)))).pattern,
+      ".*(?:^a\\$).*",
+    );
+    assert.strictEqual(
+      inputProps(text(v.pipe(v.string(), v.regex(/^[a-z]+$/u)))).pattern,
+      "^[a-z]+$",
+    );
+  });
+
+  test("should follow every wrapper of the schema", () => {
+    const schema = v.nonOptional(v.optional(text(v.pipe(v.string(), v.minLength(2)))));
+    assert.deepStrictEqual(inputProps(schema), { type: "text", minLength: 2, required: true });
+  });
+
+  test("should skip patterns with flags that attributes cannot express", () => {
+    assert.deepStrictEqual(inputProps(text(v.pipe(v.string(), v.regex(/^[a-z]+$/i)))), {
+      type: "text",
+      required: true,
+    });
+  });
+
+  test("should use the email and url input types", () => {
+    assert.deepStrictEqual(inputProps(text(v.pipe(v.string(), v.email()))), {
+      type: "email",
+      required: true,
+    });
+    assert.deepStrictEqual(inputProps(v.optional(v.pipe(text(), v.url()))), { type: "url" });
+  });
+
+  test("should map number actions and allow any step by default", () => {
+    assert.deepStrictEqual(inputProps(numeric()), { type: "number", step: "any", required: true });
+    const schema = numeric(
+      v.optional(v.pipe(v.number(), v.integer(), v.minValue(1), v.maxValue(10))),
+    );
+    assert.deepStrictEqual(inputProps(schema), { type: "number", step: 1, min: 1, max: 10 });
+    assert.deepStrictEqual(inputProps(numeric(v.pipe(v.number(), v.multipleOf(0.5)))), {
+      type: "number",
+      step: 0.5,
+      required: true,
+    });
+  });
+
+  test("should describe the numeric variants", () => {
+    assert.deepStrictEqual(inputProps(numeric(undefined, { integer: true })), {
+      type: "number",
+      step: 1,
+      required: true,
+    });
+    assert.deepStrictEqual(inputProps(bigintField(v.pipe(v.bigint(), v.minValue(1n)))), {
+      type: "number",
+      step: 1,
+      min: "1",
+      required: true,
+    });
+    assert.deepStrictEqual(inputProps(decimalField(undefined, { scale: 2 })), {
+      type: "number",
+      step: 0.01,
+      required: true,
+    });
+  });
+
+  test("should describe localized numbers as text inputs", () => {
+    const schema = numeric(v.optional(v.pipe(v.number(), v.minValue(0))), { locale: "de-DE" });
+    assert.deepStrictEqual(inputProps(schema), { type: "text", inputMode: "decimal" });
+    assert.deepStrictEqual(inputProps(bigintField(undefined, { locale: "de-DE" })), {
+      type: "text",
+      inputMode: "numeric",
+      required: true,
+    });
+  });
+
+  test("should describe checkboxes", () => {
+    assert.deepStrictEqual(inputProps(checkbox()), { type: "checkbox", value: "on" });
+    assert.deepStrictEqual(inputProps(checkbox({ trueValue: "yes" })), {
+      type: "checkbox",
+      value: "yes",
+    });
+    assert.deepStrictEqual(inputProps(checkbox({ tristate: true })), {
+      type: "checkbox",
+      value: "on",
+    });
+  });
+
+  test("should map mime types to accept", () => {
+    const schema = file(v.pipe(v.instance(File), v.mimeType(["image/png", "image/jpeg"])));
+    assert.deepStrictEqual(inputProps(schema), {
+      type: "file",
+      accept: "image/png,image/jpeg",
+      required: true,
+    });
+  });
+
+  test("should describe repeatable fields as multiple", () => {
+    assert.deepStrictEqual(inputProps(repeatableOfType(file())), {
+      type: "file",
+      multiple: true,
+    });
+    const schema = repeatable(v.pipe(v.array(text(v.pipe(v.string(), v.email()))), v.minLength(1)));
+    assert.deepStrictEqual(inputProps(schema), { type: "email", multiple: true, required: true });
+  });
+
+  test("should use the temporal input types and options", () => {
+    assert.deepStrictEqual(inputProps(date(undefined, { min: "2026-01-01", step: 7 })), {
+      type: "date",
+      min: "2026-01-01",
+      step: 7,
+      required: true,
+    });
+    assert.deepStrictEqual(inputProps(datetimeLocal(v.optional(v.date()))), {
+      type: "datetime-local",
+    });
+  });
+
+  test("should describe plain schemas", () => {
+    assert.deepStrictEqual(inputProps(v.pipe(v.string(), v.maxLength(10))), { maxLength: 10 });
+  });
+});
+
+describe("fieldAttributes()", () => {
+  const schema = formData({
+    email: text(v.pipe(v.string(), v.email())),
+    age: numeric(v.optional(v.pipe(v.number(), v.integer(), v.minValue(18)))),
+    subscribe: checkbox(),
+    address: v.object({
+      zip: text(v.pipe(v.string(), v.regex(/^\d{5}$/))),
+    }),
+    range: v.tuple([numeric(), numeric()]),
+    tags: repeatable(),
+    locations: v.array(v.object({ city: text() })),
+    prices: v.record(v.string(), numeric()),
+  });
+
+  test("should return attributes keyed by field name", () => {
+    const fields = fieldAttributes(schema);
+    assert.deepStrictEqual(fields, {
+      email: { name: "email", type: "email", required: true },
+      age: { name: "age", type: "number", step: 1, min: 18 },
+      subscribe: { name: "subscribe", type: "checkbox", value: "on" },
+      "address.zip": { name: "address.zip", type: "text", pattern: "^\\d{5}$", required: true },
+      "range[0]": { name: "range[0]", type: "number", step: "any", required: true },
+      "range[1]": { name: "range[1]", type: "number", step: "any", required: true },
+      tags: { name: "tags", type: "text", multiple: true },
+    });
+    assert.strictEqual(fields.email?.name, "email");
+  });
+
+  test("should use the given notation", () => {
+    const fields = fieldAttributes(schema, { notation: "bracket" });
+    assert.deepStrictEqual(Object.keys(fields), [
+      "email",
+      "age",
+      "subscribe",
+      "address[zip]",
+      "range[0]",
+      "range[1]",
+      "tags",
+    ]);
+  });
+});
@@ -0,0 +1,458 @@
+import { getFieldKind, getWrappedSchema, isOptionalWrapper, unwrapSchema } from "./field-kind.ts";
+import { pathArrayToString } from "./path-array-to-string.ts";
+import type { FieldKind } from "./field-kind.ts";
+import type { FieldPath } from "./field-path.ts";
+import type { PathArrayToStringOptions, PathNotation } from "./path-array-to-string.ts";
+import type * as v from "valibot";
+
+/**
+ * HTML constraint attributes of a form field, derived from its schema.
+ * Only attributes that apply are set, so the object can be spread onto an input element.
+ */
+export type InputProps = {
+  /** Field name as parsed by formData() */
+  name?: string;
+  /** Input type, e.g. "text", "number", "email", "checkbox", "file", "date" or "hidden" */
+  type?: string;
+  /** Virtual keyboard of text inputs for localized numbers */
+  inputMode?: "numeric" | "decimal";
+  /** Set if the field requires a value */
+  required?: true;
+  /** Minimum value of number and temporal inputs */
+  min?: number | string;
+  /** Maximum value of number and temporal inputs */
+  max?: number | string;
+  /** Step of number and temporal inputs */
+  step?: number | "any";
+  /** Minimum length of text inputs */
+  minLength?: number;
+  /** Maximum length of text inputs */
+  maxLength?: number;
+  /** Regular expression the value of text inputs must match */
+  pattern?: string;
+  /** Accepted MIME types of file inputs */
+  accept?: string;
+  /** Set if the field accepts multiple values */
+  multiple?: true;
+  /** Submitted value of checkboxes */
+  value?: string;
+};
+
+/**
+ * Constraint attributes of every input field of a form schema, keyed by field name.
+ */
+export type FieldAttributes<
+  TSchema extends v.GenericSchema | v.GenericSchemaAsync,
+  TNotation extends PathNotation = "mixed",
+> = {
+  [TPath in FieldPath<TSchema, TNotation>]?: InputProps & { name: TPath };
+};
+
+/**
+ * Configuration options for fieldAttributes().
+ */
+export type FieldAttributesOptions<TNotation extends PathNotation = PathNotation> =
+  PathArrayToStringOptions & {
+    /** Notation used for the field names. Defaults to "mixed" (e.g. "items[0].name") */
+    notation?: TNotation;
+  };
+
+type Schema = v.GenericSchema | v.GenericSchemaAsync;
+type Action = { kind: string; type: string; requirement?: unknown };
+type ConstraintState = { optional: boolean; required: boolean };
+
+// Regular expression flags that change how a pattern attribute would match.
+const UNSUPPORTED_FLAGS_REGEX = /[^uv]/;
+
+/**
+ * Converts the regex of a schema to a pattern attribute. The attribute is matched against the
+ * whole value, so regexes that are not anchored at both ends are wrapped to match anywhere in
+ * the value, like in the schema.
+ *
+ * @param regex - Regex of a v.regex() action
+ * @returns The pattern attribute or undefined if the flags of the regex cannot be expressed
+ */
+function toPattern(regex: RegExp): string | undefined {
+  if (UNSUPPORTED_FLAGS_REGEX.test(regex.flags)) {
+    return undefined;
+  }
+  const { source } = regex;
+  // An alternation could be anchored on one side only, e.g. /^a|b$/.
+  const anchored =
+    source.startsWith("^") && /(?:^|[^\\])(?:\\\\)*\$$/.test(source) && !source.includes("|");
+  return anchored ? source : `.*(?:${source}).*`;
+}
+
+/**
+ * Applies a validation action of a pipe to the attributes.
+ *
+ * @param action - The validation action
+ * @param props - Attributes the constraint is added to (mutated)
+ */
+function applyAction(action: Action, props: InputProps): void {
+  const { requirement } = action;
+  switch (action.type) {
+    case "min_length":
+    case "max_length":
+    case "length":
+      if (typeof requirement === "number") {
+        if (action.type !== "max_length") {
+          props.minLength = requirement;
+        }
+        if (action.type !== "min_length") {
+          props.maxLength = requirement;
+        }
+      }
+      break;
+    case "min_value":
+      if (typeof requirement === "number") {
+        props.min = requirement;
+      } else if (typeof requirement === "bigint") {
+        props.min = String(requirement);
+      }
+      break;
+    case "max_value":
+      if (typeof requirement === "number") {
+        props.max = requirement;
+      } else if (typeof requirement === "bigint") {
+        props.max = String(requirement);
+      }
+      break;
+    case "integer":
+      props.step = 1;
+      break;
+    case "multiple_of":
+      if (typeof requirement === "number") {
+        props.step = requirement;
+      }
+      break;
+    case "regex":
+      if (requirement instanceof RegExp) {
+        const pattern = toPattern(requirement);
+        if (pattern !== undefined) {
+          props.pattern = pattern;
+        }
+      }
+      break;
+    case "email":
+    case "rfc_email":
+    case "url":
+      if (props.type === undefined || props.type === "text") {
+        props.type = action.type === "url" ? "url" : "email";
+      }
+      break;
+    case "mime_type":
+      if (Array.isArray(requirement)) {
+        props.accept = requirement.join(",");
+      }
+      break;
+  }
+}
+
+/**
+ * Returns the item schema of a repeatable() field and the length constraints of its array.
+ * Also used by the OpenAPI export.
+ *
+ * @param schema - Array schema passed to repeatable(), possibly piped or wrapped
+ * @returns Item schema and the minLength and maxLength requirements of the array
+ */
+export function getRepeatableItem(schema: Schema): {
+  item: Schema | undefined;
+  minLength: number | undefined;
+  maxLength: number | undefined;
+} {
+  const lengths: InputProps = {};
+  let current = schema;
+  while (true) {
+    if ("pipe" in current && Array.isArray(current.pipe)) {
+      for (const action of current.pipe.slice(1) as Array<Action>) {
+        if (action.kind === "validation") {
+          applyAction(action, lengths);
+        }
+      }
+      current = current.pipe[0] as Schema;
+    } else {
+      const wrapped = getWrappedSchema(current);
+      if (wrapped === undefined) {
+        break;
+      }
+      current = wrapped;
+    }
+  }
+  return {
+    item: "item" in current ? (current.item as Schema) : undefined,
+    minLength: lengths.minLength,
+    maxLength: lengths.maxLength,
+  };
+}
+
+/**
+ * Recursively collects the constraints of a schema, following wrappers and pipes.
+ *
+ * @param schema - Schema to introspect
+ * @param props - Attributes the constraints are added to (mutated)
+ * @param state - Whether an optional or a non-optional wrapper was seen (mutated)
+ */
+function collectConstraints(schema: Schema, props: InputProps, state: ConstraintState) {
+  const wrapped = getWrappedSchema(schema);
+  if (wrapped !== undefined) {
+    // v.nonOptional() and v.nonNullish() require a value, even if the wrapped schema is optional.
+    state.required ||= schema.type === "non_optional" || schema.type === "non_nullish";
+    state.optional ||= isOptionalWrapper(schema);
+    collectConstraints(wrapped, props, state);
+    return;
+  }
+
+  const kind = getFieldKind(schema);
+  if (kind !== undefined) {
+    collectKindConstraints(schema, kind, props, state);
+    return;
+  }
+
+  if ("pipe" in schema && Array.isArray(schema.pipe)) {
+    const [first, ...actions] = schema.pipe as [Schema, ...Array<Action>];
+    collectConstraints(first, props, state);
+    for (const action of actions) {
+      if (action.kind === "validation") {
+        applyAction(action, props);
+      }
+    }
+  } else if (schema.type === "undefined") {
+    state.optional = true;
+  } else if ("options" in schema && Array.isArray(schema.options)) {
+    const options = schema.options as Array<Schema>;
+    state.optional ||= options.some((option) => {
+      return isOptionalWrapper(option) || option.type === "undefined";
+    });
+  }
+}
+
+/**
+ * Collects the constraints of a schema created by one of the form helpers.
+ * The helpers end their pipe with the schema passed to them, which holds the constraints.
+ *
+ * @param schema - Schema created by a form helper
+ * @param kind - Field kind of the helper
+ * @param props - Attributes the constraints are added to (mutated)
+ * @param state - Whether an optional or a non-optional wrapper was seen (mutated)
+ */
+function collectKindConstraints(
+  schema: Schema,
+  kind: FieldKind,
+  props: InputProps,
+  state: ConstraintState,
+) {
+  const pipe = "pipe" in schema && Array.isArray(schema.pipe) ? (schema.pipe as Array<Schema>) : [];
+  const innerSchema = pipe.at(-1);
+
+  switch (kind.type) {
+    case "checkbox":
+      // Unchecked checkboxes are valid, so they are never required.
+      props.type = "checkbox";
+      props.value = kind.trueValue;
+      return;
+    case "json":
+      // The constraints of the schema apply to the parsed value, not to the submitted string.
+      props.type = "hidden";
+      if (innerSchema !== undefined) {
+        collectConstraints(innerSchema, {}, state);
+      }
+      if (!state.optional || state.required) {
+        props.required = true;
+      }
+      return;
+    case "repeatable": {
+      const { item, minLength = 0 } = getRepeatableItem(kind.schema);
+      if (item !== undefined) {
+        collectConstraints(item, props, { optional: false, required: false });
+      }
+      // Required items don't make the field required, only a minimum length does.
+      delete props.required;
+      if (props.type === "checkbox") {
+        // Checkbox groups have no attribute for a minimum number of checked boxes.
+        return;
+      }
+      props.multiple = true;
+      if (minLength > 0) {
+        props.required = true;
+      }
+      return;
+    }
+    case "delimited":
+      // The constraints of the item schema apply to each item, not to the submitted string.
+      props.type = "text";
+      return;
+    case "form":
+      return;
+    case "sort":
+      // Sort params are selects, which have no type attribute.
+      if (!state.optional || state.required) {
+        props.required = true;
+      }
+      return;
+    case "choice":
+      // Selects have no type attribute.
+      if (kind.control !== "select") {
+        props.type = kind.control;
+      }
+      break;
+    case "text":
+      props.type = "text";
+      break;
+    case "numeric":
+      if (kind.locale !== undefined) {
+        // Number inputs only accept unformatted numbers, so localized numbers are typed as text.
+        props.type = "text";
+        props.inputMode = kind.integer ? "numeric" : "decimal";
+        break;
+      }
+      props.type = "number";
+      if (kind.integer) {
+        props.step = 1;
+      } else if (kind.scale !== undefined) {
+        props.step = 10 ** -kind.scale;
+      }
+      break;
+    case "file":
+      props.type = "file";
+      break;
+    case "temporal":
+      props.type = kind.format;
+      if (kind.min !== undefined) {
+        props.min = kind.min;
+      }
+      if (kind.max !== undefined) {
+        props.max = kind.max;
+      }
+      if (kind.step !== undefined) {
+        props.step = kind.step;
+      }
+      break;
+  }
+
+  if (innerSchema !== undefined) {
+    collectConstraints(innerSchema, props, state);
+  }
+  if (kind.type === "numeric" && kind.locale !== undefined) {
+    // Text inputs have no bounds and steps.
+    delete props.min;
+    delete props.max;
+    delete props.step;
+  } else if (kind.type === "numeric") {
+    // Number inputs default to a step of 1, while numeric() accepts any number.
+    props.step ??= "any";
+  }
+  // Empty values become undefined, so a value is required unless the schema is optional.
+  if (!state.optional || state.required) {
+    props.required = true;
+  }
+}
+
+/**
+ * Returns the HTML constraint attributes of a form field, so validation rules only have to be
+ * written once in the schema. Understands the form helpers (text(), numeric(), checkbox(),
+ * file(), json(), repeatable() and the temporal helpers), optional-ness and the Valibot actions
+ * minLength, maxLength, length, minValue, maxValue, integer, multipleOf, regex, email, url and
+ * mimeType. Constraints that cannot be expressed as attributes are left out, so the server still
+ * has to validate the submission.
+ *
+ * @param schema - Schema of the field
+ * @param name - Optional field name, included as the `name` attribute
+ * @returns Attributes that apply to the field
+ *
+ * @example
+ * inputProps(text(v.pipe(v.string(), v.minLength(3))), "username");
+ * // → { name: "username", type: "text", minLength: 3, required: true }
+ *
+ * inputProps(file(v.optional(v.pipe(v.instance(File), v.mimeType(["image/png", "image/jpeg"])))));
+ * // → { type: "file", accept: "image/png,image/jpeg" }
+ */
+export function inputProps(schema: Schema, name?: string): InputProps {
+  const props: InputProps = name === undefined ? {} : { name };
+  collectConstraints(schema, props, { optional: false, required: false });
+  return props;
+}
+
+/**
+ * Recursively collects the attributes of every input field of a schema.
+ *
+ * @param schema - Schema of the value at the path
+ * @param path - Path of the value
+ * @param options - Notation of the field names
+ * @param result - Object the attributes are collected into (mutated)
+ */
+function collectFields(
+  schema: Schema,
+  path: Array<string | number>,
+  options: PathArrayToStringOptions,
+  result: Record<string, InputProps>,
+): void {
+  const innerSchema = unwrapSchema(schema);
+  const kind = getFieldKind(innerSchema);
+
+  const entries =
+    kind?.type === "form"
+      ? kind.entries
+      : kind === undefined && "entries" in innerSchema
+        ? (innerSchema.entries as v.ObjectEntries | v.ObjectEntriesAsync)
+        : undefined;
+  if (entries !== undefined) {
+    for (const [key, entry] of Object.entries(entries)) {
+      collectFields(entry, [...path, key], options, result);
+    }
+    return;
+  }
+  if (kind === undefined && "items" in innerSchema && Array.isArray(innerSchema.items)) {
+    for (const [index, item] of (innerSchema.items as Array<Schema>).entries()) {
+      collectFields(item, [...path, index], options, result);
+    }
+    return;
+  }
+  // Arrays and records have no fixed field names.
+  if (
+    path.length === 0 ||
+    (kind === undefined && ("item" in innerSchema || innerSchema.type === "record"))
+  ) {
+    return;
+  }
+
+  const name = pathArrayToString(path, options);
+  result[name] = inputProps(schema, name);
+}
+
+/**
+ * Returns the HTML constraint attributes of every input field of a form schema, keyed by the
+ * field names formData() expects. Nested objects and tuples are expanded; items of arrays of
+ * objects have no fixed names, use inputProps() with the indexed name for them.
+ * See inputProps() for the supported constraints.
+ *
+ * @param schema - Form schema, usually created with formData()
+ * @param options - Configuration options
+ * @returns Attributes of every input field keyed by field name
+ *
+ * @example
+ * const schema = formData({
+ *   email: text(v.pipe(v.string(), v.email())),
+ *   age: numeric(v.optional(v.pipe(v.number(), v.integer(), v.minValue(18)))),
+ *   address: v.object({ zip: text(v.pipe(v.string(), v.regex(/^\d{5}$/))) }),
+ * });
+ *
+ * const fields = fieldAttributes(schema);
+ * <input {...fields.email} />;
+ * // → { name: "email", type: "email", required: true }
+ * <input {...fields.age} />;
+ * // → { name: "age", type: "number", step: 1, min: 18 }
+ * <input {...fields["address.zip"]} />;
+ * // → { name: "address.zip", type: "text", pattern: "^\\d{5}$", required: true }
+ */
+export function fieldAttributes<
+  TSchema extends v.GenericSchema | v.GenericSchemaAsync,
+  TNotation extends PathNotation = "mixed",
+>(
+  schema: TSchema,
+  options: FieldAttributesOptions<TNotation> = {},
+): FieldAttributes<TSchema, TNotation> {
+  const result: Record<string, InputProps> = {};
+  collectFields(schema, [], options, result);
+  return result as FieldAttributes<TSchema, TNotation>;
+}
@@ -0,0 +1,101 @@
+import * as assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import * as v from "valibot";
+import { formData, text } from "./form-data-schema.ts";
+import { inputProps } from "./input-props.ts";
+import { json } from "./json.ts";
+import { toOpenApiRequestBody } from "./openapi.ts";
+import { toFormData } from "./to-form-data.ts";
+
+describe("json()", () => {
+  const blocks = v.object({ blocks: v.array(v.string()) });
+
+  test("should parse JSON and validate the parsed value", () => {
+    const schema = json(blocks);
+    assert.deepStrictEqual(v.parse(schema, '{"blocks":["Hello"]}'), { blocks: ["Hello"] });
+    assert.deepStrictEqual(v.parse(json(v.array(v.number())), " [1, 2] "), [1, 2]);
+
+    const result = v.safeParse(schema, '{"blocks":[1]}');
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(v.getDotPath(result.issues[0]), "blocks.0");
+  });
+
+  test("should transform empty strings to undefined", () => {
+    assert.strictEqual(v.safeParse(json(blocks), "").success, false);
+    assert.strictEqual(v.safeParse(json(blocks), undefined).success, false);
+    assert.strictEqual(v.parse(json(v.optional(blocks)), ""), undefined);
+    assert.strictEqual(v.parse(json(v.nullable(blocks)), "null"), null);
+  });
+
+  test("should report syntax errors as issues", () => {
+    const result = v.safeParse(json(blocks), "{blocks}");
+    assert.strictEqual(result.success, false);
+    assert.match(result.issues[0].message, /^Invalid JSON: /);
+    assert.strictEqual(result.issues[0].expected, "JSON");
+  });
+
+  test("should reject payloads longer than maxLength", () => {
+    const schema = json(v.string(), { maxLength: 10 });
+    assert.strictEqual(v.parse(schema, '"12345678"'), "12345678");
+    const result = v.safeParse(schema, '"123456789"');
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.issues[0].message, "Invalid length: Expected <=10 but received 11");
+  });
+
+  test("should reject payloads nested deeper than maxDepth", () => {
+    const schema = json(v.unknown(), { maxDepth: 2 });
+    assert.deepStrictEqual(v.parse(schema, '{"a":[1]}'), { a: [1] });
+    assert.deepStrictEqual(v.parse(schema, '["[[[", "{{{"]'), ["[[[", "{{{"]);
+    assert.deepStrictEqual(v.parse(schema, '["\\"[[["]'), ['"[[[']);
+
+    const result = v.safeParse(schema, '{"a":[[1]]}');
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(
+      result.issues[0].message,
+      "Invalid JSON: Expected a nesting depth of at most 2 but received 3",
+    );
+    assert.strictEqual(v.safeParse(json(v.unknown()), "[".repeat(65)).success, false);
+  });
+
+  test("should render as a hidden input", () => {
+    assert.deepStrictEqual(inputProps(json(blocks), "payload"), {
+      name: "payload",
+      type: "hidden",
+      required: true,
+    });
+    const tags = json(v.optional(v.pipe(v.array(v.string()), v.minLength(1))));
+    assert.deepStrictEqual(inputProps(tags), { type: "hidden" });
+  });
+});
+
+describe("json fields in forms", () => {
+  const schema = formData({
+    title: text(),
+    payload: json(v.object({ blocks: v.array(v.string()) })),
+  });
+
+  test("should report issues on the field path", () => {
+    const data = new FormData();
+    data.append("title", "Post");
+    data.append("payload", "{");
+    const result = v.safeParse(schema, data);
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(v.getDotPath(result.issues[0]), "payload");
+  });
+
+  test("should round-trip through toFormData()", () => {
+    const value: v.InferOutput<typeof schema> = { title: "Post", payload: { blocks: ["a", "b"] } };
+    const data = toFormData(schema, value);
+    assert.strictEqual(data.get("payload"), '{"blocks":["a","b"]}');
+    assert.deepStrictEqual(v.parse(schema, data), value);
+  });
+
+  test("should describe the field as a JSON string in OpenAPI", () => {
+    const multipart = toOpenApiRequestBody(schema).content["multipart/form-data"];
+    assert.deepStrictEqual(multipart?.schema.properties, {
+      title: { type: "string" },
+      payload: { type: "string", contentMediaType: "application/json" },
+    });
+    assert.deepStrictEqual(multipart.encoding, { payload: { contentType: "application/json" } });
+  });
+});
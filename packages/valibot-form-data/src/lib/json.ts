@@ -0,0 +1,132 @@
+import * as v from "valibot";
+import { defineFieldKind } from "./field-kind.ts";
+import { emptyToUndefined } from "./form-data-schema.ts";
+
+/**
+ * Configuration options for json().
+ * The limits protect against resource exhaustion from untrusted payloads,
+ * set a limit to Infinity to disable it.
+ */
+export type JsonOptions = {
+  /** Maximum length of the submitted JSON string. Defaults to 100000 */
+  maxLength?: number;
+  /** Maximum nesting depth of arrays and objects (e.g. `{"a":[1]}` has 2). Defaults to 64 */
+  maxDepth?: number;
+};
+
+/**
+ * Schema of a JSON field.
+ */
+type JsonFieldSchema<TSchema extends v.GenericSchema> = v.SchemaWithPipe<
+  readonly [
+    ReturnType<typeof emptyToUndefined>,
+    v.RawTransformAction<string | undefined, unknown>,
+    TSchema,
+  ]
+>;
+
+/**
+ * Returns the maximum nesting depth of arrays and objects in a JSON string, ignoring brackets
+ * inside strings. Scanning before parsing avoids building deeply nested values.
+ *
+ * @param input - JSON string
+ * @returns The nesting depth, 0 for scalar values
+ */
+function getJsonDepth(input: string): number {
+  let depth = 0;
+  let maxDepth = 0;
+  let inString = false;
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+    if (inString) {
+      if (char === "\\") {
+        index++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "[" || char === "{") {
+      depth++;
+      maxDepth = Math.max(maxDepth, depth);
+    } else if (char === "]" || char === "}") {
+      depth--;
+    }
+  }
+  return maxDepth;
+}
+
+/**
+ * Internal helper that parses submitted JSON strings within the length and depth limits,
+ * handling undefined passthrough. Used after emptyToUndefined() which can produce string | undefined.
+ *
+ * @param options - Limits of the submitted JSON
+ * @returns Valibot action that transforms the submitted string to the parsed value
+ */
+function parseJson(options: JsonOptions) {
+  const { maxLength = 100_000, maxDepth = 64 } = options;
+
+  return v.rawTransform<string | undefined, unknown>(({ dataset, addIssue, NEVER }) => {
+    const input = dataset.value;
+    if (input === undefined) {
+      return undefined;
+    }
+
+    if (input.length > maxLength) {
+      addIssue({
+        message: `Invalid length: Expected <=${maxLength} but received ${input.length}`,
+        expected: `<=${maxLength}`,
+        received: `${input.length}`,
+      });
+      return NEVER;
+    }
+    const depth = getJsonDepth(input);
+    if (depth > maxDepth) {
+      addIssue({
+        message: `Invalid JSON: Expected a nesting depth of at most ${maxDepth} but received ${depth}`,
+        expected: `<=${maxDepth}`,
+        received: `${depth}`,
+      });
+      return NEVER;
+    }
+
+    try {
+      return JSON.parse(input) as unknown;
+    } catch (error) {
+      addIssue({
+        message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+        expected: "JSON",
+        received: `"${input}"`,
+      });
+      return NEVER;
+    }
+  });
+}
+
+/**
+ * Schema for fields carrying a JSON payload, e.g. a hidden input holding the state of a rich
+ * editor or a client widget. Empty strings are transformed to undefined, the submitted string
+ * is parsed as JSON within the length and depth limits, and the provided schema validates the
+ * parsed value. Syntax errors are reported as issues of the field.
+ *
+ * @param schema - Schema to validate the parsed value. Use v.optional() to accept an empty field
+ * @param options - Maximum length and nesting depth of the submitted JSON
+ * @returns Valibot schema that converts empty strings to undefined, parses JSON, then applies the provided schema
+ *
+ * @example
+ * const payload = json(v.object({ blocks: v.array(v.string()) }));
+ * payload.parse('{"blocks":["Hello"]}'); // → { blocks: ["Hello"] }
+ * payload.parse("{blocks}");             // → ValidationError ("Invalid JSON: ...")
+ * payload.parse("");                     // → ValidationError
+ *
+ * const optionalPayload = json(v.optional(v.array(v.number())), { maxLength: 1000 });
+ * optionalPayload.parse("");             // → undefined
+ */
+export function json<TSchema extends v.BaseSchema<unknown, unknown, v.BaseIssue<unknown>>>(
+  schema: TSchema,
+  options: JsonOptions = {},
+): JsonFieldSchema<TSchema> {
+  return defineFieldKind(v.pipe(emptyToUndefined(), parseJson(options), schema), {
+    type: "json",
+  });
+}
@@ -0,0 +1,214 @@
+import { getFieldKind, isOptionalSchema, unwrapSchema } from "./field-kind.ts";
+import type * as v from "valibot";
+
+type Schema = v.GenericSchema | v.GenericSchemaAsync;
+type Entries = v.ObjectEntries | v.ObjectEntriesAsync;
+
+// Valibot object schema types whose entries are made partial by formDataPatch().
+const PARTIAL_OBJECT_TYPES = new Set(["loose_object", "object", "strict_object"]);
+
+/**
+ * Checks if a value is an object created from form entries, i.e. not an array or a File.
+ *
+ * @param value - Value to check
+ * @returns Type predicate indicating if value is a plain object
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === null || prototype === Object.prototype;
+}
+
+/**
+ * Returns the option of a variant schema whose discriminator matches the value.
+ *
+ * @param schema - Variant schema
+ * @param value - Object to match
+ * @returns The matching option or undefined
+ */
+export function findVariantOption(
+  schema: Schema,
+  value: Record<string, unknown>,
+): Schema | undefined {
+  if (!("key" in schema && "options" in schema) || typeof schema.key !== "string") {
+    return undefined;
+  }
+  const key = schema.key;
+  return (schema.options as Array<Schema>).find((option) => {
+    const inner = unwrapSchema(option);
+    const discriminator = "entries" in inner ? (inner.entries as Entries)[key] : undefined;
+    if (discriminator === undefined) {
+      return false;
+    }
+    const literal = unwrapSchema(discriminator);
+    if ("literal" in literal) {
+      return literal.literal === value[key];
+    }
+    return "options" in literal && Array.isArray(literal.options)
+      ? literal.options.includes(value[key])
+      : false;
+  });
+}
+
+/**
+ * Returns the object option of a union schema that declares every key of the value.
+ *
+ * @param schema - Union schema
+ * @param value - Object to match
+ * @returns The matching option or undefined
+ */
+export function findUnionOption(
+  schema: Schema,
+  value: Record<string, unknown>,
+): Schema | undefined {
+  if (!("options" in schema) || !Array.isArray(schema.options)) {
+    return undefined;
+  }
+  return (schema.options as Array<Schema>).find((option) => {
+    const inner = unwrapSchema(option);
+    return (
+      "entries" in inner &&
+      Object.keys(value).every((key) => Object.hasOwn(inner.entries as Entries, key))
+    );
+  });
+}
+
+/**
+ * Adds the missing keys of object entries to an object (mutated), filling nested values.
+ *
+ * @param entries - Entries of the object schema
+ * @param value - Object built from the form entries
+ */
+export function fillMissingKeys(entries: Entries, value: Record<string, unknown>): void {
+  for (const [key, schema] of Object.entries(entries)) {
+    value[key] = fillValue(schema, value[key]);
+  }
+}
+
+/**
+ * Adds the missing keys of the value of a form schema (mutated), filling nested values. For
+ * unions and variants, only the keys of the option matching the value are added.
+ *
+ * @param schema - Object, union or variant schema of the form
+ * @param value - Object built from the form entries
+ */
+export function fillMissingValues(schema: Schema, value: Record<string, unknown>): void {
+  fillValue(schema, value);
+}
+
+/**
+ * Recursively materializes the missing parts of a value described by a schema, so helpers
+ * like checkbox() and repeatable() receive undefined at any depth instead of failing because
+ * their container is missing. Missing objects, tuples and arrays are created unless they are
+ * optional, existing arrays have their items filled, and unions and variants are filled with the option
+ * matching the value.
+ *
+ * @param schema - Schema of the value
+ * @param value - Value built from the form entries, or undefined if nothing was submitted
+ * @returns The value with its missing containers and keys
+ */
+function fillValue(schema: Schema, value: unknown): unknown {
+  const inner = unwrapSchema(schema);
+  const kind = getFieldKind(inner);
+
+  if (kind?.type === "repeatable") {
+    return Array.isArray(value) ? fillValue(kind.schema, value) : value;
+  }
+  if (kind !== undefined && kind.type !== "form") {
+    return value;
+  }
+
+  const entries =
+    kind?.type === "form"
+      ? kind.entries
+      : "entries" in inner
+        ? (inner.entries as Entries)
+        : undefined;
+  if (entries !== undefined) {
+    const result = value === undefined && !isOptionalSchema(schema) ? Object.create(null) : value;
+    if (isPlainObject(result)) {
+      fillMissingKeys(entries, result);
+    }
+    return result;
+  }
+
+  if ("items" in inner && Array.isArray(inner.items)) {
+    const result = value === undefined && !isOptionalSchema(schema) ? [] : value;
+    if (Array.isArray(result)) {
+      for (const [index, item] of (inner.items as Array<Schema>).entries()) {
+        result[index] = fillValue(item, result[index]);
+      }
+    }
+    return result;
+  }
+
+  if ("item" in inner) {
+    // An empty array submits no entries, so a missing array is empty unless it is optional.
+    const result =
+      value === undefined && inner.type === "array" && !isOptionalSchema(schema) ? [] : value;
+    if (Array.isArray(result)) {
+      for (let index = 0; index < result.length; index++) {
+        result[index] = fillValue(inner.item as Schema, result[index]);
+      }
+    }
+    return result;
+  }
+
+  if (isPlainObject(value)) {
+    const option =
+      inner.type === "variant" ? findVariantOption(inner, value) : findUnionOption(inner, value);
+    return option === undefined ? value : fillValue(option, value);
+  }
+
+  return value;
+}
+
+/**
+ * Returns the entries of a nested object that is parsed partially by formDataPatch(), following
+ * optional/nullable-style wrappers but not pipes, as the actions of a pipe (e.g. cross-field
+ * checks) need the complete object.
+ *
+ * @param schema - Schema of the value
+ * @returns The object entries or undefined if the value is parsed as a whole
+ */
+export function getPartialEntries(schema: Schema): Entries | undefined {
+  let current = schema;
+  while (getFieldKind(current) === undefined && "wrapped" in current) {
+    current = current.wrapped as Schema;
+  }
+  const kind = getFieldKind(current);
+  if (kind?.type === "form") {
+    return kind.entries;
+  }
+  return kind === undefined &&
+    !("pipe" in current) &&
+    PARTIAL_OBJECT_TYPES.has(current.type) &&
+    "entries" in current
+    ? (current.entries as Entries)
+    : undefined;
+}
+
+/**
+ * Fills the submitted keys of object entries in an object (mutated), leaving the missing keys
+ * out. Nested objects parsed partially are filled the same way, other values like
+ * fillMissingKeys().
+ *
+ * @param entries - Entries of the object schema
+ * @param value - Object built from the form entries
+ */
+export function fillSubmittedKeys(entries: Entries, value: Record<string, unknown>): void {
+  for (const [key, schema] of Object.entries(entries)) {
+    if (!Object.hasOwn(value, key)) {
+      continue;
+    }
+    const partialEntries = getPartialEntries(schema);
+    const nested = value[key];
+    if (partialEntries === undefined) {
+      value[key] = fillValue(schema, nested);
+    } else if (isPlainObject(nested)) {
+      fillSubmittedKeys(partialEntries, nested);
+    }
+  }
+}
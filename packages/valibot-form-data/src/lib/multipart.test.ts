@@ -0,0 +1,322 @@
+import * as assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import * as v from "valibot";
+import { file, formData, repeatableOfType, text } from "./form-data-schema.ts";
+import { parseMultipart } from "./multipart.ts";
+import { parseRequest } from "./parse-request.ts";
+import type { MultipartStorage } from "./multipart.ts";
+
+/**
+ * Encodes FormData the way a browser would, returning the body and its Content-Type.
+ */
+async function encode(data: FormData) {
+  const request = new Request("http://localhost/", { method: "POST", body: data });
+  return {
+    bytes: new Uint8Array(await request.arrayBuffer()),
+    contentType: request.headers.get("Content-Type"),
+  };
+}
+
+/**
+ * Splits bytes into chunks of the given size and counts how many chunks were read.
+ */
+function chunked(bytes: Uint8Array, size: number) {
+  const stats = { chunksRead: 0 };
+  async function* generate() {
+    for (let offset = 0; offset < bytes.length; offset += size) {
+      stats.chunksRead++;
+      yield bytes.subarray(offset, offset + size);
+    }
+  }
+  return { body: generate(), stats };
+}
+
+function getIssues(result: Awaited<ReturnType<typeof parseMultipart>>) {
+  assert.ok(!result.success);
+  return result.issues.map((issue) => ({ message: issue.message, path: v.getDotPath(issue) }));
+}
+
+describe("parseMultipart()", () => {
+  test("should parse fields and files", async () => {
+    const data = new FormData();
+    data.append("name", "Zoë");
+    data.append("tags", "a");
+    data.append("tags", "b");
+    data.append("avatar", new File(["PNG data"], "me.png", { type: "image/png" }));
+    const { bytes, contentType } = await encode(data);
+
+    const result = await parseMultipart(new Blob([bytes]).stream(), contentType);
+    assert.ok(result.success);
+    assert.deepStrictEqual(result.entries.slice(0, 3), [
+      ["name", "Zoë"],
+      ["tags", "a"],
+      ["tags", "b"],
+    ]);
+    const [avatarName, avatar] = result.entries[3] ?? [];
+    assert.strictEqual(avatarName, "avatar");
+    assert.ok(avatar instanceof File);
+    assert.strictEqual(avatar.name, "me.png");
+    assert.strictEqual(avatar.type, "image/png");
+    assert.strictEqual(await avatar.text(), "PNG data");
+  });
+
+  test("should read escaped and quoted field names like url encoded bodies", async () => {
+    const data = new FormData();
+    data.append("user\\.email", "a@example.com");
+    data.append('["user.name"]', "John");
+    data.append("note", new File(["x"], 'say "hi"\\.txt'));
+    const { bytes, contentType } = await encode(data);
+
+    const result = await parseMultipart(chunked(bytes, 64).body, contentType);
+    assert.ok(result.success);
+    assert.deepStrictEqual(result.entries.slice(0, 2), [
+      ["user\\.email", "a@example.com"],
+      ['["user.name"]', "John"],
+    ]);
+    assert.strictEqual((result.entries[2]?.[1] as File).name, 'say "hi"\\.txt');
+
+    const schema = formData({ "user.email": text(), "user.name": text() });
+    const expected = { "user.email": "a@example.com", "user.name": "John" };
+    data.delete("note");
+    const request = new Request("http://localhost/", { method: "POST", body: data });
+    assert.deepStrictEqual(await parseRequest(schema, request), {
+      success: true,
+      output: expected,
+    });
+  });
+
+  test("should handle boundaries split across chunks", async () => {
+    const data = new FormData();
+    data.append("name", "John");
+    data.append("document", new File(["line 1\r\nline 2\r\n--"], "notes.txt"));
+    const { bytes, contentType } = await encode(data);
+
+    const result = await parseMultipart(chunked(bytes, 1).body, contentType);
+    assert.ok(result.success);
+    assert.deepStrictEqual(result.entries[0], ["name", "John"]);
+    const document = result.entries[1]?.[1];
+    assert.ok(document instanceof File);
+    assert.strictEqual(await document.text(), "line 1\r\nline 2\r\n--");
+    assert.strictEqual(document.type, "application/octet-stream");
+  });
+
+  test("should produce entries compatible with formData() and file()", async () => {
+    // Browsers submit empty file inputs with an empty filename
+    const body = [
+      "--X",
+      'Content-Disposition: form-data; name="name"',
+      "",
+      "John",
+      "--X",
+      'Content-Disposition: form-data; name="avatar"; filename=""',
+      "Content-Type: application/octet-stream",
+      "",
+      "",
+      "--X",
+      'Content-Disposition: form-data; name="documents"; filename="a.txt"',
+      "",
+      "a",
+      "--X",
+      'Content-Disposition: form-data; name="documents"; filename="b.txt"',
+      "",
+      "b",
+      "--X--",
+    ].join("\r\n");
+    const bytes = new TextEncoder().encode(body);
+    const contentType = "multipart/form-data; boundary=X";
+
+    const schema = formData({
+      name: text(),
+      avatar: file(v.optional(v.instance(File))),
+      documents: repeatableOfType(file()),
+    });
+    const result = await parseMultipart(chunked(bytes, 16).body, contentType);
+    assert.ok(result.success);
+    const output = v.parse(schema, result.entries);
+    assert.strictEqual(output.avatar, undefined);
+    assert.deepStrictEqual(
+      output.documents.map((document) => document.name),
+      ["a.txt", "b.txt"],
+    );
+  });
+
+  test("should stop at files larger than maxFileSize", async () => {
+    const data = new FormData();
+    data.append("documents[0]", new File(["small"], "a.txt"));
+    data.append("documents[1]", new File(["x".repeat(10_000)], "b.txt"));
+    data.append("name", "John");
+    const { bytes, contentType } = await encode(data);
+
+    const { body, stats } = chunked(bytes, 100);
+    const result = await parseMultipart(body, contentType, { maxFileSize: 1000 });
+    assert.deepStrictEqual(getIssues(result), [
+      { message: "Too large: Expected file of at most 1000 bytes", path: "documents.1" },
+    ]);
+    assert.ok(stats.chunksRead < Math.ceil(bytes.length / 100) / 2);
+  });
+
+  test("should report appended fields on their array item", async () => {
+    const data = new FormData();
+    data.append("photos[]", new File(["small"], "a.jpg"));
+    data.append("photos[]", new File(["x".repeat(10_000)], "b.jpg"));
+    const { bytes, contentType } = await encode(data);
+
+    const result = await parseMultipart(chunked(bytes, 100).body, contentType, {
+      maxFileSize: 1000,
+    });
+    assert.deepStrictEqual(getIssues(result), [
+      { message: "Too large: Expected file of at most 1000 bytes", path: "photos.1" },
+    ]);
+  });
+
+  test("should limit the number of files", async () => {
+    const data = new FormData();
+    data.append("documents", new File(["a"], "a.txt"));
+    data.append("documents", new File(["b"], "b.txt"));
+    data.append("avatar", new File([], ""));
+    data.append("extra", new File(["c"], "c.txt"));
+    const { bytes, contentType } = await encode(data);
+
+    const result = await parseMultipart(chunked(bytes, 64).body, contentType, { maxFiles: 2 });
+    assert.deepStrictEqual(getIssues(result), [
+      { message: "Too many files: Expected at most 2", path: "extra" },
+    ]);
+  });
+
+  test("should limit the size of fields and part headers", async () => {
+    const data = new FormData();
+    data.append("bio", "x".repeat(200));
+    const { bytes, contentType } = await encode(data);
+    const fieldResult = await parseMultipart(chunked(bytes, 64).body, contentType, {
+      maxFieldSize: 100,
+    });
+    assert.deepStrictEqual(getIssues(fieldResult), [
+      { message: "Too large: Expected field of at most 100 bytes", path: "bio" },
+    ]);
+
+    const headerResult = await parseMultipart(chunked(bytes, 64).body, contentType, {
+      maxHeaderSize: 10,
+    });
+    assert.deepStrictEqual(getIssues(headerResult), [
+      { message: "Too large: Expected part headers of at most 10 bytes", path: null },
+    ]);
+  });
+
+  test("should reject fields that are not allowed before reading them", async () => {
+    const data = new FormData();
+    data.append("user.name", "John");
+    data.append("payload[0]", new File(["x".repeat(1000)], "payload.bin"));
+    const { bytes, contentType } = await encode(data);
+
+    const result = await parseMultipart(chunked(bytes, 64).body, contentType, {
+      allowedFields: ["user", "avatar"],
+    });
+    assert.deepStrictEqual(getIssues(result), [
+      {
+        message: 'Invalid field: Expected user | avatar but received "payload[0]"',
+        path: "payload.0",
+      },
+    ]);
+  });
+
+  test("should skip fields that are not allowed without storing them", async () => {
+    const data = new FormData();
+    data.append("user.name", "John");
+    data.append("_csrf", "token");
+    data.append("payload[0]", new File(["x".repeat(1000)], "payload.bin"));
+    const { bytes, contentType } = await encode(data);
+
+    const created: Array<string> = [];
+    const result = await parseMultipart(chunked(bytes, 64).body, contentType, {
+      allowedFields: ["user"],
+      disallowedFields: "skip",
+      maxFiles: 0,
+      storage: {
+        create(info) {
+          created.push(info.fieldName);
+          return {
+            write: () => undefined,
+            close: () => new File([], info.filename),
+          };
+        },
+      },
+    });
+    assert.deepStrictEqual(result, { success: true, entries: [["user.name", "John"]] });
+    assert.deepStrictEqual(created, []);
+  });
+
+  test("should spool files to a custom storage", async () => {
+    const events: Array<string> = [];
+    const storage: MultipartStorage = {
+      create(info) {
+        let size = 0;
+        events.push(`create ${info.fieldName} ${info.filename} ${info.type}`);
+        return {
+          write(chunk) {
+            size += chunk.length;
+          },
+          close() {
+            events.push(`close ${size}`);
+            return new File([], info.filename);
+          },
+          abort() {
+            events.push("abort");
+          },
+        };
+      },
+    };
+    const data = new FormData();
+    data.append("a", new File(["x".repeat(500)], "a.txt", { type: "text/plain" }));
+    data.append("b", new File(["x".repeat(5000)], "b.txt", { type: "text/plain" }));
+    const { bytes, contentType } = await encode(data);
+
+    const result = await parseMultipart(chunked(bytes, 128).body, contentType, {
+      storage,
+      maxFileSize: 1000,
+    });
+    assert.ok(!result.success);
+    assert.deepStrictEqual(events, [
+      "create a a.txt text/plain",
+      "close 500",
+      "create b b.txt text/plain",
+      "abort",
+    ]);
+  });
+
+  test("should reject malformed bodies and missing boundaries", async () => {
+    const data = new FormData();
+    data.append("name", "John");
+    const { bytes, contentType } = await encode(data);
+
+    const truncated = await parseMultipart(
+      chunked(bytes.subarray(0, bytes.length - 10), 64).body,
+      contentType,
+    );
+    assert.deepStrictEqual(getIssues(truncated), [
+      { message: "Invalid body: Malformed multipart/form-data", path: null },
+    ]);
+
+    const missingBoundary = await parseMultipart(chunked(bytes, 64).body, "multipart/form-data");
+    assert.deepStrictEqual(getIssues(missingBoundary), [
+      {
+        message:
+          'Invalid content type: Expected multipart/form-data with boundary but received "multipart/form-data"',
+        path: null,
+      },
+    ]);
+  });
+
+  test("should be used by parseRequest() with the multipart option", async () => {
+    const data = new FormData();
+    data.append("name", "John");
+    data.append("avatar", new File(["x".repeat(100)], "me.png"));
+    const request = new Request("http://localhost/", { method: "POST", body: data });
+    const schema = formData({ name: text(), avatar: file() });
+
+    const result = await parseRequest(schema, request, { multipart: { maxFileSize: 50 } });
+    assert.ok(!result.success);
+    assert.deepStrictEqual(result.fieldErrors, {
+      avatar: ["Too large: Expected file of at most 50 bytes"],
+    });
+  });
+});
@@ -0,0 +1,444 @@
+import { toIssuePath } from "./form-data-schema.ts";
+import { readStream, requestIssue } from "./request-body.ts";
+import { resolvePath, setPath } from "./set-path.ts";
+import { stringToPathArray } from "./string-to-path-array.ts";
+import type { RequestIssue } from "./request-body.ts";
+
+/**
+ * Information about a file part, passed to a MultipartStorage.
+ */
+export type MultipartFileInfo = {
+  /** Field name of the part */
+  fieldName: string;
+  /** File name submitted by the client */
+  filename: string;
+  /** Content type submitted by the client. Defaults to "application/octet-stream" */
+  type: string;
+};
+
+/**
+ * Receives the content of a single file part while it is being parsed.
+ */
+export type MultipartFileWriter = {
+  /** Called for every chunk of the file content */
+  write: (chunk: Uint8Array) => void | Promise<void>;
+  /** Called after the last chunk, returns the File passed to the form schema */
+  close: () => File | Promise<File>;
+  /** Called if parsing stops before the file is complete, e.g. to remove a temporary file */
+  abort?: () => void | Promise<void>;
+};
+
+/**
+ * Pluggable storage for uploaded files, e.g. to spool large files to disk or object storage
+ * instead of keeping them in memory.
+ */
+export type MultipartStorage = {
+  /** Called when a file part starts */
+  create: (info: MultipartFileInfo) => MultipartFileWriter | Promise<MultipartFileWriter>;
+};
+
+/**
+ * Configuration options for parseMultipart().
+ */
+export type MultipartOptions = {
+  /** Maximum size of a single file in bytes. Defaults to 10 MiB */
+  maxFileSize?: number;
+  /** Maximum number of files. Defaults to 10 */
+  maxFiles?: number;
+  /** Maximum size of a single non-file field in bytes. Defaults to 1 MiB */
+  maxFieldSize?: number;
+  /** Maximum size of the headers of a single part in bytes. Defaults to 8 KiB */
+  maxHeaderSize?: number;
+  /** Maximum number of parts. Defaults to 1000 */
+  maxParts?: number;
+  /**
+   * Allowed top-level field names, e.g. Object.keys(schema.entries). Parts of other fields are
+   * handled with disallowedFields before their content is read. Defaults to allowing every
+   * field, parseRequest() defaults to the fields of the formData() shape
+   */
+  allowedFields?: ReadonlyArray<string>;
+  /**
+   * How parts of fields that are not in allowedFields are handled: "error" stops parsing with an
+   * issue, "skip" reads past their content without storing it and leaves them out of the
+   * entries. Defaults to "error", parseRequest() defaults to the unknownKeys option of formData()
+   */
+  disallowedFields?: "error" | "skip";
+  /** Storage for file parts. Defaults to keeping files in memory */
+  storage?: MultipartStorage;
+};
+
+/**
+ * Result of parseMultipart(), either the parsed entries or the issue that stopped parsing.
+ */
+export type MultipartResult =
+  | { success: true; entries: Array<[string, string | File]> }
+  | { success: false; issues: [RequestIssue] };
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const CRLF = textEncoder.encode("\r\n");
+const HEADER_END = textEncoder.encode("\r\n\r\n");
+
+// Regular expression to match the boundary parameter of a multipart content type.
+const BOUNDARY_REGEX = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i;
+
+// Regular expression to match the quoted or unquoted parameters of a Content-Disposition header.
+// Backslashes are no escapes in form data, browsers percent-encode quotes instead.
+const DISPOSITION_PARAMETER_REGEX = /;\s*([\w*]+)=(?:"([^"]*)"|([^;\s]*))/g;
+
+// Characters that browsers percent-encode in the names and filenames of parts.
+const ENCODED_CHARACTERS: Record<string, string> = { "%22": '"', "%0D": "\r", "%0A": "\n" };
+
+/**
+ * Storage that keeps files in memory, used when no storage is configured.
+ */
+const memoryStorage: MultipartStorage = {
+  create(info) {
+    const chunks: Array<Uint8Array<ArrayBuffer>> = [];
+    return {
+      write(chunk) {
+        chunks.push(chunk.slice());
+      },
+      close() {
+        return new File(chunks, info.filename, { type: info.type });
+      },
+    };
+  },
+};
+
+/**
+ * Finds the first occurrence of a byte sequence.
+ *
+ * @param haystack - Bytes to search in
+ * @param needle - Byte sequence to search for
+ * @returns Index of the first occurrence or -1 if not found
+ */
+function indexOf(haystack: Uint8Array, needle: Uint8Array): number {
+  const [first] = needle;
+  let index = haystack.indexOf(first ?? 0);
+  while (index !== -1 && index <= haystack.length - needle.length) {
+    let offset = 1;
+    while (offset < needle.length && haystack[index + offset] === needle[offset]) {
+      offset++;
+    }
+    if (offset === needle.length) {
+      return index;
+    }
+    index = haystack.indexOf(first ?? 0, index + 1);
+  }
+  return -1;
+}
+
+/**
+ * Concatenates byte arrays.
+ */
+function concat(...arrays: Array<Uint8Array>): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(arrays.reduce((size, array) => size + array.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
+
+/**
+ * Parses the headers of a part.
+ *
+ * @param bytes - Header block without the trailing empty line
+ * @returns Header values keyed by lowercase header name
+ */
+function parseHeaders(bytes: Uint8Array): Map<string, string> {
+  const headers = new Map<string, string>();
+  for (const line of textDecoder.decode(bytes).split("\r\n")) {
+    const separator = line.indexOf(":");
+    if (separator > 0) {
+      headers.set(line.slice(0, separator).trim().toLowerCase(), line.slice(separator + 1).trim());
+    }
+  }
+  return headers;
+}
+
+/**
+ * Parses the name and filename parameters of a Content-Disposition header. Like the HTML spec
+ * encodes them, only `%22`, `%0D` and `%0A` are decoded and backslashes are kept, so names such
+ * as "user\.email" or '["user.email"]' are read as submitted.
+ *
+ * @param header - Header value, e.g. 'form-data; name="avatar"; filename="me.png"'
+ * @returns The parameters or undefined if the part is not form data
+ */
+function parseDisposition(header: string | undefined) {
+  if (header?.toLowerCase().startsWith("form-data") !== true) {
+    return undefined;
+  }
+  const parameters = new Map<string, string>();
+  for (const [, key = "", quoted, unquoted = ""] of header.matchAll(DISPOSITION_PARAMETER_REGEX)) {
+    parameters.set(
+      key.toLowerCase(),
+      quoted?.replace(/%(?:22|0D|0A)/g, (match) => ENCODED_CHARACTERS[match] ?? match) ?? unquoted,
+    );
+  }
+  return { name: parameters.get("name"), filename: parameters.get("filename") };
+}
+
+/**
+ * Converts a field name to an issue path, with empty brackets (e.g. "photos[]") resolved to the
+ * index of the array item the part would be appended to.
+ *
+ * @param name - Field name of the part
+ * @param fields - The field names of the previous parts, set on an object with setPath()
+ * @returns Valibot issue path
+ */
+function fieldPath(name: string, fields: Record<string, unknown>) {
+  return toIssuePath(undefined, resolvePath(fields, stringToPathArray(name)));
+}
+
+/**
+ * Creates the issue for a malformed body.
+ */
+function malformedIssue(): RequestIssue {
+  return requestIssue(
+    "Invalid body: Malformed multipart/form-data",
+    "multipart/form-data",
+    "invalid",
+  );
+}
+
+/**
+ * Parses a `multipart/form-data` body while it is streamed, without buffering the whole body.
+ * Returns the parts as [name, value] entries that can be parsed with formData(), with files as
+ * File objects compatible with file(). File contents are passed to the storage chunk by chunk,
+ * so they can be spooled elsewhere instead of being kept in memory.
+ *
+ * Parsing stops at the first part that exceeds a limit or is not allowed, without reading the
+ * rest of the body, and the result contains an issue on the field path of that part.
+ *
+ * @param body - Body as WHATWG ReadableStream or async iterable of chunks
+ * @param contentType - Content-Type header of the request, including the boundary
+ * @param options - Configuration options
+ * @returns Promise of the parsed entries or the issue that stopped parsing
+ *
+ * @example
+ * const result = await parseMultipart(request.body, request.headers.get("Content-Type"), {
+ *   maxFileSize: 5 * 1024 * 1024,
+ *   maxFiles: 3,
+ *   allowedFields: Object.keys(schema.entries),
+ * });
+ * if (result.success) {
+ *   v.parse(schema, result.entries);
+ * }
+ */
+export async function parseMultipart(
+  body: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>,
+  contentType: string | null,
+  options: MultipartOptions = {},
+): Promise<MultipartResult> {
+  const {
+    maxFileSize = 10 * 1024 * 1024,
+    maxFiles = 10,
+    maxFieldSize = 1024 * 1024,
+    maxHeaderSize = 8 * 1024,
+    maxParts = 1000,
+    allowedFields,
+    disallowedFields = "error",
+    storage = memoryStorage,
+  } = options;
+
+  const boundaryMatch = contentType?.match(BOUNDARY_REGEX);
+  const boundary = boundaryMatch?.[1] ?? boundaryMatch?.[2];
+  if (boundary === undefined) {
+    const received = contentType === null ? "none" : `"${contentType}"`;
+    return {
+      success: false,
+      issues: [
+        requestIssue(
+          `Invalid content type: Expected multipart/form-data with boundary but received ${received}`,
+          "multipart/form-data",
+          received,
+        ),
+      ],
+    };
+  }
+
+  const dashBoundary = textEncoder.encode(`--${boundary}`);
+  const delimiter = textEncoder.encode(`\r\n--${boundary}`);
+  const chunks = (body instanceof ReadableStream ? readStream(body) : body)[Symbol.asyncIterator]();
+  const entries: Array<[string, string | File]> = [];
+  // Field names of the parsed parts, to resolve the issue paths of appended fields.
+  const fields: Record<string, unknown> = Object.create(null);
+  let buffer: Uint8Array = new Uint8Array();
+  let writer: MultipartFileWriter | undefined;
+
+  // Appends the next chunk of the body to the buffer, returns false at the end of the body.
+  const pull = async () => {
+    const next = await chunks.next();
+    if (next.done === true) {
+      return false;
+    }
+    buffer = concat(buffer, next.value);
+    return true;
+  };
+
+  const fail = async (issue: RequestIssue): Promise<MultipartResult> => {
+    await writer?.abort?.();
+    return { success: false, issues: [issue] };
+  };
+
+  try {
+    // Skip the preamble before the first boundary.
+    let start = indexOf(buffer, dashBoundary);
+    while (start === -1) {
+      buffer = buffer.subarray(Math.max(0, buffer.length - dashBoundary.length));
+      if (!(await pull())) {
+        return await fail(malformedIssue());
+      }
+      start = indexOf(buffer, dashBoundary);
+    }
+    buffer = buffer.subarray(start + dashBoundary.length);
+
+    let fileCount = 0;
+    let partCount = 0;
+    while (true) {
+      while (buffer.length < 2) {
+        if (!(await pull())) {
+          return await fail(malformedIssue());
+        }
+      }
+      // "--" after a boundary ends the body, the epilogue is ignored.
+      if (buffer[0] === 0x2d && buffer[1] === 0x2d) {
+        return { success: true, entries };
+      }
+      if (buffer[0] !== CRLF[0] || buffer[1] !== CRLF[1]) {
+        return await fail(malformedIssue());
+      }
+      buffer = buffer.subarray(2);
+
+      if (++partCount > maxParts) {
+        return await fail(
+          requestIssue(
+            `Too many parts: Expected at most ${maxParts}`,
+            `<=${maxParts}`,
+            `>${maxParts}`,
+          ),
+        );
+      }
+
+      // Read the headers of the part.
+      let headerEnd = indexOf(buffer, HEADER_END);
+      while (headerEnd === -1 && buffer.length <= maxHeaderSize) {
+        if (!(await pull())) {
+          return await fail(malformedIssue());
+        }
+        headerEnd = indexOf(buffer, HEADER_END);
+      }
+      if (headerEnd === -1 || headerEnd > maxHeaderSize) {
+        return await fail(
+          requestIssue(
+            `Too large: Expected part headers of at most ${maxHeaderSize} bytes`,
+            `<=${maxHeaderSize}`,
+            `>${maxHeaderSize}`,
+          ),
+        );
+      }
+      const headers = parseHeaders(buffer.subarray(0, headerEnd));
+      buffer = buffer.subarray(headerEnd + HEADER_END.length);
+
+      const disposition = parseDisposition(headers.get("content-disposition"));
+      if (disposition?.name === undefined) {
+        return await fail(malformedIssue());
+      }
+      const { name, filename } = disposition;
+
+      const [topLevelKey] = stringToPathArray(name);
+      const skip = allowedFields !== undefined && !allowedFields.includes(String(topLevelKey));
+      if (skip && disallowedFields === "error") {
+        return await fail(
+          requestIssue(
+            `Invalid field: Expected ${allowedFields.join(" | ")} but received "${name}"`,
+            allowedFields.join(" | "),
+            `"${name}"`,
+            fieldPath(name, fields),
+          ),
+        );
+      }
+
+      // Browsers submit empty file inputs as a part with an empty filename.
+      if (!skip && filename !== undefined && filename !== "" && ++fileCount > maxFiles) {
+        return await fail(
+          requestIssue(
+            `Too many files: Expected at most ${maxFiles}`,
+            `<=${maxFiles}`,
+            `>${maxFiles}`,
+            fieldPath(name, fields),
+          ),
+        );
+      }
+
+      const maxSize = filename === undefined ? maxFieldSize : maxFileSize;
+      writer =
+        filename === undefined || skip
+          ? undefined
+          : await storage.create({
+              fieldName: name,
+              filename,
+              type: headers.get("content-type") ?? "application/octet-stream",
+            });
+      const fieldChunks: Array<Uint8Array> = [];
+      let size = 0;
+
+      // Read the content of the part up to the next delimiter.
+      while (true) {
+        const end = indexOf(buffer, delimiter);
+        // Without a delimiter, keep enough bytes to detect a delimiter split across chunks.
+        const available = end === -1 ? Math.max(0, buffer.length - delimiter.length + 1) : end;
+        if (available > 0) {
+          size += available;
+          if (size > maxSize) {
+            const kind = filename === undefined ? "field" : "file";
+            return await fail(
+              requestIssue(
+                `Too large: Expected ${kind} of at most ${maxSize} bytes`,
+                `<=${maxSize}`,
+                `>${maxSize}`,
+                fieldPath(name, fields),
+              ),
+            );
+          }
+          const data = buffer.subarray(0, available);
+          if (writer !== undefined) {
+            await writer.write(data);
+          } else if (!skip) {
+            fieldChunks.push(data);
+          }
+          buffer = buffer.subarray(available);
+        }
+        if (end !== -1) {
+          buffer = buffer.subarray(delimiter.length);
+          break;
+        }
+        if (!(await pull())) {
+          return await fail(malformedIssue());
+        }
+      }
+
+      if (skip) {
+        continue;
+      }
+      if (writer === undefined) {
+        entries.push([name, textDecoder.decode(concat(...fieldChunks))]);
+      } else {
+        entries.push([name, await writer.close()]);
+        writer = undefined;
+      }
+      try {
+        setPath(fields, name, true, { nullPrototype: true });
+      } catch {
+        // Conflicting or unsafe field names, formData() reports them
+      }
+    }
+  } finally {
+    // Stop reading the rest of the body, e.g. after an issue or in the epilogue.
+    await chunks.return?.();
+  }
+}
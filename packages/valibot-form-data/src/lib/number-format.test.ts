@@ -0,0 +1,143 @@
+import * as assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { formatNumberValue, parseNumberString } from "./number-format.ts";
+
+describe("parseNumberString()", () => {
+  test("should parse the format of number inputs", () => {
+    assert.deepStrictEqual(parseNumberString("1234.5"), {
+      negative: false,
+      integer: "1234",
+      fraction: "5",
+    });
+    assert.deepStrictEqual(parseNumberString("-007"), {
+      negative: true,
+      integer: "7",
+      fraction: "",
+    });
+    assert.deepStrictEqual(parseNumberString(".50"), {
+      negative: false,
+      integer: "0",
+      fraction: "50",
+    });
+    assert.deepStrictEqual(parseNumberString("  42 "), {
+      negative: false,
+      integer: "42",
+      fraction: "",
+    });
+  });
+
+  test("should reject other notations", () => {
+    for (const input of [
+      "0x10",
+      "0b1",
+      "0o7",
+      "Infinity",
+      "NaN",
+      "1_000",
+      "1,234",
+      "5.",
+      "-",
+      "1 2",
+    ]) {
+      assert.strictEqual(parseNumberString(input), undefined, input);
+    }
+  });
+
+  test("should move the decimal separator by the exponent", () => {
+    assert.deepStrictEqual(parseNumberString("1.5e3"), {
+      negative: false,
+      integer: "1500",
+      fraction: "",
+    });
+    assert.deepStrictEqual(parseNumberString("-15E-3"), {
+      negative: true,
+      integer: "0",
+      fraction: "015",
+    });
+    assert.strictEqual(parseNumberString("1e3", { allowExponent: false }), undefined);
+    assert.strictEqual(parseNumberString("1e999999999"), undefined);
+  });
+
+  test("should never return a negative zero", () => {
+    assert.deepStrictEqual(parseNumberString("-0.00"), {
+      negative: false,
+      integer: "0",
+      fraction: "00",
+    });
+  });
+
+  test("should parse the separators of a locale", () => {
+    assert.deepStrictEqual(parseNumberString("1,234.5", { locale: "en-US" }), {
+      negative: false,
+      integer: "1234",
+      fraction: "5",
+    });
+    assert.deepStrictEqual(parseNumberString("-1.234.567,89", { locale: "de-DE" }), {
+      negative: true,
+      integer: "1234567",
+      fraction: "89",
+    });
+    assert.deepStrictEqual(parseNumberString("1234,5", { locale: "de-DE" }), {
+      negative: false,
+      integer: "1234",
+      fraction: "5",
+    });
+    assert.deepStrictEqual(parseNumberString("12,34,567", { locale: "en-IN" }), {
+      negative: false,
+      integer: "1234567",
+      fraction: "",
+    });
+  });
+
+  test("should accept regular spaces for locales grouping with no-break spaces", () => {
+    const expected = { negative: false, integer: "1234", fraction: "5" };
+    assert.deepStrictEqual(parseNumberString("1 234,5", { locale: "fr-FR" }), expected);
+    assert.deepStrictEqual(parseNumberString("1\u202f234,5", { locale: "fr-FR" }), expected);
+  });
+
+  test("should parse the digits and minus sign of a locale", () => {
+    assert.deepStrictEqual(parseNumberString("١٢٣", { locale: "ar-EG" }), {
+      negative: false,
+      integer: "123",
+      fraction: "",
+    });
+    assert.deepStrictEqual(parseNumberString("−5", { locale: "sv-SE" }), {
+      negative: true,
+      integer: "5",
+      fraction: "",
+    });
+  });
+
+  test("should reject misplaced grouping separators", () => {
+    assert.strictEqual(parseNumberString("1.5", { locale: "de-DE" }), undefined);
+    assert.strictEqual(parseNumberString("12,34", { locale: "en-US" }), undefined);
+    assert.strictEqual(parseNumberString("1,2345", { locale: "en-US" }), undefined);
+    assert.strictEqual(parseNumberString("1,234.5,6", { locale: "en-US" }), undefined);
+    assert.strictEqual(parseNumberString("1.234,5", { locale: "en-US" }), undefined);
+  });
+});
+
+describe("formatNumberValue()", () => {
+  test("should format values without a locale as number inputs do", () => {
+    assert.strictEqual(formatNumberValue(1234.5, undefined), "1234.5");
+    assert.strictEqual(formatNumberValue(12345678901234567890n, undefined), "12345678901234567890");
+    assert.strictEqual(formatNumberValue("-0.10", undefined), "-0.10");
+  });
+
+  test("should format values in the format of a locale without grouping", () => {
+    assert.strictEqual(formatNumberValue(-1234.5, "de-DE"), "-1234,5");
+    assert.strictEqual(formatNumberValue(12345678901234567890n, "fr-FR"), "12345678901234567890");
+    assert.strictEqual(formatNumberValue("-1234.50", "de-DE"), "-1234,50");
+  });
+
+  test("should round-trip through parseNumberString()", () => {
+    for (const locale of ["en-US", "de-DE", "fr-FR", "de-CH", "en-IN", "ar-EG", "sv-SE"]) {
+      const formatted = formatNumberValue(-1234567.125, locale);
+      assert.deepStrictEqual(
+        parseNumberString(formatted, { locale }),
+        { negative: true, integer: "1234567", fraction: "125" },
+        locale,
+      );
+    }
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Configuration options for the format of submitted numbers.
+ */
+export type NumberFormatOptions = {
+  /**
+   * Locale whose digits, grouping and decimal separators are accepted, e.g. "de-DE" for
+   * "1.234,5". Defaults to the format of number inputs ("1234.5"), without grouping
+   */
+  locale?: string;
+  /** Accepts exponents, e.g. "1e3". Defaults to true */
+  allowExponent?: boolean;
+};
+
+/**
+ * Exact value of a submitted number, as ASCII digits.
+ */
+export type ParsedNumber = {
+  /** Whether the number is negative. Zero is never negative */
+  negative: boolean;
+  /** Digits before the decimal separator, without leading zeros ("0" for zero) */
+  integer: string;
+  /** Digits after the decimal separator, as submitted (trailing zeros are kept) */
+  fraction: string;
+};
+
+/**
+ * Separators and digits of a locale, as used by Intl.NumberFormat.
+ */
+type NumberSymbols = {
+  group: string;
+  /** Size of the last group of digits, e.g. 3 for "1,234,567" */
+  primaryGroupSize: number;
+  /** Size of the other groups of digits, e.g. 2 for "12,34,567" in en-IN */
+  secondaryGroupSize: number;
+  decimal: string;
+  minusSign: string;
+  digits: Map<string, string>;
+};
+
+const NUMBER_REGEX = /^([+-])?(\d+(?:,\d+)*)?(?:\.(\d+))?(?:e([+-]?\d+))?$/;
+const SPACE_REGEX = /^\s$/;
+const BIDI_MARKS_REGEX = /[\u061c\u200e\u200f]/g;
+/** Largest accepted exponent, so a short input can't expand to a huge number of digits. */
+const MAX_EXPONENT = 1000;
+
+/** Cache of number symbols by locale, as looking them up is expensive. */
+const numberSymbols = new Map<string, NumberSymbols>();
+
+/**
+ * Returns the grouping and decimal separators, the minus sign and the digits of a locale.
+ *
+ * @param locale - BCP 47 locale
+ * @returns The number symbols of the locale
+ */
+function getNumberSymbols(locale: string): NumberSymbols {
+  let symbols = numberSymbols.get(locale);
+  if (symbols === undefined) {
+    const format = new Intl.NumberFormat(locale, { useGrouping: true });
+    const parts = format.formatToParts(-1234567.8);
+    const groupSizes = parts
+      .filter((part) => part.type === "integer")
+      .map((part) => part.value.length)
+      .reverse();
+    const digitFormat = new Intl.NumberFormat(locale, { useGrouping: false });
+    symbols = {
+      group: parts.find((part) => part.type === "group")?.value ?? ",",
+      primaryGroupSize: groupSizes[0] ?? 3,
+      secondaryGroupSize: groupSizes[1] ?? 3,
+      decimal: parts.find((part) => part.type === "decimal")?.value ?? ".",
+      minusSign: (parts.find((part) => part.type === "minusSign")?.value ?? "-").replace(
+        BIDI_MARKS_REGEX,
+        "",
+      ),
+      digits: new Map(
+        Array.from({ length: 10 }, (_, digit) => [digitFormat.format(digit), String(digit)]),
+      ),
+    };
+    numberSymbols.set(locale, symbols);
+  }
+  return symbols;
+}
+
+/**
+ * Maps the characters of a localized number to the ASCII format matched by NUMBER_REGEX:
+ * digits, "." as decimal separator, "," as grouping separator, "-", "+" and "e". Any other
+ * character becomes "?", so it fails to match.
+ *
+ * @param input - Trimmed submitted value
+ * @param locale - Locale of the value, or undefined for the format of number inputs
+ * @returns The normalized value
+ */
+function normalizeCharacters(input: string, locale: string | undefined): string {
+  const symbols = locale === undefined ? undefined : getNumberSymbols(locale);
+  // Locales grouping with (narrow) no-break spaces are usually typed with regular spaces.
+  const isGroup = (char: string) =>
+    symbols !== undefined &&
+    (char === symbols.group || (SPACE_REGEX.test(symbols.group) && SPACE_REGEX.test(char)));
+
+  let result = "";
+  for (const char of input.replace(BIDI_MARKS_REGEX, "")) {
+    const digit = char >= "0" && char <= "9" ? char : symbols?.digits.get(char);
+    if (digit !== undefined) {
+      result += digit;
+    } else if (char === (symbols?.decimal ?? ".")) {
+      result += ".";
+    } else if (isGroup(char)) {
+      result += ",";
+    } else if (char === "-" || char === symbols?.minusSign || char === "−") {
+      result += "-";
+    } else if (char === "+" || char === "e" || char === "E") {
+      result += char.toLowerCase();
+    } else {
+      result += "?";
+    }
+  }
+  return result;
+}
+
+/**
+ * Checks if the groups of digits match the grouping of a locale, e.g. to reject "1.5" as
+ * 15 in de-DE.
+ *
+ * @param groups - Groups of digits, split at the grouping separators
+ * @param locale - Locale of the value
+ * @returns Whether every group has the size of the locale
+ */
+function isValidGrouping(groups: Array<string>, locale: string): boolean {
+  const { primaryGroupSize, secondaryGroupSize } = getNumberSymbols(locale);
+  return groups.every((group, index) => {
+    if (index === groups.length - 1) {
+      return group.length === primaryGroupSize;
+    }
+    return index === 0 ? group.length <= secondaryGroupSize : group.length === secondaryGroupSize;
+  });
+}
+
+/**
+ * Parses a submitted number without losing precision. Surrounding whitespace is ignored, and
+ * grouping separators are only accepted before the decimal separator, at the positions the
+ * locale places them.
+ * Hexadecimal, binary and octal literals, "Infinity" and "NaN" are rejected.
+ *
+ * @param input - Submitted value
+ * @param options - Locale of the value and whether exponents are accepted
+ * @returns The exact value or undefined if the input is not a number
+ *
+ * @example
+ * parseNumberString("1.234,5", { locale: "de-DE" }); // → { negative: false, integer: "1234", fraction: "5" }
+ * parseNumberString("-1.5e2");                        // → { negative: true, integer: "150", fraction: "" }
+ * parseNumberString("0x10");                          // → undefined
+ */
+export function parseNumberString(
+  input: string,
+  options: NumberFormatOptions = {},
+): ParsedNumber | undefined {
+  const { locale, allowExponent = true } = options;
+  const match = NUMBER_REGEX.exec(normalizeCharacters(input.trim(), locale));
+  if (match === null) {
+    return undefined;
+  }
+  const [, sign, integerPart = "", fractionPart = "", exponentPart] = match;
+  if (integerPart === "" && fractionPart === "") {
+    return undefined;
+  }
+  const exponent = Number(exponentPart ?? 0);
+  if (exponentPart !== undefined && (!allowExponent || Math.abs(exponent) > MAX_EXPONENT)) {
+    return undefined;
+  }
+  // Grouping separators are only accepted when a locale is provided.
+  const groups = integerPart.split(",");
+  if (groups.length > 1 && (locale === undefined || !isValidGrouping(groups, locale))) {
+    return undefined;
+  }
+
+  // Move the decimal separator by the exponent, so the digits stay exact.
+  let digits = integerPart.replaceAll(",", "") + fractionPart;
+  let pointIndex = digits.length - fractionPart.length + exponent;
+  if (pointIndex < 0) {
+    digits = "0".repeat(-pointIndex) + digits;
+    pointIndex = 0;
+  } else if (pointIndex > digits.length) {
+    digits = digits + "0".repeat(pointIndex - digits.length);
+  }
+  const integer = digits.slice(0, pointIndex).replace(/^0+/, "") || "0";
+  const fraction = digits.slice(pointIndex);
+  const isZero = integer === "0" && /^0*$/.test(fraction);
+  return { negative: sign === "-" && !isZero, integer, fraction };
+}
+
+/**
+ * Formats a number, bigint or decimal string the way the format option of a field accepts it,
+ * without grouping so it round-trips exactly.
+ *
+ * @param value - Value to format
+ * @param locale - Locale of the field, or undefined for the format of number inputs
+ * @returns The formatted value
+ */
+export function formatNumberValue(
+  value: number | bigint | string,
+  locale: string | undefined,
+): string {
+  if (locale === undefined) {
+    return String(value);
+  }
+  if (typeof value === "string") {
+    const { decimal, minusSign } = getNumberSymbols(locale);
+    return value.replace("-", minusSign).replace(".", decimal);
+  }
+  return new Intl.NumberFormat(locale, {
+    useGrouping: false,
+    maximumFractionDigits: 100,
+  }).format(value);
+}
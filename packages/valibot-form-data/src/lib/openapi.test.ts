@@ -0,0 +1,152 @@
+import * as assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import * as v from "valibot";
+import { date } from "./date-time.ts";
+import { checkbox, file, formData, numeric, repeatable, text } from "./form-data-schema.ts";
+import { toOpenApiRequestBody } from "./openapi.ts";
+
+describe("toOpenApiRequestBody()", () => {
+  const schema = formData({
+    name: text(v.pipe(v.string(), v.minLength(2), v.maxLength(50))),
+    email: text(v.optional(v.pipe(v.string(), v.email()))),
+    age: numeric(v.pipe(v.number(), v.integer(), v.minValue(18))),
+    subscribe: checkbox({ trueValue: "yes" }),
+    birthday: date(v.optional(v.date())),
+    address: v.object({ street: text(), city: text() }),
+    tags: repeatable(v.pipe(v.array(text()), v.maxLength(5))),
+  });
+
+  test("should describe fields with their field names", () => {
+    const requestBody = toOpenApiRequestBody(schema);
+    const expectedSchema = {
+      type: "object",
+      properties: {
+        name: { type: "string", minLength: 2, maxLength: 50 },
+        email: { type: "string", format: "email" },
+        age: { type: "integer", minimum: 18 },
+        subscribe: { type: "boolean", "x-true-value": "yes" },
+        birthday: { type: "string", format: "date" },
+        "address.street": { type: "string" },
+        "address.city": { type: "string" },
+        tags: { type: "array", items: { type: "string" }, maxItems: 5 },
+      },
+      required: ["name", "age", "address.street", "address.city"],
+    };
+    assert.deepStrictEqual(requestBody, {
+      required: true,
+      content: {
+        "application/x-www-form-urlencoded": {
+          schema: expectedSchema,
+          encoding: { tags: { style: "form", explode: true } },
+        },
+        "multipart/form-data": { schema: expectedSchema },
+      },
+    });
+  });
+
+  test("should use the given notation", () => {
+    const requestBody = toOpenApiRequestBody(schema, { notation: "bracket" });
+    const properties = requestBody.content["multipart/form-data"]?.schema.properties;
+    assert.ok(typeof properties === "object" && properties !== null);
+    assert.ok("address[street]" in properties);
+  });
+
+  test("should describe nested objects as deep objects", () => {
+    const requestBody = toOpenApiRequestBody(schema, { style: "deepObject" });
+    const urlEncoded = requestBody.content["application/x-www-form-urlencoded"];
+    assert.deepStrictEqual(urlEncoded?.encoding, {
+      address: { style: "deepObject", explode: true },
+      tags: { style: "form", explode: true },
+    });
+    const properties = urlEncoded.schema.properties as Record<string, unknown>;
+    assert.deepStrictEqual(properties.address, {
+      type: "object",
+      properties: { street: { type: "string" }, city: { type: "string" } },
+      required: ["street", "city"],
+    });
+    assert.deepStrictEqual(urlEncoded.schema.required, ["name", "age", "address"]);
+
+    const multipartProperties = requestBody.content["multipart/form-data"]?.schema.properties;
+    assert.deepStrictEqual(Object.keys(multipartProperties as object).slice(5, 7), [
+      "address[street]",
+      "address[city]",
+    ]);
+  });
+
+  test("should describe files only as multipart bodies", () => {
+    const uploadSchema = formData({
+      title: text(),
+      avatar: file(v.optional(v.pipe(v.instance(File), v.mimeType(["image/png", "image/jpeg"])))),
+    });
+    assert.deepStrictEqual(toOpenApiRequestBody(uploadSchema), {
+      required: true,
+      content: {
+        "multipart/form-data": {
+          schema: {
+            type: "object",
+            properties: {
+              title: { type: "string" },
+              avatar: { type: "string", format: "binary" },
+            },
+            required: ["title"],
+          },
+          encoding: { avatar: { contentType: "image/png,image/jpeg" } },
+        },
+      },
+    });
+  });
+
+  test("should describe items of arrays of objects with pattern properties", () => {
+    const listSchema = formData({
+      items: v.array(v.object({ title: text(), done: checkbox() })),
+    });
+    const flat = toOpenApiRequestBody(listSchema).content["multipart/form-data"]?.schema;
+    assert.deepStrictEqual(flat, {
+      type: "object",
+      properties: {},
+      patternProperties: {
+        "^items\\[\\d+\\]\\.title$": { type: "string" },
+        "^items\\[\\d+\\]\\.done$": { type: "boolean", "x-true-value": "on" },
+      },
+    });
+    const dot = toOpenApiRequestBody(listSchema, { notation: "dot" }).content["multipart/form-data"]
+      ?.schema.patternProperties;
+    assert.deepStrictEqual(Object.keys(dot as object), [
+      "^items\\.\\d+\\.title$",
+      "^items\\.\\d+\\.done$",
+    ]);
+  });
+
+  test("should not require fields of optional objects and union options", () => {
+    const optionalSchema = formData({
+      address: v.optional(v.object({ city: text() })),
+      contact: v.variant("type", [
+        v.object({ type: v.literal("email"), email: text() }),
+        v.object({ type: v.literal("phone"), phone: text() }),
+      ]),
+    });
+    const requestBody = toOpenApiRequestBody(optionalSchema);
+    assert.strictEqual(requestBody.required, false);
+    assert.deepStrictEqual(
+      Object.keys(requestBody.content["multipart/form-data"]?.schema.properties as object),
+      ["address.city", "contact.type", "contact.email", "contact.phone"],
+    );
+  });
+
+  test("should describe the falseValue of checkboxes", () => {
+    const checkboxSchema = formData({ terms: checkbox({ hiddenFallback: true }) });
+    const properties = toOpenApiRequestBody(checkboxSchema).content["multipart/form-data"]?.schema
+      .properties as Record<string, unknown>;
+    assert.deepStrictEqual(properties.terms, {
+      type: "boolean",
+      "x-true-value": "on",
+      "x-false-value": "false",
+    });
+  });
+
+  test("should throw for schemas that are not objects", () => {
+    assert.throws(() => toOpenApiRequestBody(text()), {
+      message: "Cannot describe a schema that is not an object as a form body",
+    });
+  });
+});
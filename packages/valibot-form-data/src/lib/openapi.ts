@@ -0,0 +1,467 @@
+import { getFieldKind, isOptionalSchema, unwrapSchema } from "./field-kind.ts";
+import { getRepeatableItem, inputProps } from "./input-props.ts";
+import { pathArrayToString } from "./path-array-to-string.ts";
+import { APPEND_SEGMENT } from "./string-to-path-array.ts";
+import type { InputProps } from "./input-props.ts";
+import type { PathArrayToStringOptions } from "./path-array-to-string.ts";
+import type { PathSegment } from "./string-to-path-array.ts";
+import type * as v from "valibot";
+
+/**
+ * A JSON Schema (draft 2020-12) as used by OpenAPI 3.1.
+ */
+export type JsonSchema = { [keyword: string]: unknown };
+
+/**
+ * OpenAPI Encoding Object of a form field.
+ */
+export type OpenApiEncoding = {
+  /** Content type of a multipart part, e.g. the accepted types of a file field */
+  contentType?: string;
+  /** How the field is serialized in URL encoded bodies */
+  style?: "form" | "deepObject";
+  /** Whether arrays and objects are serialized as separate parameters */
+  explode?: boolean;
+};
+
+/**
+ * OpenAPI Media Type Object of a form body.
+ */
+export type OpenApiMediaType = {
+  schema: JsonSchema;
+  encoding?: Record<string, OpenApiEncoding>;
+};
+
+/**
+ * OpenAPI 3.1 Request Body Object.
+ */
+export type OpenApiRequestBody = {
+  required: boolean;
+  content: {
+    "application/x-www-form-urlencoded"?: OpenApiMediaType;
+    "multipart/form-data"?: OpenApiMediaType;
+  };
+};
+
+/**
+ * Configuration options for toOpenApiRequestBody().
+ */
+export type OpenApiOptions = PathArrayToStringOptions & {
+  /**
+   * How nested fields of URL encoded bodies are described. With "flat", every field is a
+   * property named after its field name (e.g. "address.street"). With "deepObject", nested
+   * objects are described as objects with `style: deepObject`, which implies bracket notation
+   * (e.g. "address[street]"). Multipart bodies are always described flat. Defaults to "flat"
+   */
+  style?: "flat" | "deepObject";
+};
+
+type Schema = v.GenericSchema | v.GenericSchemaAsync;
+
+/**
+ * Collected description of a flat form body.
+ */
+type FlatBody = {
+  properties: Record<string, JsonSchema>;
+  patternProperties: Record<string, JsonSchema>;
+  required: Array<string>;
+  urlEncoding: Record<string, OpenApiEncoding>;
+  multipartEncoding: Record<string, OpenApiEncoding>;
+  hasFiles: boolean;
+};
+
+// Input types of the temporal helpers, described as strings with the input type as format.
+const TEMPORAL_INPUT_TYPES = new Set(["date", "datetime-local", "time", "month", "week"]);
+
+// Regular expression to match characters that have a meaning in regular expressions.
+const REGEX_SPECIAL_CHARACTERS_REGEX = /[.*+?^${}()|[\]\\]/g;
+
+/**
+ * Converts the constraint attributes of a single value to a JSON Schema.
+ *
+ * @param props - Constraint attributes of the value
+ * @param inner - Unwrapped schema of the value, used when the input type is unknown
+ * @returns JSON Schema of the submitted value
+ */
+function propsToJsonSchema(props: InputProps, inner: Schema): JsonSchema {
+  if (props.type === "checkbox") {
+    // Submitted as its trueValue when checked and omitted otherwise.
+    return { type: "boolean", "x-true-value": props.value };
+  }
+  if (props.type === "file") {
+    return { type: "string", format: "binary" };
+  }
+  if (props.type === "number" || (props.type === undefined && inner.type === "number")) {
+    const json: JsonSchema = { type: props.step === 1 ? "integer" : "number" };
+    // Bounds of bigintField() are strings, so they keep their precision in the attributes.
+    if (props.min !== undefined) {
+      json.minimum = Number(props.min);
+    }
+    if (props.max !== undefined) {
+      json.maximum = Number(props.max);
+    }
+    if (typeof props.step === "number" && props.step !== 1) {
+      json.multipleOf = props.step;
+    }
+    return json;
+  }
+  if (props.type === undefined && inner.type === "boolean") {
+    return { type: "boolean" };
+  }
+
+  const json: JsonSchema = { type: "string" };
+  if (props.type !== undefined && TEMPORAL_INPUT_TYPES.has(props.type)) {
+    json.format = props.type;
+  } else if (props.type === "email") {
+    json.format = "email";
+  } else if (props.type === "url") {
+    json.format = "uri";
+  }
+  if (props.minLength !== undefined) {
+    json.minLength = props.minLength;
+  }
+  if (props.maxLength !== undefined) {
+    json.maxLength = props.maxLength;
+  }
+  if (props.pattern !== undefined) {
+    json.pattern = props.pattern;
+  }
+  return json;
+}
+
+/**
+ * Returns the JSON Schema of a form field that is not a container.
+ *
+ * @param schema - Schema of the field
+ * @returns JSON Schema of the submitted value, an array for repeatable() fields
+ */
+function toLeafJsonSchema(schema: Schema): JsonSchema {
+  const inner = unwrapSchema(schema);
+  const kind = getFieldKind(inner);
+  if (kind?.type === "repeatable") {
+    const { item, minLength, maxLength } = getRepeatableItem(kind.schema);
+    const json: JsonSchema = { type: "array", items: item ? toLeafJsonSchema(item) : {} };
+    if (minLength !== undefined) {
+      json.minItems = minLength;
+    }
+    if (maxLength !== undefined) {
+      json.maxItems = maxLength;
+    }
+    return json;
+  }
+  if (kind?.type === "checkbox" && kind.falseValue !== undefined) {
+    return { type: "boolean", "x-true-value": kind.trueValue, "x-false-value": kind.falseValue };
+  }
+  if (kind?.type === "json") {
+    return { type: "string", contentMediaType: "application/json" };
+  }
+  if (kind?.type === "choice") {
+    return { type: "string", enum: kind.choices.map(({ formValue }) => formValue) };
+  }
+  if (kind?.type === "sort") {
+    return { type: "string", enum: [...kind.values] };
+  }
+  return propsToJsonSchema(inputProps(schema), inner);
+}
+
+/**
+ * Returns the entries of a formData() or object schema.
+ *
+ * @param schema - Unwrapped schema
+ * @returns The object entries or undefined if the schema is not an object
+ */
+function getEntries(schema: Schema): Record<string, Schema> | undefined {
+  const kind = getFieldKind(schema);
+  if (kind?.type === "form") {
+    return kind.entries;
+  }
+  if (kind === undefined && "entries" in schema) {
+    return schema.entries as Record<string, Schema>;
+  }
+  return undefined;
+}
+
+/**
+ * Returns the options of a union or variant schema that has object options, e.g. the shape of
+ * a formData() schema created with formVariant().
+ *
+ * @param schema - Unwrapped schema
+ * @returns The options or undefined if the schema is not a union of objects
+ */
+function getObjectOptions(schema: Schema): Array<Schema> | undefined {
+  if ((schema.type !== "union" && schema.type !== "variant") || !("options" in schema)) {
+    return undefined;
+  }
+  const options = schema.options as Array<Schema>;
+  return options.some((option) => getEntries(unwrapSchema(option)) !== undefined)
+    ? options
+    : undefined;
+}
+
+/**
+ * Recursively collects the flattened fields of a schema, named after their field names.
+ * Items of arrays of objects are described with pattern properties (e.g. "^items\[\d+\]\.title$").
+ *
+ * @param schema - Schema of the value at the path
+ * @param path - Path of the value, with an append segment for array items
+ * @param optional - Whether a parent of the value is optional
+ * @param options - Notation of the field names
+ * @param body - Description the fields are collected into (mutated)
+ */
+function collectFlatFields(
+  schema: Schema,
+  path: Array<PathSegment>,
+  optional: boolean,
+  options: PathArrayToStringOptions,
+  body: FlatBody,
+): void {
+  const inner = unwrapSchema(schema);
+  const kind = getFieldKind(inner);
+  const isOptional = optional || (path.length > 0 && isOptionalSchema(schema));
+
+  const entries = getEntries(inner);
+  if (entries !== undefined) {
+    for (const [key, entry] of Object.entries(entries)) {
+      collectFlatFields(entry, [...path, key], isOptional, options, body);
+    }
+    return;
+  }
+  if (kind === undefined) {
+    if ("items" in inner && Array.isArray(inner.items)) {
+      for (const [index, item] of (inner.items as Array<Schema>).entries()) {
+        collectFlatFields(item, [...path, index], isOptional, options, body);
+      }
+      return;
+    }
+    if ("item" in inner) {
+      collectFlatFields(inner.item as Schema, [...path, APPEND_SEGMENT], true, options, body);
+      return;
+    }
+    const unionOptions = getObjectOptions(inner);
+    if (unionOptions !== undefined) {
+      // Only one option applies, so none of their fields are required.
+      for (const option of unionOptions) {
+        collectFlatFields(option, path, true, options, body);
+      }
+      return;
+    }
+    if (inner.type === "record") {
+      return;
+    }
+  }
+
+  const name = pathArrayToString(path, options);
+  const props = inputProps(schema);
+  const json = toLeafJsonSchema(schema);
+
+  if (path.includes(APPEND_SEGMENT)) {
+    const indexPattern = options.notation === "dot" ? "\\.\\d+" : "\\[\\d+\\]";
+    const pattern = name
+      .replace(REGEX_SPECIAL_CHARACTERS_REGEX, "\\$&")
+      .replaceAll("\\[\\]", indexPattern);
+    body.patternProperties[`^${pattern}$`] = json;
+  } else {
+    body.properties[name] = json;
+    if (props.required && !isOptional) {
+      body.required.push(name);
+    }
+  }
+
+  if (kind?.type === "repeatable") {
+    body.urlEncoding[name] = { style: "form", explode: true };
+  }
+  if (kind?.type === "json") {
+    body.multipartEncoding[name] = { contentType: "application/json" };
+  }
+  if (props.type === "file") {
+    body.hasFiles = true;
+    if (props.accept !== undefined) {
+      body.multipartEncoding[name] = { contentType: props.accept };
+    }
+  }
+}
+
+/**
+ * Recursively converts a schema to a nested JSON Schema, for URL encoded bodies described with
+ * `style: deepObject`.
+ *
+ * @param schema - Schema of the value
+ * @returns JSON Schema of the value and whether it is required in its parent
+ */
+function toNestedJsonSchema(schema: Schema): { json: JsonSchema; required: boolean } {
+  const inner = unwrapSchema(schema);
+  const kind = getFieldKind(inner);
+  const optional = isOptionalSchema(schema);
+
+  const entries = getEntries(inner);
+  if (entries !== undefined) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: Array<string> = [];
+    for (const [key, entry] of Object.entries(entries)) {
+      const property = toNestedJsonSchema(entry);
+      properties[key] = property.json;
+      if (property.required) {
+        required.push(key);
+      }
+    }
+    const json: JsonSchema = { type: "object", properties };
+    if (required.length > 0) {
+      json.required = required;
+    }
+    return { json, required: !optional && required.length > 0 };
+  }
+  if (kind === undefined) {
+    if ("items" in inner && Array.isArray(inner.items)) {
+      const prefixItems = (inner.items as Array<Schema>).map((item) => {
+        return toNestedJsonSchema(item).json;
+      });
+      return { json: { type: "array", prefixItems }, required: !optional };
+    }
+    if ("item" in inner) {
+      const items = toNestedJsonSchema(inner.item as Schema).json;
+      return { json: { type: "array", items }, required: !optional };
+    }
+    if ((inner.type === "union" || inner.type === "variant") && "options" in inner) {
+      const anyOf = (inner.options as Array<Schema>).map((option) => {
+        return toNestedJsonSchema(option).json;
+      });
+      return { json: { anyOf }, required: !optional };
+    }
+    if (inner.type === "record" && "value" in inner) {
+      const additionalProperties = toNestedJsonSchema(inner.value as Schema).json;
+      return { json: { type: "object", additionalProperties }, required: false };
+    }
+  }
+  return { json: toLeafJsonSchema(schema), required: inputProps(schema).required === true };
+}
+
+/**
+ * Creates an object JSON Schema, leaving out empty keywords.
+ *
+ * @param properties - Properties of the object
+ * @param patternProperties - Properties matched by a pattern
+ * @param required - Names of the required properties
+ * @returns JSON Schema of the object
+ */
+function objectJsonSchema(
+  properties: Record<string, JsonSchema>,
+  patternProperties: Record<string, JsonSchema>,
+  required: Array<string>,
+): JsonSchema {
+  const json: JsonSchema = { type: "object", properties };
+  if (Object.keys(patternProperties).length > 0) {
+    json.patternProperties = patternProperties;
+  }
+  if (required.length > 0) {
+    json.required = required;
+  }
+  return json;
+}
+
+/**
+ * Creates a Media Type Object, leaving out an empty encoding.
+ *
+ * @param schema - JSON Schema of the body
+ * @param encoding - Encoding of the fields
+ * @returns OpenAPI Media Type Object
+ */
+function withEncoding(
+  schema: JsonSchema,
+  encoding: Record<string, OpenApiEncoding>,
+): OpenApiMediaType {
+  return Object.keys(encoding).length > 0 ? { schema, encoding } : { schema };
+}
+
+/**
+ * Describes a form schema as an OpenAPI 3.1 Request Body Object, so API documentation and
+ * gateways can be generated from the same schema the handler validates with.
+ *
+ * Both `application/x-www-form-urlencoded` and `multipart/form-data` bodies are described, with
+ * the field names formData() expects as property names (e.g. "address.street"). Forms with
+ * file() fields are only described as multipart bodies. The fields are described as follows:
+ * - text(), numeric() and the temporal helpers: their type with the constraints inputProps()
+ *   understands, e.g. `minLength`, `pattern`, `minimum` or `format: email`
+ * - checkbox(): `type: boolean`, with its trueValue as `x-true-value` and its falseValue as
+ *   `x-false-value`
+ * - enumField(), radioGroup() and multiSelect(): `type: string` with the submitted values of the
+ *   options as `enum`
+ * - file(): `type: string` with `format: binary`, and the accepted MIME types as the
+ *   `contentType` of its multipart encoding
+ * - repeatable(): `type: array`, encoded as repeated fields (`style: form`, `explode: true`)
+ * - items of arrays of objects: pattern properties, e.g. "^items\[\d+\]\.title$"
+ *
+ * @param schema - Form schema, usually created with formData() or formDataAsync()
+ * @param options - Configuration options
+ * @returns OpenAPI Request Body Object
+ *
+ * @example
+ * const schema = formData({
+ *   name: text(v.pipe(v.string(), v.minLength(2))),
+ *   address: v.object({ street: text() }),
+ *   tags: repeatable(),
+ * });
+ *
+ * const openapi = {
+ *   paths: {
+ *     "/users": { post: { requestBody: toOpenApiRequestBody(schema) } },
+ *   },
+ * };
+ * // content["application/x-www-form-urlencoded"].schema:
+ * // {
+ * //   type: "object",
+ * //   properties: {
+ * //     name: { type: "string", minLength: 2 },
+ * //     "address.street": { type: "string" },
+ * //     tags: { type: "array", items: { type: "string" } },
+ * //   },
+ * //   required: ["name", "address.street"],
+ * // }
+ */
+export function toOpenApiRequestBody(
+  schema: Schema,
+  options: OpenApiOptions = {},
+): OpenApiRequestBody {
+  const inner = unwrapSchema(schema);
+  if (getEntries(inner) === undefined && getObjectOptions(inner) === undefined) {
+    throw new Error("Cannot describe a schema that is not an object as a form body");
+  }
+
+  const { style = "flat", ...notationOptions } = options;
+  const pathOptions: PathArrayToStringOptions = {
+    ...notationOptions,
+    notation: notationOptions.notation ?? (style === "deepObject" ? "bracket" : "mixed"),
+  };
+  const body: FlatBody = {
+    properties: {},
+    patternProperties: {},
+    required: [],
+    urlEncoding: {},
+    multipartEncoding: {},
+    hasFiles: false,
+  };
+  collectFlatFields(schema, [], false, pathOptions, body);
+
+  const flatSchema = objectJsonSchema(body.properties, body.patternProperties, body.required);
+  const content: OpenApiRequestBody["content"] = {};
+
+  if (!body.hasFiles) {
+    if (style === "deepObject") {
+      const { json } = toNestedJsonSchema(schema);
+      const encoding: Record<string, OpenApiEncoding> = {};
+      for (const [key, entry] of Object.entries(getEntries(unwrapSchema(schema)) ?? {})) {
+        const kind = getFieldKind(unwrapSchema(entry));
+        if (kind?.type === "repeatable") {
+          encoding[key] = { style: "form", explode: true };
+        } else if (getEntries(unwrapSchema(entry)) !== undefined) {
+          encoding[key] = { style: "deepObject", explode: true };
+        }
+      }
+      content["application/x-www-form-urlencoded"] = withEncoding(json, encoding);
+    } else {
+      content["application/x-www-form-urlencoded"] = withEncoding(flatSchema, body.urlEncoding);
+    }
+  }
+  content["multipart/form-data"] = withEncoding(flatSchema, body.multipartEncoding);
+
+  return { required: body.required.length > 0, content };
+}
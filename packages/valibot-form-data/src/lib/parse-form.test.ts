@@ -0,0 +1,171 @@
+import * as assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import * as v from "valibot";
+import { matches } from "./cross-field.ts";
+import * as vfd from "./form-data-schema.ts";
+import { parseForm } from "./parse-form.ts";
+
+const schema = vfd.formData({
+  name: vfd.text(),
+  age: vfd.numeric(),
+  subscribe: vfd.checkbox(),
+  address: v.object({ city: vfd.text() }),
+  hobbies: vfd.repeatable(),
+  avatar: vfd.file(v.optional(v.file())),
+});
+
+describe("parseForm()", () => {
+  test("should return the raw values with the issues and field errors", () => {
+    const data = new FormData();
+    data.append("name", "John");
+    data.append("age", "abc");
+    data.append("address.city", "");
+    data.append("hobbies", "reading");
+    data.append("hobbies", "gaming");
+
+    const result = parseForm(schema, data);
+    assert.ok(!result.success);
+    assert.deepStrictEqual(result.rawValues, {
+      name: "John",
+      age: "abc",
+      address: { city: "" },
+      hobbies: ["reading", "gaming"],
+    });
+    assert.deepStrictEqual(Object.keys(result.fieldErrors), ["age", "address.city"]);
+    assert.deepStrictEqual(result.formErrors, []);
+    assert.strictEqual(result.issues.length, 2);
+  });
+
+  test("should return the raw values with the output", () => {
+    const data = new URLSearchParams({ name: "John", age: "42", "address.city": "NYC" });
+    const result = parseForm(schema, data);
+    assert.ok(result.success);
+    assert.strictEqual(result.output.age, 42);
+    assert.deepStrictEqual(result.rawValues, {
+      name: "John",
+      age: "42",
+      address: { city: "NYC" },
+    });
+  });
+
+  test("should replace files with their metadata by default", () => {
+    const data = new FormData();
+    const avatar = new File(["hello"], "avatar.png", { type: "image/png" });
+    data.append("avatar", avatar);
+
+    const result = parseForm(schema, data);
+    assert.deepStrictEqual(result.rawValues.avatar, {
+      name: "avatar.png",
+      type: "image/png",
+      size: 5,
+    });
+    assert.strictEqual(parseForm(schema, data, { files: "keep" }).rawValues.avatar, avatar);
+  });
+
+  test("should give raw values that round-trip through JSON", () => {
+    const data = new URLSearchParams([
+      ["name", "John"],
+      ["hobbies[]", "reading"],
+      ["address.city", "NYC"],
+    ]);
+    const { rawValues } = parseForm(schema, data);
+    assert.deepStrictEqual(JSON.parse(JSON.stringify(rawValues)), rawValues);
+    assert.strictEqual(Object.getPrototypeOf(rawValues), Object.prototype);
+  });
+
+  test("should not back-fill missing fields", () => {
+    const result = parseForm(schema, new URLSearchParams({ name: "John" }));
+    assert.deepStrictEqual(result.rawValues, { name: "John" });
+  });
+
+  test("should keep the raw values of invalid field names out", () => {
+    const data = new URLSearchParams([
+      ["name", "John"],
+      ["__proto__.polluted", "yes"],
+    ]);
+    const result = parseForm(schema, data);
+    assert.ok(!result.success);
+    assert.deepStrictEqual(result.rawValues, { name: "John" });
+  });
+
+  test("should return empty raw values if the input is not form data", () => {
+    const result = parseForm(schema, "name=John");
+    assert.ok(!result.success);
+    assert.deepStrictEqual(result.rawValues, {});
+    assert.strictEqual(result.formErrors.length, 1);
+  });
+
+  test("should work with actions in the pipe of the form schema", () => {
+    const passwords = v.pipe(
+      vfd.formData({ password: vfd.text(), passwordConfirm: vfd.text() }),
+      matches("password", "passwordConfirm"),
+    );
+    const result = parseForm(
+      passwords,
+      new URLSearchParams({ password: "a", passwordConfirm: "b" }),
+    );
+    assert.ok(!result.success);
+    assert.deepStrictEqual(result.rawValues, { password: "a", passwordConfirm: "b" });
+    assert.deepStrictEqual(Object.keys(result.fieldErrors), ["passwordConfirm"]);
+  });
+
+  test("should use the notation option for field errors", () => {
+    const result = parseForm(schema, new URLSearchParams({ name: "John", age: "1" }), {
+      notation: "bracket",
+    });
+    assert.ok(!result.success);
+    assert.deepStrictEqual(Object.keys(result.fieldErrors), ["address[city]"]);
+  });
+
+  test("should keep the submission order of appended and indexed fields", () => {
+    const data = new URLSearchParams([
+      ["items[]", "a"],
+      ["items[1]", "b"],
+      ["items[]", "c"],
+    ]);
+    const { rawValues } = parseForm(vfd.formData({ items: vfd.repeatable() }), data);
+    assert.deepStrictEqual(rawValues, { items: ["a", "b", "c"] });
+  });
+
+  test("should group every spelling of a field name", () => {
+    const data = new URLSearchParams([
+      ["hobbies", "a"],
+      ["[hobbies]", "b"],
+    ]);
+    assert.deepStrictEqual(parseForm(schema, data).rawValues.hobbies, ["a", "b"]);
+  });
+
+  test("should apply the limits to the raw values", () => {
+    const data = new URLSearchParams([
+      ["name", "John"],
+      ["items[5000]", "x"],
+    ]);
+    assert.deepStrictEqual(parseForm(schema, data).rawValues, { name: "John" });
+    assert.deepStrictEqual(parseForm(schema, data, { maxEntries: 1 }).rawValues, {});
+  });
+
+  test("should read the raw values with the options of the schema", () => {
+    const stringKeys = vfd.formData(
+      { a: v.object({ "0": vfd.text(), x: vfd.numeric() }) },
+      { numericKeys: "string" },
+    );
+    const result = parseForm(stringKeys, new URLSearchParams({ "a.0": "hi", "a.x": "abc" }));
+    assert.ok(!result.success);
+    assert.deepStrictEqual(result.rawValues, { a: { "0": "hi", x: "abc" } });
+    assert.deepStrictEqual(Object.keys(result.fieldErrors), ["a.x"]);
+
+    const manyEntries = vfd.formData({ items: vfd.repeatable() }, { maxEntries: 5000 });
+    const data = new URLSearchParams(Array.from({ length: 1500 }, () => ["items", "x"]));
+    const manyResult = parseForm(manyEntries, data);
+    assert.ok(manyResult.success);
+    assert.strictEqual((manyResult.rawValues.items as Array<string>).length, 1500);
+  });
+
+  test("should throw for async schemas", () => {
+    const asyncSchema = vfd.formDataAsync({ name: vfd.text() });
+    assert.throws(
+      () => parseForm(asyncSchema as unknown as v.GenericSchema, new FormData()),
+      /does not support async schemas/,
+    );
+  });
+});
@@ -0,0 +1,215 @@
+import * as v from "valibot";
+import { getFieldKind, unwrapSchema } from "./field-kind.ts";
+import { isIterable, resolveFormDataOptions, validateFieldName } from "./form-data-schema.ts";
+import { formErrors } from "./form-errors.ts";
+import { resolvePath, setPath } from "./set-path.ts";
+import { APPEND_SEGMENT, stringToPathArray } from "./string-to-path-array.ts";
+import type { FormDataOptions } from "./form-data-schema.ts";
+import type { FormErrors, FormErrorsOptions } from "./form-errors.ts";
+import type { PathNotation } from "./path-array-to-string.ts";
+
+/**
+ * Metadata replacing an uploaded file in the raw values.
+ */
+export type FileMetadata = {
+  name: string;
+  type: string;
+  size: number;
+};
+
+/**
+ * Submitted value of a field before validation: a string, a file (or its metadata), the values
+ * of a repeated field name, or the fields of a nested object.
+ */
+export type RawFormValue =
+  | string
+  | File
+  | FileMetadata
+  | Array<RawFormValue>
+  | { [key: string]: RawFormValue };
+
+/**
+ * Submitted values of a form before validation, nested like the output of formData().
+ */
+export type RawFormValues = { [key: string]: RawFormValue };
+
+/**
+ * Configuration options for parseForm(). The raw values are read with the options of the
+ * formData() schema, the options of formData() given here replace them, e.g. for forms with a
+ * union or variant shape.
+ */
+export type ParseFormOptions<TNotation extends PathNotation = PathNotation> =
+  FormErrorsOptions<TNotation> &
+    FormDataOptions & {
+      /**
+       * How uploaded files appear in the raw values. "metadata" replaces them with their name, type
+       * and size, so the raw values can be serialized to JSON. Defaults to "metadata"
+       */
+      files?: "metadata" | "keep";
+    };
+
+/**
+ * Result of parseForm(), the result of safeParseForm() with the raw submitted values.
+ */
+export type ParseFormResult<
+  TSchema extends v.GenericSchema,
+  TNotation extends PathNotation = "mixed",
+> =
+  | {
+      success: true;
+      output: v.InferOutput<TSchema>;
+      rawValues: RawFormValues;
+    }
+  | ({
+      success: false;
+      issues: [v.InferIssue<TSchema>, ...Array<v.InferIssue<TSchema>>];
+      rawValues: RawFormValues;
+    } & FormErrors<TSchema, TNotation>);
+
+/**
+ * Internal helper that builds the raw values from the submitted entries, grouping them like
+ * formData() does: repeated field names become arrays, empty brackets (e.g. "tags[]") append
+ * to an array and nested objects are built with setPath. Field names that formData() rejects
+ * (e.g. "__proto__.polluted" or names conflicting with another field) are left out.
+ *
+ * @param input - FormData, URLSearchParams or any other input of the schema
+ * @param config - The resolved limits and numeric key handling
+ * @returns The nested raw values, or an empty object if the input has no readable entries
+ */
+function readRawValues(input: unknown, config: Required<FormDataOptions>): Record<string, unknown> {
+  if (!isIterable(input) || typeof input === "string") {
+    return {};
+  }
+  const { numericKeys } = config;
+
+  // Fields in submission order, each with its values, grouped by their path segments like
+  // formData() does. Appended fields are kept separately for every value, as each of them adds
+  // an array item.
+  const assignments: Array<{ key: string; values: Array<unknown> }> = [];
+  const groups = new Map<string, Array<unknown>>();
+  let count = 0;
+  for (const entry of input) {
+    if (++count > config.maxEntries) {
+      return {};
+    }
+    if (!Array.isArray(entry) || typeof entry[0] !== "string") {
+      continue;
+    }
+    const [key, value] = entry as [string, unknown];
+    const segments = stringToPathArray(key, { numericKeys });
+    if (segments.includes(APPEND_SEGMENT)) {
+      assignments.push({ key, values: [value] });
+      continue;
+    }
+    const path = JSON.stringify(segments);
+    const values = groups.get(path);
+    if (values !== undefined) {
+      values.push(value);
+    } else {
+      const group = [value];
+      groups.set(path, group);
+      assignments.push({ key, values: group });
+    }
+  }
+
+  const result: Record<string, unknown> = Object.create(null);
+  for (const { key, values } of assignments) {
+    const path = resolvePath(result, stringToPathArray(key, { numericKeys }));
+    if (validateFieldName(path, config) !== undefined) {
+      continue;
+    }
+    try {
+      setPath(result, key, values.length === 1 ? values[0] : values, {
+        nullPrototype: true,
+        numericKeys,
+      });
+    } catch {
+      // Conflicting field names, e.g. "user" and "user.name", formData() reports them
+    }
+  }
+  return result;
+}
+
+/**
+ * Internal helper that copies the raw values to plain objects and arrays, so they can be
+ * serialized, and optionally replaces the files with their metadata.
+ *
+ * @param value - Raw value
+ * @param files - How files appear in the copy
+ * @returns Copy of the raw value
+ */
+function toPlainValue(value: unknown, files: "metadata" | "keep"): unknown {
+  if (value instanceof File) {
+    return files === "keep" ? value : { name: value.name, type: value.type, size: value.size };
+  }
+  if (Array.isArray(value)) {
+    return Array.from(value, (item) => toPlainValue(item, files));
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, toPlainValue(item, files)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Parses form data like safeParseForm() and also returns the submitted values before
+ * validation, so a form can be rendered again with exactly what the user entered after a
+ * failed submission (e.g. "abc" in a numeric() field). The raw values are nested like the
+ * output of formData(), with repeated field names as arrays and uploaded files replaced by
+ * their metadata, so they can be serialized to JSON, e.g. to keep them in a flash cookie.
+ * Fields the user did not submit are missing from the raw values, and the raw values are empty
+ * if the input could not be read as form entries (e.g. too many entries). Async schemas, e.g.
+ * created with formDataAsync(), are not supported and throw an error.
+ *
+ * @param schema - Form schema created with formData(), e.g. with further actions in a pipe
+ * @param input - FormData, URLSearchParams or any other input of the schema
+ * @param options - Configuration options
+ * @returns The parsed output or the issues and form errors, with the raw values
+ *
+ * @example
+ * const schema = formData({ name: text(), age: numeric() });
+ *
+ * const result = parseForm(schema, await request.formData()); // name=John&age=abc
+ * if (!result.success) {
+ *   result.fieldErrors; // → { age: ["Invalid number: ..."] }
+ *   result.rawValues; // → { name: "John", age: "abc" }
+ *   session.flash("form", JSON.stringify({ values: result.rawValues, errors: result.fieldErrors }));
+ * }
+ */
+export function parseForm<
+  TSchema extends v.GenericSchema,
+  TNotation extends PathNotation = "mixed",
+>(
+  schema: TSchema,
+  input: unknown,
+  options: ParseFormOptions<TNotation> = {},
+): ParseFormResult<TSchema, TNotation> {
+  if (schema.async) {
+    throw new Error("Invalid schema: parseForm() does not support async schemas");
+  }
+  const result = v.safeParse(schema, input);
+  const kind = getFieldKind(unwrapSchema(schema));
+  const config = resolveFormDataOptions({
+    ...(kind?.type === "form" ? kind.options : {}),
+    ...options,
+  });
+  const rawValues = toPlainValue(
+    readRawValues(input, config),
+    options.files ?? "metadata",
+  ) as RawFormValues;
+
+  if (result.success) {
+    return { success: true, output: result.output, rawValues };
+  }
+  return {
+    success: false,
+    issues: result.issues,
+    rawValues,
+    ...formErrors<TSchema, TNotation>(result.issues, {
+      ...options,
+      numericKeys: config.numericKeys,
+    }),
+  };
+}
@@ -0,0 +1,285 @@
+import * as assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import * as v from "valibot";
+import { fileSignature } from "./file-content.ts";
+import { checkbox, file, formData, formDataAsync, numeric, text } from "./form-data-schema.ts";
+import { parseNodeRequest, parseRequest } from "./parse-request.ts";
+import type { NodeRequestLike } from "./parse-request.ts";
+
+const schema = formData({
+  name: text(),
+  age: numeric(),
+  subscribe: checkbox(),
+  address: v.object({ city: text() }),
+});
+
+const expected = { name: "John", age: 30, subscribe: true, address: { city: "NYC" } };
+
+function createNodeRequest(
+  chunks: Array<string | Uint8Array>,
+  headers: NodeRequestLike["headers"],
+  method = "POST",
+): NodeRequestLike {
+  return {
+    method,
+    url: "/submit",
+    headers,
+    async *[Symbol.asyncIterator]() {
+      yield* chunks;
+    },
+  };
+}
+
+describe("parseRequest()", () => {
+  test("should parse url encoded bodies", async () => {
+    const request = new Request("http://localhost/", {
+      method: "POST",
+      body: new URLSearchParams("name=John&age=30&subscribe=on&address.city=NYC"),
+    });
+    assert.deepStrictEqual(await parseRequest(schema, request), {
+      success: true,
+      output: expected,
+    });
+  });
+
+  test("should parse multipart bodies", async () => {
+    const body = new FormData();
+    body.append("name", "John");
+    body.append("age", "30");
+    body.append("subscribe", "on");
+    body.append("address.city", "NYC");
+    const request = new Request("http://localhost/", { method: "POST", body });
+    assert.deepStrictEqual(await parseRequest(schema, request), {
+      success: true,
+      output: expected,
+    });
+  });
+
+  test("should skip multipart parts of fields that are not part of the schema", async () => {
+    const body = new FormData();
+    body.append("name", "John");
+    body.append("_csrf", "token");
+    body.append("upload", new File(["x".repeat(1000)], "upload.bin"));
+    const request = () => new Request("http://localhost/", { method: "POST", body });
+
+    const nameSchema = formData({ name: text() });
+    assert.deepStrictEqual(await parseRequest(nameSchema, request()), {
+      success: true,
+      output: { name: "John" },
+    });
+
+    const passthrough = formData({ name: text() }, { unknownKeys: "passthrough" });
+    const passthroughResult = await parseRequest(passthrough, request());
+    assert.ok(passthroughResult.success);
+    assert.ok((passthroughResult.output as Record<string, unknown>).upload instanceof File);
+  });
+
+  test("should reject multipart parts of unknown fields if the schema reports them", async () => {
+    const body = new FormData();
+    body.append("name", "John");
+    body.append("upload", new File(["x".repeat(1000)], "upload.bin"));
+    const request = () => new Request("http://localhost/", { method: "POST", body });
+
+    const strict = formData({ name: text() }, { unknownKeys: "error" });
+    const result = await parseRequest(strict, request());
+    assert.ok(!result.success);
+    assert.deepStrictEqual(result.fieldErrors, {
+      upload: ['Invalid field: Expected name but received "upload"'],
+    });
+
+    const allowed = await parseRequest(formData({ name: text() }), request(), {
+      multipart: { allowedFields: ["name"], disallowedFields: "error" },
+    });
+    assert.ok(!allowed.success);
+  });
+
+  test("should parse JSON bodies with the same helpers", async () => {
+    const request = new Request("http://localhost/", {
+      method: "POST",
+      headers: { "Content-Type": "application/json; charset=utf-8" },
+      body: JSON.stringify({ name: "John", age: 30, subscribe: true, address: { city: "NYC" } }),
+    });
+    assert.deepStrictEqual(await parseRequest(schema, request), {
+      success: true,
+      output: expected,
+    });
+  });
+
+  test("should parse the query string of GET requests", async () => {
+    const request = new Request("http://localhost/?name=John&age=30&subscribe=on&address.city=NYC");
+    assert.deepStrictEqual(await parseRequest(schema, request), {
+      success: true,
+      output: expected,
+    });
+  });
+
+  test("should return field errors on failure", async () => {
+    const request = new Request("http://localhost/", {
+      method: "POST",
+      body: new URLSearchParams("name=John&age=abc"),
+    });
+    const result = await parseRequest(schema, request);
+    assert.ok(!result.success);
+    assert.deepStrictEqual(Object.keys(result.fieldErrors), ["age", "address.city"]);
+    assert.deepStrictEqual(result.formErrors, []);
+  });
+
+  test("should reject unsupported content types", async () => {
+    const request = new Request("http://localhost/", {
+      method: "POST",
+      headers: { "Content-Type": "text/plain" },
+      body: "name=John",
+    });
+    const result = await parseRequest(schema, request);
+    assert.ok(!result.success);
+    assert.deepStrictEqual(result.formErrors, [
+      'Invalid content type: Expected application/x-www-form-urlencoded | multipart/form-data | application/json but received "text/plain"',
+    ]);
+    assert.deepStrictEqual(result.fieldErrors, {});
+  });
+
+  test("should reject bodies larger than maxBodySize", async () => {
+    const request = new Request("http://localhost/", {
+      method: "POST",
+      body: new URLSearchParams({ name: "x".repeat(100) }),
+    });
+    const result = await parseRequest(schema, request, { maxBodySize: 50 });
+    assert.ok(!result.success);
+    assert.deepStrictEqual(result.formErrors, [
+      "Too large: Expected at most 50 bytes but received >50",
+    ]);
+  });
+
+  test("should reject bodies by their announced length", async () => {
+    const request = new Request("http://localhost/", {
+      method: "POST",
+      headers: { "Content-Length": "1000" },
+      body: new URLSearchParams({ name: "John" }),
+    });
+    const result = await parseRequest(schema, request, { maxBodySize: 50 });
+    assert.ok(!result.success);
+    assert.deepStrictEqual(result.formErrors, [
+      "Too large: Expected at most 50 bytes but received 1000",
+    ]);
+  });
+
+  test("should reject malformed JSON and non-object JSON", async () => {
+    const malformed = new Request("http://localhost/", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{",
+    });
+    const malformedResult = await parseRequest(schema, malformed);
+    assert.ok(!malformedResult.success);
+    assert.match(malformedResult.formErrors[0] ?? "", /^Invalid body: /);
+
+    const array = new Request("http://localhost/", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "[1, 2]",
+    });
+    const arrayResult = await parseRequest(schema, array);
+    assert.ok(!arrayResult.success);
+    assert.deepStrictEqual(arrayResult.formErrors, [
+      "Invalid body: Expected Object but received Array",
+    ]);
+
+    const scalar = new Request("http://localhost/", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "42",
+    });
+    const scalarResult = await parseRequest(schema, scalar);
+    assert.ok(!scalarResult.success);
+    assert.deepStrictEqual(scalarResult.formErrors, [
+      "Invalid body: Expected Object but received number",
+    ]);
+  });
+
+  test("should reject JSON values that can't be read as form values", async () => {
+    const request = new Request("http://localhost/", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "John", subscribe: "yes" }),
+    });
+    const result = await parseRequest(schema, request);
+    assert.ok(!result.success);
+    assert.deepStrictEqual(result.formErrors, [
+      'Invalid body: Cannot serialize checkbox value of type string at path "subscribe"',
+    ]);
+  });
+
+  test("should support async schemas", async () => {
+    const asyncSchema = formDataAsync({
+      avatar: v.pipeAsync(file(), fileSignature(["png"])),
+    });
+    const body = new FormData();
+    body.append("avatar", new File(["MZ"], "avatar.png", { type: "image/png" }));
+    const result = await parseRequest(
+      asyncSchema,
+      new Request("http://localhost/", { method: "POST", body }),
+    );
+    assert.ok(!result.success);
+    assert.deepStrictEqual(result.fieldErrors, {
+      avatar: ["Invalid file signature: Expected png but received unknown"],
+    });
+  });
+});
+
+describe("parseNodeRequest()", () => {
+  test("should parse url encoded bodies from the message stream", async () => {
+    const request = createNodeRequest(["name=John&age=30", "&subscribe=on&address.city=NYC"], {
+      "content-type": "application/x-www-form-urlencoded",
+    });
+    assert.deepStrictEqual(await parseNodeRequest(schema, request), {
+      success: true,
+      output: expected,
+    });
+  });
+
+  test("should parse JSON bodies from byte chunks", async () => {
+    const json = JSON.stringify({ name: "John", age: "30", address: { city: "NYC" } });
+    const request = createNodeRequest([new TextEncoder().encode(json)], {
+      "content-type": "application/json",
+    });
+    assert.deepStrictEqual(await parseNodeRequest(schema, request), {
+      success: true,
+      output: { ...expected, subscribe: false },
+    });
+  });
+
+  test("should parse the query string of GET requests", async () => {
+    const request = createNodeRequest([], {}, "GET");
+    request.url = "/search?name=John&age=30&address.city=NYC";
+    const result = await parseNodeRequest(schema, request);
+    assert.deepStrictEqual(result, { success: true, output: { ...expected, subscribe: false } });
+  });
+
+  test("should reject malformed URLs", async () => {
+    const request = createNodeRequest([], {}, "GET");
+    request.url = "//[bad/search?name=John";
+    const result = await parseNodeRequest(schema, request);
+    assert.ok(!result.success);
+    assert.deepStrictEqual(result.formErrors, ['Invalid URL: "//[bad/search?name=John"']);
+  });
+
+  test("should stop reading bodies larger than maxBodySize", async () => {
+    let chunksRead = 0;
+    const request: NodeRequestLike = {
+      method: "POST",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      async *[Symbol.asyncIterator]() {
+        for (let index = 0; index < 100; index++) {
+          chunksRead++;
+          yield "x".repeat(10);
+        }
+      },
+    };
+    const result = await parseNodeRequest(schema, request, { maxBodySize: 25 });
+    assert.ok(!result.success);
+    assert.deepStrictEqual(result.formErrors, [
+      "Too large: Expected at most 25 bytes but received >25",
+    ]);
+    assert.strictEqual(chunksRead, 3);
+  });
+});
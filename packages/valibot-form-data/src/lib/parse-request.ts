@@ -0,0 +1,381 @@
+import * as v from "valibot";
+import { getFieldKind, unwrapSchema } from "./field-kind.ts";
+import { formErrors } from "./form-errors.ts";
+import { parseMultipart } from "./multipart.ts";
+import { readStream, requestIssue } from "./request-body.ts";
+import { flatten } from "./to-form-data.ts";
+import type { FormErrors, FormErrorsOptions } from "./form-errors.ts";
+import type { MultipartOptions } from "./multipart.ts";
+import type { PathNotation } from "./path-array-to-string.ts";
+import type { RequestIssue } from "./request-body.ts";
+
+/**
+ * Configuration options for parseRequest() and parseNodeRequest().
+ */
+export type ParseRequestOptions<TNotation extends PathNotation = PathNotation> =
+  FormErrorsOptions<TNotation> & {
+    /** Maximum size of the request body in bytes, including files. Defaults to 10 MiB */
+    maxBodySize?: number;
+    /** Limits and file storage for multipart bodies, see parseMultipart() */
+    multipart?: MultipartOptions;
+  };
+
+/**
+ * Result of parseRequest() and parseNodeRequest(), either the parsed output or the issues and
+ * form errors. Issues of the request itself are reported as form errors.
+ */
+export type ParseRequestResult<
+  TSchema extends v.GenericSchema | v.GenericSchemaAsync,
+  TNotation extends PathNotation = "mixed",
+> =
+  | {
+      success: true;
+      output: v.InferOutput<TSchema>;
+    }
+  | ({
+      success: false;
+      issues: [
+        v.InferIssue<TSchema> | RequestIssue,
+        ...Array<v.InferIssue<TSchema> | RequestIssue>,
+      ];
+    } & FormErrors<TSchema, TNotation>);
+
+/**
+ * Minimal shape of a Node.js `http.IncomingMessage`, so the adapter works without depending
+ * on Node.js types.
+ */
+export type NodeRequestLike = AsyncIterable<Uint8Array | string> & {
+  method?: string | undefined;
+  url?: string | undefined;
+  headers: Record<string, string | Array<string> | undefined>;
+};
+
+/**
+ * Framework independent description of an incoming request.
+ */
+type RequestSource = {
+  method: string;
+  url: string;
+  contentType: string | null;
+  contentLength: string | null;
+  body: AsyncIterable<Uint8Array | string> | null;
+};
+
+// Content types of request bodies that can be parsed.
+const SUPPORTED_CONTENT_TYPES = [
+  "application/x-www-form-urlencoded",
+  "multipart/form-data",
+  "application/json",
+];
+
+// Methods whose input is read from the query string.
+const QUERY_METHODS = new Set(["GET", "HEAD"]);
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Limits the size of a request body while it is read, converting string chunks to bytes.
+ *
+ * @param body - Chunks of the body
+ * @param maxBodySize - Maximum size in bytes
+ * @param onTooLarge - Called when the body exceeds the limit, before the iteration stops
+ * @returns Async iterable of the chunks within the limit
+ */
+async function* limitBody(
+  body: AsyncIterable<Uint8Array | string> | Iterable<Uint8Array | string>,
+  maxBodySize: number,
+  onTooLarge: () => void,
+): AsyncGenerator<Uint8Array> {
+  let size = 0;
+  for await (const chunk of body) {
+    const bytes = typeof chunk === "string" ? textEncoder.encode(chunk) : chunk;
+    size += bytes.byteLength;
+    if (size > maxBodySize) {
+      onTooLarge();
+      return;
+    }
+    yield bytes;
+  }
+}
+
+/**
+ * Reads a request body into memory.
+ *
+ * @param body - Chunks of the body
+ * @returns The body
+ */
+async function readBody(body: AsyncIterable<Uint8Array>): Promise<Uint8Array<ArrayBuffer>> {
+  const chunks: Array<Uint8Array> = [];
+  let size = 0;
+  for await (const chunk of body) {
+    chunks.push(chunk);
+    size += chunk.byteLength;
+  }
+
+  const result = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return result;
+}
+
+/**
+ * Returns the allowed fields of multipart bodies for a form schema created with formData() from
+ * object entries: its top-level field names. Parts of other fields are skipped like formData()
+ * strips unknown fields, or rejected if the form reports them (unknownKeys "error"). Forms that
+ * keep unknown fields and forms with a union or variant shape accept any field.
+ *
+ * @param schema - Form schema
+ * @returns The allowed fields options of parseMultipart()
+ */
+function getAllowedFields(
+  schema: v.GenericSchema | v.GenericSchemaAsync,
+): Pick<MultipartOptions, "allowedFields" | "disallowedFields"> {
+  const kind = getFieldKind(unwrapSchema(schema));
+  if (kind?.type !== "form" || kind.options.unknownKeys === "passthrough") {
+    return {};
+  }
+  return {
+    allowedFields: Object.keys(kind.entries),
+    disallowedFields: kind.options.unknownKeys === "error" ? "error" : "skip",
+  };
+}
+
+/**
+ * Reads the input of a request: the query string for GET and HEAD requests, otherwise the body
+ * decoded according to its content type. Multipart bodies are parsed while they are streamed,
+ * skipping or rejecting parts of fields that are not part of the schema before they are stored,
+ * and JSON bodies are flattened into form entries using the schema, so they go through the same
+ * pipeline as form submissions.
+ *
+ * @param schema - Form schema, used to flatten JSON bodies and to allow multipart fields
+ * @param source - The request
+ * @param options - Configuration options
+ * @returns Iterable form entries, or an issue if the request could not be read
+ */
+async function readInput(
+  schema: v.GenericSchema | v.GenericSchemaAsync,
+  source: RequestSource,
+  options: ParseRequestOptions,
+): Promise<{ input: Iterable<unknown> } | { issue: RequestIssue }> {
+  if (QUERY_METHODS.has(source.method.toUpperCase())) {
+    try {
+      return { input: new URL(source.url, "http://localhost").searchParams };
+    } catch {
+      return { issue: requestIssue(`Invalid URL: "${source.url}"`, "URL", `"${source.url}"`) };
+    }
+  }
+
+  const contentType = source.contentType ?? "";
+  const mimeType = contentType.split(";")[0]?.trim().toLowerCase() ?? "";
+  if (!SUPPORTED_CONTENT_TYPES.includes(mimeType)) {
+    const expected = SUPPORTED_CONTENT_TYPES.join(" | ");
+    const received = source.contentType === null ? "none" : `"${mimeType}"`;
+    return {
+      issue: requestIssue(
+        `Invalid content type: Expected ${expected} but received ${received}`,
+        expected,
+        received,
+      ),
+    };
+  }
+
+  // Reject bodies that are announced to be too large before reading them.
+  const { maxBodySize = 10 * 1024 * 1024 } = options;
+  const contentLength = Number(source.contentLength ?? 0);
+  let tooLarge = contentLength > maxBodySize;
+  const tooLargeIssue = () => {
+    const received = contentLength > maxBodySize ? String(contentLength) : `>${maxBodySize}`;
+    return requestIssue(
+      `Too large: Expected at most ${maxBodySize} bytes but received ${received}`,
+      `<=${maxBodySize}`,
+      received,
+    );
+  };
+  if (tooLarge) {
+    return { issue: tooLargeIssue() };
+  }
+  const body = limitBody(source.body ?? [], maxBodySize, () => {
+    tooLarge = true;
+  });
+
+  if (mimeType === "multipart/form-data") {
+    const result = await parseMultipart(body, contentType, {
+      ...getAllowedFields(schema),
+      ...options.multipart,
+    });
+    if (tooLarge) {
+      return { issue: tooLargeIssue() };
+    }
+    return result.success ? { input: result.entries } : { issue: result.issues[0] };
+  }
+
+  const bytes = await readBody(body);
+  if (tooLarge) {
+    return { issue: tooLargeIssue() };
+  }
+
+  if (mimeType === "application/x-www-form-urlencoded") {
+    return { input: new URLSearchParams(new TextDecoder().decode(bytes)) };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { issue: requestIssue(`Invalid body: ${reason}`, mimeType, "invalid") };
+  }
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    const received = Array.isArray(json) ? "Array" : json === null ? "null" : typeof json;
+    return {
+      issue: requestIssue(
+        `Invalid body: Expected Object but received ${received}`,
+        "Object",
+        received,
+      ),
+    };
+  }
+  // Values the schema can't take as form values (e.g. a string for a checkbox()) throw.
+  try {
+    return { input: flatten(schema, json, {}) };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { issue: requestIssue(`Invalid body: ${reason}`, mimeType, "invalid") };
+  }
+}
+
+/**
+ * Reads and validates a request with the given schema.
+ *
+ * @param schema - Form schema
+ * @param source - The request
+ * @param options - Configuration options
+ * @returns The parsed output or the issues and form errors
+ */
+async function parseSource<
+  TSchema extends v.GenericSchema | v.GenericSchemaAsync,
+  TNotation extends PathNotation,
+>(
+  schema: TSchema,
+  source: RequestSource,
+  options: ParseRequestOptions<TNotation>,
+): Promise<ParseRequestResult<TSchema, TNotation>> {
+  const { maxBodySize, multipart, ...errorsOptions } = options;
+  const read = await readInput(schema, source, { maxBodySize, multipart });
+  if ("issue" in read) {
+    return {
+      success: false,
+      issues: [read.issue],
+      ...formErrors<TSchema, TNotation>([read.issue], errorsOptions),
+    };
+  }
+
+  const result = await v.safeParseAsync(schema, read.input);
+  if (result.success) {
+    return { success: true, output: result.output as v.InferOutput<TSchema> };
+  }
+  return {
+    success: false,
+    issues: result.issues as [v.InferIssue<TSchema>, ...Array<v.InferIssue<TSchema>>],
+    ...formErrors<TSchema, TNotation>(result.issues, errorsOptions),
+  };
+}
+
+/**
+ * Parses a Fetch API Request with a form schema, without throwing.
+ * The input is read depending on the request:
+ * - GET and HEAD requests: the query string
+ * - `application/x-www-form-urlencoded` and `multipart/form-data` bodies: the submitted fields
+ * - `application/json` bodies: the JSON object, flattened into fields with toFormData() rules
+ *   (e.g. `true` for a checkbox() becomes its trueValue)
+ *
+ * The entries are then parsed by the schema, so field names, limits and helpers work the same
+ * way for every content type. Bodies larger than maxBodySize are rejected without being read
+ * completely. Multipart parts of fields that are not part of a formData() shape are skipped
+ * without being stored, or rejected with unknownKeys "error" (see the allowedFields option of
+ * parseMultipart()). Works with sync and async schemas, e.g. formData() and formDataAsync().
+ *
+ * @param schema - Form schema, usually created with formData() or formDataAsync()
+ * @param request - The Fetch API Request
+ * @param options - Configuration options
+ * @returns Promise of the parsed output or the issues and form errors
+ *
+ * @example
+ * export async function action({ request }: { request: Request }) {
+ *   const result = await parseRequest(schema, request);
+ *   if (!result.success) {
+ *     return { errors: result.fieldErrors };
+ *   }
+ *   await saveUser(result.output);
+ * }
+ */
+export async function parseRequest<
+  TSchema extends v.GenericSchema | v.GenericSchemaAsync,
+  TNotation extends PathNotation = "mixed",
+>(
+  schema: TSchema,
+  request: Request,
+  options: ParseRequestOptions<TNotation> = {},
+): Promise<ParseRequestResult<TSchema, TNotation>> {
+  return parseSource(
+    schema,
+    {
+      method: request.method,
+      url: request.url,
+      contentType: request.headers.get("Content-Type"),
+      contentLength: request.headers.get("Content-Length"),
+      body: request.body === null ? null : readStream(request.body),
+    },
+    options,
+  );
+}
+
+/**
+ * Returns the first value of a Node.js header.
+ *
+ * @param value - Header value as provided by Node.js
+ * @returns The header value or null if missing
+ */
+function getNodeHeader(value: string | Array<string> | undefined): string | null {
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+}
+
+/**
+ * Parses a Node.js `http.IncomingMessage` with a form schema, without throwing.
+ * Works like parseRequest(), reading the body from the message stream.
+ *
+ * @param schema - Form schema, usually created with formData() or formDataAsync()
+ * @param request - The Node.js request, e.g. the first argument of an `http.createServer()` handler
+ * @param options - Configuration options
+ * @returns Promise of the parsed output or the issues and form errors
+ *
+ * @example
+ * http.createServer(async (req, res) => {
+ *   const result = await parseNodeRequest(schema, req);
+ *   res.statusCode = result.success ? 200 : 400;
+ *   res.end(JSON.stringify(result.success ? result.output : result.fieldErrors));
+ * });
+ */
+export async function parseNodeRequest<
+  TSchema extends v.GenericSchema | v.GenericSchemaAsync,
+  TNotation extends PathNotation = "mixed",
+>(
+  schema: TSchema,
+  request: NodeRequestLike,
+  options: ParseRequestOptions<TNotation> = {},
+): Promise<ParseRequestResult<TSchema, TNotation>> {
+  return parseSource(
+    schema,
+    {
+      method: request.method ?? "GET",
+      url: request.url ?? "/",
+      contentType: getNodeHeader(request.headers["content-type"]),
+      contentLength: getNodeHeader(request.headers["content-length"]),
+      body: request,
+    },
+    options,
+  );
+}
@@ -0,0 +1,124 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { pathArrayToString } from "./path-array-to-string.ts";
+import { APPEND_SEGMENT, stringToPathArray } from "./string-to-path-array.ts";
+
+describe('The "pathArrayToString" function', () => {
+  describe("with empty path", () => {
+    it("should return empty string for empty array", () => {
+      assert.strictEqual(pathArrayToString([]), "");
+    });
+  });
+
+  describe("with mixed notation", () => {
+    it("should be the default notation", () => {
+      assert.strictEqual(pathArrayToString(["users", 0, "name"]), "users[0].name");
+    });
+
+    it("should use dots for string segments", () => {
+      assert.strictEqual(
+        pathArrayToString(["user", "profile", "name"], { notation: "mixed" }),
+        "user.profile.name",
+      );
+    });
+
+    it("should use brackets for leading numeric segments", () => {
+      assert.strictEqual(pathArrayToString([0, "title"], { notation: "mixed" }), "[0].title");
+    });
+
+    it("should handle consecutive numeric segments", () => {
+      assert.strictEqual(
+        pathArrayToString(["matrix", 1, 2], { notation: "mixed" }),
+        "matrix[1][2]",
+      );
+    });
+  });
+
+  describe("with dot notation", () => {
+    it("should join all segments with dots", () => {
+      assert.strictEqual(
+        pathArrayToString(["users", 0, "name"], { notation: "dot" }),
+        "users.0.name",
+      );
+    });
+
+    it("should handle single segment", () => {
+      assert.strictEqual(pathArrayToString(["name"], { notation: "dot" }), "name");
+    });
+  });
+
+  describe("with bracket notation", () => {
+    it("should wrap all segments after the first in brackets", () => {
+      assert.strictEqual(
+        pathArrayToString(["users", 0, "name"], { notation: "bracket" }),
+        "users[0][name]",
+      );
+    });
+
+    it("should handle single segment", () => {
+      assert.strictEqual(pathArrayToString(["name"], { notation: "bracket" }), "name");
+    });
+  });
+
+  describe("with append segments", () => {
+    it("should write empty brackets in every notation", () => {
+      assert.strictEqual(pathArrayToString(["tags", APPEND_SEGMENT]), "tags[]");
+      assert.strictEqual(
+        pathArrayToString(["items", APPEND_SEGMENT, "name"], { notation: "bracket" }),
+        "items[][name]",
+      );
+    });
+  });
+
+  describe("with special characters", () => {
+    it("should quote segments containing dots or brackets", () => {
+      assert.strictEqual(pathArrayToString(["fields", "user.email"]), 'fields["user.email"]');
+      assert.strictEqual(pathArrayToString(["a[0]"]), '["a[0]"]');
+    });
+
+    it("should escape quotes and backslashes inside quoted segments", () => {
+      assert.strictEqual(pathArrayToString(['say "hi"\\']), '["say \\"hi\\"\\\\"]');
+    });
+
+    it("should quote numeric-looking string segments", () => {
+      assert.strictEqual(pathArrayToString(["agents", "007"]), 'agents["007"]');
+      assert.strictEqual(
+        pathArrayToString(["prices", "1001"], { notation: "dot" }),
+        'prices["1001"]',
+      );
+    });
+
+    it("should not quote numeric-looking string segments with string numeric keys", () => {
+      assert.strictEqual(
+        pathArrayToString(["prices", "1001"], { numericKeys: "string" }),
+        "prices.1001",
+      );
+    });
+
+    it("should quote empty segments", () => {
+      assert.strictEqual(pathArrayToString(["map", ""]), 'map[""]');
+    });
+  });
+
+  describe("round-trip with stringToPathArray", () => {
+    const paths: Array<Array<string | number | typeof APPEND_SEGMENT>> = [
+      ["name"],
+      ["address", "street"],
+      ["locations", 1, "city"],
+      [0, "title"],
+      ["matrix", 0, 1],
+      ["items", APPEND_SEGMENT, "title"],
+      ["fields", "user.email", "value"],
+      ["agents", "007"],
+      ["odd", 'a"b\\c]', ""],
+    ];
+
+    for (const notation of ["dot", "bracket", "mixed"] as const) {
+      it(`should parse back into the same segments with ${notation} notation`, () => {
+        for (const path of paths) {
+          assert.deepStrictEqual(stringToPathArray(pathArrayToString(path, { notation })), path);
+        }
+      });
+    }
+  });
+});
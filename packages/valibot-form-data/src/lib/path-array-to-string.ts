@@ -0,0 +1,104 @@
+import { APPEND_SEGMENT } from "./string-to-path-array.ts";
+import type { NumericKeys, PathSegment } from "./string-to-path-array.ts";
+
+/**
+ * Notation used when converting path segments back to a field name.
+ * - "dot": every segment is joined with dots (e.g. "items.0.name")
+ * - "bracket": every segment after the first is wrapped in brackets (e.g. "items[0][name]")
+ * - "mixed": numeric segments use brackets, string segments use dots (e.g. "items[0].name")
+ */
+export type PathNotation = "dot" | "bracket" | "mixed";
+
+/**
+ * Configuration options for pathArrayToString.
+ */
+export type PathArrayToStringOptions = {
+  /** Notation used for the resulting path. Defaults to "mixed" */
+  notation?: PathNotation;
+  /**
+   * How the path will be parsed. With "string", numeric-looking string segments don't need
+   * to be quoted, as they are kept as strings when parsing. Defaults to "index"
+   */
+  numericKeys?: NumericKeys;
+};
+
+// Regular expression to match characters that have a meaning in paths.
+const SPECIAL_CHARACTERS_REGEX = /[.[\]\\"]/;
+
+// Regular expression to match characters that must be escaped inside quoted brackets.
+const QUOTED_ESCAPE_REGEX = /["\\]/g;
+
+// Regular expression to test if a string contains only digits
+// (for array indices).
+const NUMERIC_KEY_REGEX = /^\d+$/;
+
+/**
+ * Checks if a string segment has to be quoted to be parsed back into the same string,
+ * because it is empty, contains special characters or would be parsed as an array index.
+ *
+ * @param segment - String path segment
+ * @param numericKeys - How the path will be parsed
+ * @returns True if the segment has to be written in quoted brackets
+ */
+function needsQuotes(segment: string, numericKeys: NumericKeys): boolean {
+  return (
+    segment.length === 0 ||
+    SPECIAL_CHARACTERS_REGEX.test(segment) ||
+    (numericKeys === "index" && NUMERIC_KEY_REGEX.test(segment))
+  );
+}
+
+/**
+ * Converts an array of path segments to a string path.
+ * This is the inverse of stringToPathArray, so the result always parses back into the same segments.
+ * Append segments are always written as empty brackets, and string segments that are empty,
+ * contain dots, brackets, quotes or backslashes, or look like array indices are written in
+ * quoted brackets (e.g. '["user.email"]'), regardless of the notation.
+ *
+ * @param path - Array of path segments (e.g. ["user", "profile", 0, "name"])
+ * @param options - Configuration options
+ * @returns String path that can be used as a form field name
+ *
+ * @example
+ * pathArrayToString(["user", "profile", 0, "name"]) // "user.profile[0].name"
+ * pathArrayToString(["user", "profile", 0, "name"], { notation: "dot" }) // "user.profile.0.name"
+ * pathArrayToString(["user", "profile", 0, "name"], { notation: "bracket" }) // "user[profile][0][name]"
+ * pathArrayToString([0, "title"]) // "[0].title"
+ * pathArrayToString(["items", APPEND_SEGMENT, "name"]) // "items[].name"
+ * pathArrayToString(["fields", "user.email"]) // 'fields["user.email"]'
+ * pathArrayToString(["agents", "007"]) // 'agents["007"]'
+ * pathArrayToString([]) // ""
+ */
+export function pathArrayToString(
+  path: ReadonlyArray<PathSegment>,
+  options: PathArrayToStringOptions = {},
+): string {
+  const { notation = "mixed", numericKeys = "index" } = options;
+  let result = "";
+
+  for (const [index, segment] of path.entries()) {
+    if (segment === APPEND_SEGMENT) {
+      result += "[]";
+      continue;
+    }
+
+    if (typeof segment === "string" && needsQuotes(segment, numericKeys)) {
+      result += `["${segment.replace(QUOTED_ESCAPE_REGEX, "\\$&")}"]`;
+      continue;
+    }
+
+    const key = String(segment);
+
+    if (notation === "dot") {
+      result += index === 0 ? key : `.${key}`;
+    } else if (notation === "bracket") {
+      result += index === 0 ? key : `[${key}]`;
+    } else if (typeof segment === "number") {
+      result += `[${key}]`;
+    } else {
+      result += index === 0 ? key : `.${key}`;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,57 @@
+import type * as v from "valibot";
+
+/**
+ * Issue of a request that could not be read, e.g. because of an unsupported content type,
+ * a body that is too large or malformed.
+ */
+export type RequestIssue = v.BaseIssue<unknown> & {
+  kind: "validation";
+  type: "request";
+};
+
+/**
+ * Creates an issue for a request that could not be read.
+ *
+ * @param message - The issue message
+ * @param expected - The expected value
+ * @param received - The received value
+ * @param path - Path of the offending field. Issues without a path are reported as form errors
+ * @returns Request issue
+ */
+export function requestIssue(
+  message: string,
+  expected: string | null,
+  received: string,
+  path?: [v.IssuePathItem, ...Array<v.IssuePathItem>],
+): RequestIssue {
+  return {
+    kind: "validation",
+    type: "request",
+    input: undefined,
+    expected,
+    received,
+    message,
+    path,
+  };
+}
+
+/**
+ * Iterates over the chunks of a WHATWG ReadableStream.
+ *
+ * @param stream - The stream to read
+ * @returns Async iterable of chunks that cancels the stream when the iteration stops early
+ */
+export async function* readStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    await reader.cancel();
+  }
+}
@@ -0,0 +1,180 @@
+import * as assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import * as v from "valibot";
+import { enumField } from "./choice.ts";
+import * as vfd from "./form-data-schema.ts";
+import { pagination, searchParams, sortParam, toQueryString } from "./search-params.ts";
+
+const schema = searchParams({
+  q: vfd.text(v.optional(v.string(), "")),
+  page: v.fallback(vfd.numeric(v.optional(v.number(), 1)), 1),
+  sort: v.fallback(v.optional(enumField(["name", "price"]), "name"), "name"),
+  filter: v.object({
+    tags: vfd.repeatable(),
+    inStock: vfd.checkbox(),
+  }),
+});
+
+describe("searchParams()", () => {
+  test("should parse URLs, strings and URLSearchParams", () => {
+    const expected = {
+      q: "shoes",
+      page: 2,
+      sort: "name",
+      filter: { tags: ["new", "sale"], inStock: false },
+    };
+    const query = "q=shoes&page=2&filter.tags=new&filter.tags=sale";
+    assert.deepStrictEqual(
+      v.parse(schema, new URL(`https://example.com/products?${query}`)),
+      expected,
+    );
+    assert.deepStrictEqual(v.parse(schema, `https://example.com/products?${query}#top`), expected);
+    assert.deepStrictEqual(v.parse(schema, `/products?${query}`), expected);
+    assert.deepStrictEqual(v.parse(schema, `?${query}`), expected);
+    assert.deepStrictEqual(v.parse(schema, query), expected);
+    assert.deepStrictEqual(v.parse(schema, new URLSearchParams(query)), expected);
+  });
+
+  test("should apply defaults to missing params", () => {
+    assert.deepStrictEqual(v.parse(schema, ""), {
+      q: "",
+      page: 1,
+      sort: "name",
+      filter: { tags: [], inStock: false },
+    });
+  });
+
+  test("should fall back for invalid params", () => {
+    assert.deepStrictEqual(v.parse(schema, "?page=abc&sort=random"), {
+      q: "",
+      page: 1,
+      sort: "name",
+      filter: { tags: [], inStock: false },
+    });
+  });
+
+  test("should report invalid params without a fallback", () => {
+    const result = v.safeParse(searchParams({ page: vfd.numeric() }), "?page=abc");
+    assert.ok(!result.success);
+    assert.deepStrictEqual(
+      result.issues.map((issue) => v.getDotPath(issue)),
+      ["page"],
+    );
+  });
+
+  test("should reject other input types", () => {
+    assert.ok(!v.safeParse(schema, new FormData()).success);
+    assert.ok(!v.safeParse(schema, 42).success);
+  });
+
+  test("should use the last value of repeated params", () => {
+    assert.strictEqual(v.parse(schema, "?page=1&page=2").page, 2);
+    assert.deepStrictEqual(v.parse(schema, "?filter.tags=a&filter.tags=b").filter.tags, ["a", "b"]);
+    const strict = searchParams({ page: vfd.numeric() }, { duplicates: "error" });
+    const result = v.safeParse(strict, "?page=1&page=2");
+    assert.ok(!result.success);
+    assert.deepStrictEqual(v.getDotPath(result.issues[0]), "page");
+  });
+
+  test("should accept the formData() options", () => {
+    const strict = searchParams({ q: vfd.text() }, { unknownKeys: "error" });
+    assert.ok(!v.safeParse(strict, "q=shoes&utm_source=ad").success);
+  });
+});
+
+describe("toQueryString()", () => {
+  test("should omit defaults", () => {
+    assert.strictEqual(
+      toQueryString(schema, {
+        q: "",
+        page: 1,
+        sort: "name",
+        filter: { tags: [], inStock: false },
+      }),
+      "",
+    );
+  });
+
+  test("should sort params by name and keep the order of repeated params", () => {
+    assert.strictEqual(
+      toQueryString(schema, {
+        q: "red shoes",
+        page: 2,
+        sort: "price",
+        filter: { tags: ["sale", "new"], inStock: true },
+      }),
+      "filter.inStock=on&filter.tags=sale&filter.tags=new&page=2&q=red+shoes&sort=price",
+    );
+  });
+
+  test("should give the same value when parsed back", () => {
+    const value = {
+      q: "shoes",
+      page: 3,
+      sort: "name" as const,
+      filter: { tags: ["new"], inStock: false },
+    };
+    assert.deepStrictEqual(v.parse(schema, toQueryString(schema, value)), value);
+  });
+
+  test("should use the notation option", () => {
+    const nested = searchParams({ filter: v.object({ tags: vfd.repeatable() }) });
+    assert.strictEqual(
+      toQueryString(nested, { filter: { tags: ["a"] } }, { notation: "bracket" }),
+      "filter%5Btags%5D=a",
+    );
+  });
+});
+
+describe("pagination()", () => {
+  const listing = searchParams({ ...pagination({ perPage: 10, maxPerPage: 50 }) });
+
+  test("should parse the page and page size", () => {
+    assert.deepStrictEqual(v.parse(listing, "?page=3&perPage=25"), { page: 3, perPage: 25 });
+  });
+
+  test("should fall back for missing and invalid params", () => {
+    assert.deepStrictEqual(v.parse(listing, ""), { page: 1, perPage: 10 });
+    assert.deepStrictEqual(v.parse(listing, "?page=0&perPage=500"), { page: 1, perPage: 10 });
+    assert.deepStrictEqual(v.parse(listing, "?page=1.5&perPage=abc"), { page: 1, perPage: 10 });
+  });
+
+  test("should omit the defaults in query strings", () => {
+    assert.strictEqual(toQueryString(listing, { page: 1, perPage: 10 }), "");
+    assert.strictEqual(toQueryString(listing, { page: 2, perPage: 10 }), "page=2");
+  });
+});
+
+describe("sortParam()", () => {
+  const listing = searchParams({ sort: sortParam(["name", "price"], "-price") });
+
+  test("should parse the field and direction", () => {
+    assert.deepStrictEqual(v.parse(listing, "?sort=name").sort, {
+      field: "name",
+      direction: "asc",
+    });
+    assert.deepStrictEqual(v.parse(listing, "?sort=-name").sort, {
+      field: "name",
+      direction: "desc",
+    });
+  });
+
+  test("should fall back to the default sort", () => {
+    const expected = { field: "price", direction: "desc" };
+    assert.deepStrictEqual(v.parse(listing, "").sort, expected);
+    assert.deepStrictEqual(v.parse(listing, "?sort=stock").sort, expected);
+  });
+
+  test("should fall back to undefined without a default", () => {
+    const unsorted = searchParams({ sort: sortParam(["name"]) });
+    assert.deepStrictEqual(v.parse(unsorted, "?sort=-stock"), { sort: undefined });
+  });
+
+  test("should write the sort back and omit the default", () => {
+    assert.strictEqual(
+      toQueryString(listing, { sort: { field: "name", direction: "desc" } }),
+      "sort=-name",
+    );
+    assert.strictEqual(toQueryString(listing, { sort: { field: "price", direction: "desc" } }), "");
+  });
+});
@@ -0,0 +1,315 @@
+import * as v from "valibot";
+import { defineFieldKind, getFieldKind, unwrapSchema } from "./field-kind.ts";
+import { formData, numeric, resolveFormDataOptions } from "./form-data-schema.ts";
+import { fillMissingKeys, isPlainObject } from "./missing-keys.ts";
+import { flatten } from "./to-form-data.ts";
+import type { FormDataOptions } from "./form-data-schema.ts";
+import type { SerializeOptions } from "./to-form-data.ts";
+
+/**
+ * Input accepted by searchParams(): a URL, a query string (with or without the leading "?"),
+ * a path or absolute URL string, or URLSearchParams.
+ */
+export type SearchParamsInput = URL | URLSearchParams | string;
+
+/**
+ * Configuration options for pagination().
+ */
+export type PaginationOptions = {
+  /** Number of items per page when the param is missing or invalid. Defaults to 20 */
+  perPage?: number;
+  /** Largest accepted number of items per page. Defaults to 100 */
+  maxPerPage?: number;
+};
+
+/**
+ * Direction of a sort param, "desc" for values with a leading "-" (e.g. "?sort=-price").
+ */
+export type SortDirection = "asc" | "desc";
+
+/**
+ * Parsed value of a sortParam() field.
+ */
+export type SortValue<TField extends string = string> = {
+  field: TField;
+  direction: SortDirection;
+};
+
+/**
+ * Submitted value of a sortParam() field, the field name with an optional leading "-".
+ */
+export type SortParamValue<TField extends string = string> = TField | `-${TField}`;
+
+type Schema = v.GenericSchema | v.GenericSchemaAsync;
+type Entries = v.ObjectEntries | v.ObjectEntriesAsync;
+
+// Strings starting with a scheme or a slash are URLs, other strings are query strings.
+const URL_PATTERN = /^(?:[a-z][a-z\d+.-]*:|\/)/i;
+
+// Base for relative URLs like "/products?page=2", only their query string is used.
+const BASE_URL = "http://localhost";
+
+/**
+ * Internal helper that converts the input of searchParams() to URLSearchParams.
+ *
+ * @param input - URL, query string or URLSearchParams
+ * @returns The search params of the input
+ */
+function toURLSearchParams(input: SearchParamsInput): URLSearchParams {
+  if (input instanceof URLSearchParams) {
+    return input;
+  }
+  if (input instanceof URL) {
+    return input.searchParams;
+  }
+  return URL_PATTERN.test(input)
+    ? new URL(input, BASE_URL).searchParams
+    : new URLSearchParams(input.split("#", 1)[0]);
+}
+
+/**
+ * Schema for the query string of listing and filter pages. Works like formData() with the same
+ * options, but accepts a URL, a string or URLSearchParams. Missing params get the default of
+ * their field (e.g. numeric(v.optional(v.number(), 1))), and invalid params can fall back to a value
+ * with v.fallback() instead of failing the whole parse. Since links often repeat params, the
+ * last value of a repeated param is used unless the field accepts multiple values (the
+ * duplicates option defaults to "last"). Use pagination() and sortParam() for the usual listing
+ * params, and toQueryString() to build the canonical URL back.
+ *
+ * @param shape - Valibot object entries, the same as for formData()
+ * @param options - Configuration options for parsing field names and limiting the input size
+ * @returns Valibot schema that transforms a URL or query string to a structured object
+ *
+ * @example
+ * const schema = searchParams({
+ *   q: text(v.optional(v.string(), "")),
+ *   page: v.fallback(numeric(v.optional(v.number(), 1)), 1),
+ *   sort: v.fallback(v.optional(enumField(["name", "price"]), "name"), "name"),
+ *   filter: v.object({ tags: repeatable() }),
+ * });
+ *
+ * v.parse(schema, "/products?page=abc&filter.tags=new");
+ * // → { q: "", page: 1, sort: "name", filter: { tags: ["new"] } }
+ */
+export function searchParams<E extends v.ObjectEntries>(shape: E, options: FormDataOptions = {}) {
+  const config = resolveFormDataOptions({ duplicates: "last", ...options });
+  const schema = v.pipe(
+    v.union([v.string(), v.instance(URL), v.instance(URLSearchParams)]),
+    v.transform(toURLSearchParams),
+    // The input of formData() is typed as its output, see formData()
+    formData(shape, config) as unknown as v.GenericSchema<
+      URLSearchParams,
+      v.InferOutput<v.ObjectSchema<E, undefined>>
+    >,
+  );
+  return defineFieldKind(schema, {
+    type: "form",
+    entries: shape,
+    options: config,
+  }) as unknown as v.GenericSchema<
+    SearchParamsInput,
+    v.InferOutput<v.ObjectSchema<E, undefined>>
+  > & { readonly entries: E };
+}
+
+/**
+ * Internal helper for a positive integer param that falls back to its default when it is
+ * missing or invalid.
+ *
+ * @param defaultValue - Value of a missing or invalid param
+ * @param max - Largest accepted value
+ * @returns Valibot schema of the param
+ */
+function positiveInteger(defaultValue: number, max: number) {
+  return v.fallback(
+    numeric(
+      v.optional(v.pipe(v.number(), v.integer(), v.minValue(1), v.maxValue(max)), defaultValue),
+    ),
+    defaultValue,
+  );
+}
+
+/**
+ * Object entries of the pagination params of listing pages, to be spread into the shape of
+ * searchParams(). `page` starts at 1 and `perPage` is limited to maxPerPage. Missing or invalid
+ * params fall back to the first page and the default page size, and are omitted by
+ * toQueryString().
+ *
+ * @param options - Default and maximum page size
+ * @returns Object entries of the `page` and `perPage` params
+ *
+ * @example
+ * const schema = searchParams({ q: text(v.optional(v.string(), "")), ...pagination() });
+ *
+ * v.parse(schema, "?page=3&perPage=500"); // → { q: "", page: 3, perPage: 20 }
+ * toQueryString(schema, { q: "", page: 3, perPage: 20 }); // "page=3"
+ */
+export function pagination(options: PaginationOptions = {}) {
+  const { perPage = 20, maxPerPage = 100 } = options;
+  return {
+    page: positiveInteger(1, Number.MAX_SAFE_INTEGER),
+    perPage: positiveInteger(perPage, maxPerPage),
+  };
+}
+
+/**
+ * Internal helper that converts a submitted sort param to its parsed value.
+ *
+ * @param value - Field name with an optional leading "-"
+ * @returns Field and direction of the sort param
+ */
+function toSortValue<TField extends string>(value: SortParamValue<TField>): SortValue<TField> {
+  return value.startsWith("-")
+    ? { field: value.slice(1) as TField, direction: "desc" }
+    : { field: value as TField, direction: "asc" };
+}
+
+/**
+ * Schema for the sort param of listing pages, e.g. "?sort=price" or "?sort=-price" for a
+ * descending order. Only the given fields are accepted, and a missing or invalid param falls
+ * back to the default sort (or undefined without a default) instead of failing the parse.
+ * toQueryString() writes the value back in the same format and omits the default.
+ *
+ * @param fields - Names of the sortable fields
+ * @param defaultSort - Sort of a missing or invalid param, e.g. "-createdAt"
+ * @returns Valibot schema that transforms the param to its field and direction
+ *
+ * @example
+ * const schema = searchParams({ sort: sortParam(["name", "price"], "name") });
+ *
+ * v.parse(schema, "?sort=-price"); // → { sort: { field: "price", direction: "desc" } }
+ * v.parse(schema, "?sort=stock"); // → { sort: { field: "name", direction: "asc" } }
+ */
+export function sortParam<const TField extends string>(
+  fields: ReadonlyArray<TField>,
+  defaultSort: SortParamValue<TField>,
+): v.GenericSchema<string | undefined, SortValue<TField>>;
+export function sortParam<const TField extends string>(
+  fields: ReadonlyArray<TField>,
+): v.GenericSchema<string | undefined, SortValue<TField> | undefined>;
+export function sortParam(
+  fields: ReadonlyArray<string>,
+  defaultSort?: string,
+): v.GenericSchema<string | undefined, SortValue | undefined> {
+  const values = fields.flatMap((field) => [field, `-${field}`]);
+  const schema = defineFieldKind(v.pipe(v.picklist(values), v.transform(toSortValue)), {
+    type: "sort",
+    values,
+  });
+  return v.fallback(
+    v.optional(schema, defaultSort),
+    defaultSort === undefined ? undefined : toSortValue(defaultSort),
+  );
+}
+
+/**
+ * Returns the entries of an object value, i.e. a form schema or an object schema without a
+ * pipe, so defaults can be omitted for each of its keys.
+ *
+ * @param schema - Schema of the value
+ * @returns The object entries or undefined if the value is compared as a whole
+ */
+function getObjectEntries(schema: Schema): Entries | undefined {
+  const inner = unwrapSchema(schema);
+  const kind = getFieldKind(inner);
+  if (kind?.type === "form") {
+    return kind.entries;
+  }
+  return kind === undefined && "entries" in inner ? (inner.entries as Entries) : undefined;
+}
+
+/**
+ * Checks if two values of a field are encoded the same way.
+ *
+ * @param key - Name of the field
+ * @param schema - Schema of the field
+ * @param value - The value to serialize
+ * @param other - The value to compare with
+ * @returns True if both values give the same field names and values
+ */
+function isSameEncoding(key: string, schema: Schema, value: unknown, other: unknown): boolean {
+  const fieldSchema = v.object({ [key]: schema as v.GenericSchema });
+  const entries = flatten(fieldSchema, { [key]: value }, {});
+  const otherEntries = flatten(fieldSchema, { [key]: other }, {});
+  return (
+    entries.length === otherEntries.length &&
+    entries.every(([name, formValue], index) => {
+      return name === otherEntries[index]?.[0] && formValue === otherEntries[index][1];
+    })
+  );
+}
+
+/**
+ * Removes the keys of an object whose value is the one parsed for a missing param, i.e. the
+ * default or fallback of the field, descending into nested objects.
+ *
+ * @param entries - Entries of the object schema
+ * @param value - The value to serialize
+ * @returns A copy of the value without the default values
+ */
+function omitDefaults(entries: Entries, value: Record<string, unknown>): Record<string, unknown> {
+  // The values parsed when nothing is submitted, back-filled like formData() does.
+  const missing: Record<string, unknown> = Object.create(null);
+  fillMissingKeys(entries, missing);
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const schema = entries[key];
+    if (schema === undefined) {
+      result[key] = item;
+      continue;
+    }
+    const nestedEntries = getObjectEntries(schema);
+    if (nestedEntries !== undefined && isPlainObject(item)) {
+      result[key] = omitDefaults(nestedEntries, item);
+      continue;
+    }
+    const parsed = v.safeParse(schema as v.GenericSchema, missing[key]);
+    if (!parsed.success || !isSameEncoding(key, schema, item, parsed.output)) {
+      result[key] = item;
+    }
+  }
+  return result;
+}
+
+/**
+ * Serializes the value of a searchParams() schema to a canonical query string, for links and
+ * redirects of listing pages. Fields that have their default value are omitted, as they are
+ * parsed back the same way when missing, and the params are sorted by name, so the same value
+ * always gives the same URL (e.g. for caching). Repeated params keep their order.
+ *
+ * @param schema - Schema describing the value, usually created with searchParams()
+ * @param value - Value to serialize
+ * @param options - Serialization options
+ * @returns The query string without the leading "?", or "" if every field has its default
+ *
+ * @example
+ * const schema = searchParams({
+ *   q: text(v.optional(v.string(), "")),
+ *   page: numeric(v.optional(v.number(), 1)),
+ *   sort: v.optional(enumField(["name", "price"]), "name"),
+ * });
+ *
+ * toQueryString(schema, { q: "shoes", page: 1, sort: "price" }); // "q=shoes&sort=price"
+ * toQueryString(schema, { q: "", page: 1, sort: "name" }); // ""
+ */
+export function toQueryString<TSchema extends v.GenericSchema>(
+  schema: TSchema,
+  value: v.InferOutput<TSchema>,
+  options: SerializeOptions = {},
+): string {
+  const entries = getObjectEntries(schema);
+  const canonical =
+    entries !== undefined && isPlainObject(value) ? omitDefaults(entries, value) : value;
+
+  const result = new URLSearchParams();
+  for (const [name, formValue] of flatten(schema, canonical, options)) {
+    if (typeof formValue !== "string") {
+      throw new Error(`Cannot serialize file at "${name}" to a query string`);
+    }
+    result.append(name, formValue);
+  }
+  // URLSearchParams.sort() is stable, so repeated params keep their order.
+  result.sort();
+  return result.toString();
+}
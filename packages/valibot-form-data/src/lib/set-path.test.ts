@@ -1,6 +1,7 @@
 import * as assert from "node:assert/strict";
 import { describe, it } from "node:test";
-import { setPath } from "./set-path.ts";
+import { resolvePath, setPath } from "./set-path.ts";
+import { APPEND_SEGMENT } from "./string-to-path-array.ts";
 
 describe('The "setPath" function', () => {
   describe("with object paths", () => {
@@ -366,6 +367,99 @@ describe('The "setPath" function', () => {
     });
   });
 
+  describe("with empty bracket paths", () => {
+    it("should append values to an array", () => {
+      const obj = {};
+      setPath(obj, "tags[]", "a");
+      setPath(obj, "tags[]", "b");
+
+      assert.deepStrictEqual(obj, { tags: ["a", "b"] });
+    });
+
+    it("should append to existing arrays", () => {
+      const obj = { tags: ["a"] };
+      setPath(obj, "tags[]", "b");
+
+      assert.deepStrictEqual(obj, { tags: ["a", "b"] });
+    });
+
+    it("should group consecutive fields into the same item", () => {
+      const obj = {};
+      setPath(obj, "items[][title]", "Pen");
+      setPath(obj, "items[][qty]", "2");
+      setPath(obj, "items[][title]", "Ink");
+      setPath(obj, "items[][qty]", "5");
+
+      assert.deepStrictEqual(obj, {
+        items: [
+          { title: "Pen", qty: "2" },
+          { title: "Ink", qty: "5" },
+        ],
+      });
+    });
+
+    it("should append to nested arrays of the last item", () => {
+      const obj = {};
+      setPath(obj, "items[][title]", "Pen");
+      setPath(obj, "items[][tags][]", "blue");
+      setPath(obj, "items[][tags][]", "office");
+      setPath(obj, "items[][title]", "Ink");
+
+      assert.deepStrictEqual(obj, {
+        items: [{ title: "Pen", tags: ["blue", "office"] }, { title: "Ink" }],
+      });
+    });
+
+    it("should throw when appending to a non-array", () => {
+      const obj = { tags: { a: 1 } };
+      assert.throws(() => setPath(obj, "tags[]", "b"), {
+        message: "Cannot append to path: expected array at segment 1, got object",
+      });
+    });
+  });
+
+  describe("prototype pollution protection", () => {
+    it("should reject __proto__ segments", () => {
+      const obj = {};
+      assert.throws(() => setPath(obj, "__proto__.polluted", "yes"), {
+        message: 'Invalid path: segment "__proto__" is not allowed',
+      });
+      assert.strictEqual(({} as Record<string, unknown>).polluted, undefined);
+    });
+
+    it("should reject constructor and prototype segments", () => {
+      const obj = {};
+      assert.throws(() => setPath(obj, "constructor.prototype.polluted", "yes"), {
+        message: 'Invalid path: segment "constructor" is not allowed',
+      });
+      assert.throws(() => setPath(obj, "user[prototype]", "yes"), {
+        message: 'Invalid path: segment "prototype" is not allowed',
+      });
+      assert.strictEqual(({} as Record<string, unknown>).polluted, undefined);
+    });
+
+    it("should not navigate into inherited properties", () => {
+      const obj = {};
+      setPath(obj, "toString.name", "value");
+      assert.deepStrictEqual(obj, { toString: { name: "value" } });
+    });
+
+    it("should create intermediate objects without prototype when requested", () => {
+      const obj: Record<string, unknown> = {};
+      setPath(obj, "user.profile.name", "John", { nullPrototype: true });
+      assert.strictEqual(Object.getPrototypeOf(obj.user), null);
+      assert.deepStrictEqual(JSON.parse(JSON.stringify(obj)), {
+        user: { profile: { name: "John" } },
+      });
+    });
+
+    it("should still create arrays for numeric segments when requested", () => {
+      const obj: Record<string, unknown> = {};
+      setPath(obj, "users[0].name", "Alice", { nullPrototype: true });
+      assert.ok(Array.isArray(obj.users));
+    });
+  });
+
   describe("return value behavior", () => {
     it("should return the same object reference", () => {
       const obj = {};
@@ -386,3 +480,20 @@ describe('The "setPath" function', () => {
     });
   });
 });
+
+describe('The "resolvePath" function', () => {
+  it("should resolve empty brackets to the index setPath appends to", () => {
+    const obj = {};
+    assert.deepStrictEqual(resolvePath(obj, ["tags", APPEND_SEGMENT]), ["tags", 0]);
+    setPath(obj, "tags[]", "a");
+    assert.deepStrictEqual(resolvePath(obj, ["tags", APPEND_SEGMENT]), ["tags", 1]);
+  });
+
+  it("should resolve grouped fields to the item they are set on", () => {
+    const obj = {};
+    setPath(obj, "items[][title]", "Pen");
+    assert.deepStrictEqual(resolvePath(obj, ["items", APPEND_SEGMENT, "qty"]), ["items", 0, "qty"]);
+    setPath(obj, "items[][qty]", "2");
+    assert.deepStrictEqual(resolvePath(obj, ["items", APPEND_SEGMENT, "qty"]), ["items", 1, "qty"]);
+  });
+});
@@ -1,13 +1,135 @@
-import { stringToPathArray } from "./string-to-path-array.ts";
+import { APPEND_SEGMENT, stringToPathArray } from "./string-to-path-array.ts";
+import type { NumericKeys, PathSegment } from "./string-to-path-array.ts";
+
+// Path segments that would give access to the prototype chain of the target object.
+const UNSAFE_SEGMENTS = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Configuration options for setPath.
+ */
+export type SetPathOptions = {
+  /**
+   * Create intermediate objects without a prototype, so no inherited property can be
+   * reached or shadowed through the path. Defaults to false
+   */
+  nullPrototype?: boolean;
+  /** How numeric-looking segments of the path are parsed, see stringToPathArray. Defaults to "index" */
+  numericKeys?: NumericKeys;
+};
+
+/**
+ * Checks if a path segment could be used to reach the prototype chain of an object
+ * (e.g. "__proto__.polluted" or "constructor.prototype.polluted").
+ *
+ * @param segment - Path segment to check
+ * @returns True if the segment is not allowed in a path
+ *
+ * @example
+ * isUnsafePathSegment("__proto__") // true
+ * isUnsafePathSegment("name") // false
+ */
+export function isUnsafePathSegment(segment: PathSegment): boolean {
+  return typeof segment === "string" && UNSAFE_SEGMENTS.has(segment);
+}
+
+/**
+ * Creates an empty container for the given next path segment:
+ * an array for numeric and append segments, otherwise an object.
+ *
+ * @param nextSegment - The segment that will be set on the container
+ * @param nullPrototype - Whether objects should be created without a prototype
+ * @returns Empty array or object
+ */
+function createContainer(nextSegment: PathSegment, nullPrototype: boolean) {
+  if (typeof nextSegment === "number" || nextSegment === APPEND_SEGMENT) {
+    return [];
+  }
+  return nullPrototype ? Object.create(null) : {};
+}
+
+/**
+ * Checks if a value is already set at the given path segments.
+ * Append segments are never considered set, as a new item can always be appended.
+ *
+ * @param value - Value to check
+ * @param segments - Path segments relative to the value
+ * @returns True if every segment exists as an own property
+ */
+function hasPath(value: unknown, segments: Array<PathSegment>): boolean {
+  let current = value;
+  for (const segment of segments) {
+    if (
+      segment === APPEND_SEGMENT ||
+      typeof current !== "object" ||
+      current === null ||
+      !Object.hasOwn(current, segment)
+    ) {
+      return false;
+    }
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return true;
+}
+
+/**
+ * Resolves the empty brackets of a path to the array indices setPath() would use for the next
+ * value, e.g. to report an issue about an appended value on its array item.
+ *
+ * @param object - The object the value would be set on
+ * @param segments - Path segments, e.g. from stringToPathArray()
+ * @returns Path segments with array indices instead of append segments
+ *
+ * @example
+ * resolvePath({ tags: ["a"] }, ["tags", APPEND_SEGMENT]) // ["tags", 1]
+ * resolvePath({ items: [{ title: "Pen" }] }, ["items", APPEND_SEGMENT, "qty"]) // ["items", 0, "qty"]
+ */
+export function resolvePath(object: unknown, segments: Array<PathSegment>): Array<string | number> {
+  const resolved: Array<string | number> = [];
+  let current = object;
+  for (const [i, segment] of segments.entries()) {
+    if (segment !== APPEND_SEGMENT) {
+      resolved.push(segment);
+      current =
+        typeof current === "object" && current !== null && Object.hasOwn(current, segment)
+          ? (current as Record<string | number, unknown>)[segment]
+          : undefined;
+      continue;
+    }
+    // Like setPath(), reuse the last item until the remaining path is already set on it.
+    const items: Array<unknown> = Array.isArray(current) ? current : [];
+    const lastItem = items.at(-1);
+    const remainingSegments = segments.slice(i + 1);
+    if (
+      remainingSegments.length > 0 &&
+      typeof lastItem === "object" &&
+      lastItem !== null &&
+      !hasPath(lastItem, remainingSegments)
+    ) {
+      resolved.push(items.length - 1);
+      current = lastItem;
+    } else {
+      resolved.push(items.length);
+      current = undefined;
+    }
+  }
+  return resolved;
+}
 
 /**
  * Sets a value at a specific path within an object, creating nested objects/arrays as needed.
  * The path is parsed using dot notation and bracket notation to navigate through the object structure.
  * Missing intermediate objects are automatically created as objects or arrays based on the next segment type.
+ * Only own properties are navigated, and paths containing "__proto__", "constructor" or "prototype"
+ * segments are rejected to prevent prototype pollution.
+ *
+ * Empty brackets append to an array. When followed by more segments (e.g. "items[][name]"), the
+ * last array item is reused as long as it does not have that path yet, so consecutive fields are
+ * grouped into one item, similar to how Rails parses parameters.
  *
  * @param object - The target object to modify (will be mutated)
  * @param path - The path string indicating where to set the value (e.g., "user.profile[0].name")
  * @param value - The value to set at the specified path
+ * @param options - Configuration options
  * @returns The modified input object (same reference, mutated)
  *
  * @example
@@ -24,19 +146,34 @@ import { stringToPathArray } from "./string-to-path-array.ts";
  * const obj = {};
  * setPath(obj, "config[database][host]", "localhost");
  * // obj becomes { config: { database: { host: "localhost" } } }
+ *
+ * @example
+ * const obj = {};
+ * setPath(obj, "items[][title]", "Pen");
+ * setPath(obj, "items[][qty]", "2");
+ * setPath(obj, "items[][title]", "Ink");
+ * // obj becomes { items: [{ title: "Pen", qty: "2" }, { title: "Ink" }] }
  */
 export function setPath<T extends Record<string | number, unknown>>(
   object: T,
   path: string,
   value: unknown,
+  options: SetPathOptions = {},
 ): T {
-  const pathSegments = stringToPathArray(path);
+  const { nullPrototype = false, numericKeys } = options;
+  const pathSegments = stringToPathArray(path, { numericKeys });
 
   // Handle empty path - cannot set value on empty path.
   if (pathSegments.length === 0) {
     throw new Error("Cannot set value on empty path");
   }
 
+  // Reject segments that would give access to the prototype chain.
+  const unsafeSegment = pathSegments.find(isUnsafePathSegment);
+  if (unsafeSegment !== undefined) {
+    throw new Error(`Invalid path: segment "${String(unsafeSegment)}" is not allowed`);
+  }
+
   // Extract leading segments (all but last) and the final segment.
   const leadingSegments = pathSegments.slice(0, -1);
   const lastSegment = pathSegments[pathSegments.length - 1];
@@ -57,29 +194,58 @@ export function setPath<T extends Record<string | number, unknown>>(
       throw new Error(`Invalid path: segment at index ${i} is undefined`);
     }
 
-    // If the current property doesn't exist, create it.
-    if (!(currentSegment in currentObject)) {
-      // Determine the next segment to decide whether to create an object or array.
-      const nextSegment = leadingSegments[i + 1] ?? lastSegment;
-      // Create array if next segment is a number, otherwise create object.
-      currentObject[currentSegment] = typeof nextSegment === "number" ? [] : {};
-    }
+    // Determine the next segment to decide whether to create an object or array.
+    const nextSegment = leadingSegments[i + 1] ?? lastSegment;
+    let nextValue: unknown;
 
-    // Move deeper into the structure.
-    const nextValue = currentObject[currentSegment];
+    if (currentSegment === APPEND_SEGMENT) {
+      if (!Array.isArray(currentObject)) {
+        throw new Error(`Cannot append to path: expected array at segment ${i}, got object`);
+      }
+      // Reuse the last item until the remaining path is already set on it.
+      const lastItem: unknown = currentObject[currentObject.length - 1];
+      const remainingSegments = pathSegments.slice(i + 1);
+      if (
+        typeof lastItem === "object" &&
+        lastItem !== null &&
+        !hasPath(lastItem, remainingSegments)
+      ) {
+        nextValue = lastItem;
+      } else {
+        nextValue = createContainer(nextSegment, nullPrototype);
+        currentObject.push(nextValue);
+      }
+    } else {
+      // If the current property doesn't exist, create it. Inherited properties are ignored.
+      if (!Object.hasOwn(currentObject, currentSegment)) {
+        currentObject[currentSegment] = createContainer(nextSegment, nullPrototype);
+      }
+
+      // Move deeper into the structure.
+      nextValue = currentObject[currentSegment];
+    }
 
     // Type guard to ensure we have an object-like structure to navigate into.
     if (typeof nextValue !== "object" || nextValue === null) {
       throw new Error(
-        `Cannot navigate through path: expected object at segment "${currentSegment}", got ${typeof nextValue}`,
+        `Cannot navigate through path: expected object at segment "${String(currentSegment)}", got ${typeof nextValue}`,
       );
     }
 
     currentObject = nextValue as Record<string | number, unknown>;
   }
 
-  // Set the final value.
-  currentObject[lastSegment] = value;
+  // Set the final value, or append it for empty brackets.
+  if (lastSegment === APPEND_SEGMENT) {
+    if (!Array.isArray(currentObject)) {
+      throw new Error(
+        `Cannot append to path: expected array at segment ${leadingSegments.length}, got object`,
+      );
+    }
+    currentObject.push(value);
+  } else {
+    currentObject[lastSegment] = value;
+  }
 
   return object;
 }
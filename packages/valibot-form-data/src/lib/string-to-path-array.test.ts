@@ -1,6 +1,6 @@
 import * as assert from "node:assert/strict";
 import { describe, it } from "node:test";
-import { stringToPathArray } from "./string-to-path-array.ts";
+import { APPEND_SEGMENT, stringToPathArray } from "./string-to-path-array.ts";
 
 describe('The "stringToPathArray" function', () => {
   describe("with empty path", () => {
@@ -121,6 +121,79 @@ describe('The "stringToPathArray" function', () => {
     });
   });
 
+  describe("with empty brackets", () => {
+    it("should parse trailing empty brackets as append segment", () => {
+      assert.deepStrictEqual(stringToPathArray("tags[]"), ["tags", APPEND_SEGMENT]);
+    });
+
+    it("should parse empty brackets followed by bracket notation", () => {
+      assert.deepStrictEqual(stringToPathArray("items[][title]"), [
+        "items",
+        APPEND_SEGMENT,
+        "title",
+      ]);
+    });
+
+    it("should parse empty brackets followed by dot notation", () => {
+      assert.deepStrictEqual(stringToPathArray("user[].name"), ["user", APPEND_SEGMENT, "name"]);
+    });
+
+    it("should parse nested empty brackets", () => {
+      assert.deepStrictEqual(stringToPathArray("items[][tags][]"), [
+        "items",
+        APPEND_SEGMENT,
+        "tags",
+        APPEND_SEGMENT,
+      ]);
+    });
+  });
+
+  describe("with escaped keys", () => {
+    it("should parse backslash-escaped dots and brackets as part of the key", () => {
+      assert.deepStrictEqual(stringToPathArray("user\\.email"), ["user.email"]);
+      assert.deepStrictEqual(stringToPathArray("fields.a\\[0\\]"), ["fields", "a[0]"]);
+    });
+
+    it("should parse backslash-escaped closing brackets in bracket notation", () => {
+      assert.deepStrictEqual(stringToPathArray("fields[a\\]b]"), ["fields", "a]b"]);
+    });
+
+    it("should parse quoted bracket keys as strings", () => {
+      assert.deepStrictEqual(stringToPathArray('fields["user.email"]'), ["fields", "user.email"]);
+      assert.deepStrictEqual(stringToPathArray('["a[b]"].c'), ["a[b]", "c"]);
+    });
+
+    it("should keep quoted numeric keys as strings", () => {
+      assert.deepStrictEqual(stringToPathArray('agents["007"]'), ["agents", "007"]);
+    });
+
+    it("should parse escape sequences inside quoted keys", () => {
+      assert.deepStrictEqual(stringToPathArray('["say \\"hi\\""]'), ['say "hi"']);
+    });
+
+    it("should parse empty quoted keys", () => {
+      assert.deepStrictEqual(stringToPathArray('map[""]'), ["map", ""]);
+    });
+
+    it("should treat dangling backslashes as invalid syntax", () => {
+      assert.deepStrictEqual(stringToPathArray("name\\"), ["name\\"]);
+    });
+  });
+
+  describe("with string numeric keys", () => {
+    it("should keep numeric segments as strings", () => {
+      assert.deepStrictEqual(stringToPathArray("prices[1001]", { numericKeys: "string" }), [
+        "prices",
+        "1001",
+      ]);
+      assert.deepStrictEqual(stringToPathArray("users.0.name", { numericKeys: "string" }), [
+        "users",
+        "0",
+        "name",
+      ]);
+    });
+  });
+
   describe("with invalid syntax", () => {
     it("should handle double opening brackets", () => {
       assert.deepStrictEqual(stringToPathArray("invalid[[path"), ["invalid[[path"]);
@@ -150,8 +223,12 @@ describe('The "stringToPathArray" function', () => {
       assert.deepStrictEqual(stringToPathArray("valid.[[invalid"), ["valid.[[invalid"]);
     });
 
-    it("should handle empty brackets in middle of path", () => {
-      assert.deepStrictEqual(stringToPathArray("user[].name"), ["user[].name"]);
+    it("should handle empty brackets without a leading key", () => {
+      assert.deepStrictEqual(stringToPathArray("[][name]"), ["[][name]"]);
+    });
+
+    it("should handle invalid syntax after empty brackets", () => {
+      assert.deepStrictEqual(stringToPathArray("tags[]]"), ["tags[]]"]);
     });
   });
 });
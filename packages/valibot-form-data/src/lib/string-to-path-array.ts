@@ -1,27 +1,97 @@
+/**
+ * Path segment produced by empty brackets (e.g. "tags[]" or "items[][name]").
+ * Instead of addressing an existing array item, it appends a new item to the array.
+ */
+export const APPEND_SEGMENT: unique symbol = Symbol("append");
+
+/**
+ * A single segment of a parsed path: an object key, an array index or an append marker.
+ */
+export type PathSegment = string | number | typeof APPEND_SEGMENT;
+
+/**
+ * How numeric-looking segments (e.g. "0" in "items[0]") are parsed.
+ * - "index": converted to numbers, so they create and address array items
+ * - "string": kept as string keys, so they create and address object properties
+ */
+export type NumericKeys = "index" | "string";
+
+/**
+ * Configuration options for stringToPathArray.
+ */
+export type StringToPathArrayOptions = {
+  /** How numeric-looking segments are parsed. Defaults to "index" */
+  numericKeys?: NumericKeys;
+};
+
+// Regular expression to match empty brackets: [] followed by rest of path.
+const EMPTY_BRACKET_NOTATION_REGEX = /^\[\](.*)$/;
+
+// Regular expression to match quoted bracket notation: ["key"] followed by rest
+// of path. Inside the quotes, backslash escapes any character.
+const QUOTED_BRACKET_NOTATION_REGEX = /^\["((?:\\.|[^"\\])*)"\](.*)$/;
+
 // Regular expression to match bracket notation: [key] followed by rest of path.
-const BRACKET_NOTATION_REGEX = /^\[(.+?)\](.*)$/;
+// Backslash escapes any character, including "]".
+const BRACKET_NOTATION_REGEX = /^\[((?:\\.|[^\\\]])+?)\](.*)$/;
 
 // Regular expression to match dot notation: optional dot followed by property
-// name and rest of path.
-const DOT_NOTATION_REGEX = /^\.?([^\.\[\]]+)(.*)$/;
+// name and rest of path. Backslash escapes any character, including "." and "[".
+const DOT_NOTATION_REGEX = /^\.?((?:\\.|[^\.\[\]\\])+)(.*)$/;
 
 // Regular expression to test if a string contains only digits
 // (for array indices).
 const NUMERIC_KEY_REGEX = /^\d+$/;
 
+// Regular expression to match escape sequences: backslash followed by any character.
+const ESCAPE_SEQUENCE_REGEX = /\\(.)/g;
+
+/**
+ * Converts a raw key of dot or bracket notation to a path segment.
+ * Digit-only keys become numbers (unless numericKeys is "string"), escape sequences
+ * are replaced by the escaped character.
+ *
+ * @param rawKey - The key as written in the path
+ * @param numericKeys - How numeric-looking keys are parsed
+ * @returns The path segment
+ */
+function parseKey(rawKey: string, numericKeys: NumericKeys): string | number {
+  if (numericKeys === "index" && NUMERIC_KEY_REGEX.test(rawKey)) {
+    return Number(rawKey);
+  }
+  return rawKey.replace(ESCAPE_SEQUENCE_REGEX, "$1");
+}
+
 /**
  * Internal recursive parser for path segments.
  * Returns null if the path contains invalid syntax that cannot be parsed.
  *
  * @param currentPath - The remaining path to parse
+ * @param numericKeys - How numeric-looking keys are parsed
  * @returns Array of path segments, or null if parsing fails
  */
-function parsePath(currentPath: string): Array<string | number> | null {
+function parsePath(currentPath: string, numericKeys: NumericKeys): Array<PathSegment> | null {
   // Base case: empty path
   if (currentPath.length === 0) {
     return [];
   }
 
+  // Empty brackets append a new item, e.g. "tags[]".
+  const emptyBracketMatch = currentPath.match(EMPTY_BRACKET_NOTATION_REGEX);
+  if (emptyBracketMatch) {
+    const [, rest = ""] = emptyBracketMatch;
+    const restResult = parsePath(rest, numericKeys);
+    return restResult === null ? null : [APPEND_SEGMENT, ...restResult];
+  }
+
+  // Quoted brackets are always string keys, e.g. ["user.email"] or ["007"].
+  const quotedBracketMatch = currentPath.match(QUOTED_BRACKET_NOTATION_REGEX);
+  if (quotedBracketMatch) {
+    const [, key = "", rest = ""] = quotedBracketMatch;
+    const restResult = parsePath(rest, numericKeys);
+    return restResult === null ? null : [parseKey(key, "string"), ...restResult];
+  }
+
   // Try to match bracket notation first, then dot notation.
   const bracketMatch = currentPath.match(BRACKET_NOTATION_REGEX);
   const dotMatch = currentPath.match(DOT_NOTATION_REGEX);
@@ -29,10 +99,10 @@ function parsePath(currentPath: string): Array<string | number> | null {
   if (bracketMatch) {
     const [, key = "", rest = ""] = bracketMatch;
     // Convert numeric keys to numbers, keep string keys as strings.
-    const parsedKey = NUMERIC_KEY_REGEX.test(key) ? Number(key) : key;
+    const parsedKey = parseKey(key, numericKeys);
 
     // Recursively process the rest of the path.
-    const restResult = parsePath(rest);
+    const restResult = parsePath(rest, numericKeys);
 
     // If rest parsing failed (returned null), propagate failure
     if (restResult === null) {
@@ -43,10 +113,10 @@ function parsePath(currentPath: string): Array<string | number> | null {
   } else if (dotMatch) {
     const [, key = "", rest = ""] = dotMatch;
     // Convert numeric keys to numbers, keep string keys as strings.
-    const parsedKey = NUMERIC_KEY_REGEX.test(key) ? Number(key) : key;
+    const parsedKey = parseKey(key, numericKeys);
 
     // Recursively process the rest of the path.
-    const restResult = parsePath(rest);
+    const restResult = parsePath(rest, numericKeys);
 
     // If rest parsing failed (returned null), propagate failure
     if (restResult === null) {
@@ -64,30 +134,44 @@ function parsePath(currentPath: string): Array<string | number> | null {
 /**
  * Converts a string path to an array of path segments.
  * Supports both bracket notation (e.g., "[0]", "[key]") and dot notation (e.g., ".prop", "prop").
- * All numeric strings are converted to numbers regardless of notation type.
+ * All numeric strings are converted to numbers regardless of notation type, unless numericKeys is "string".
+ * Empty brackets (e.g., "tags[]") become APPEND_SEGMENT, but only after a leading key.
+ * Keys containing dots or brackets can be written with backslash escapes (e.g., "user\.email")
+ * or in quoted brackets (e.g., '["user.email"]'), and quoted keys are never converted to numbers.
  * If the path contains invalid syntax, returns the entire path as a single segment.
  *
  * @param path - The string path to convert (e.g., "user.profile[0].name")
+ * @param options - Configuration options
  * @returns Array of path segments where numeric strings become numbers
  *
  * @example
  * stringToPathArray("user.profile[0].name") // ["user", "profile", 0, "name"]
  * stringToPathArray("users.0[name]") // ["users", 0, "name"]
  * stringToPathArray("[0].title") // [0, "title"]
+ * stringToPathArray("items[][name]") // ["items", APPEND_SEGMENT, "name"]
+ * stringToPathArray('fields["user.email"]') // ["fields", "user.email"]
+ * stringToPathArray("fields.user\\.email") // ["fields", "user.email"]
+ * stringToPathArray('agents["007"]') // ["agents", "007"]
+ * stringToPathArray("prices[1001]", { numericKeys: "string" }) // ["prices", "1001"]
  * stringToPathArray("") // []
  * stringToPathArray("invalid[[path") // ["invalid[[path"] (invalid syntax)
  */
-export function stringToPathArray(path: string): Array<string | number> {
+export function stringToPathArray(
+  path: string,
+  options: StringToPathArrayOptions = {},
+): Array<PathSegment> {
+  const { numericKeys = "index" } = options;
+
   // Handle empty path.
   if (path.length === 0) {
     return [];
   }
 
   // Attempt to parse the path
-  const result = parsePath(path);
+  const result = parsePath(path, numericKeys);
 
-  // If parsing failed, return the entire path as a single segment
-  if (result === null) {
+  // If parsing failed or there is no key to append to, return the entire path as a single segment
+  if (result === null || result[0] === APPEND_SEGMENT) {
     return [path];
   }
 
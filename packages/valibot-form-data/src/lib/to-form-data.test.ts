@@ -0,0 +1,248 @@
+import * as assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import * as v from "valibot";
+import * as vfd from "./form-data-schema.ts";
+import { toFormData, toSearchParams } from "./to-form-data.ts";
+
+function entriesOf(data: FormData | URLSearchParams) {
+  return [...data.entries()];
+}
+
+describe("toFormData()", () => {
+  describe("field encoding", () => {
+    test("should encode text fields as strings", () => {
+      const schema = vfd.formData({ name: vfd.text() });
+      assert.deepStrictEqual(entriesOf(toFormData(schema, { name: "John" })), [["name", "John"]]);
+    });
+
+    test("should encode numeric fields as strings", () => {
+      const schema = vfd.formData({ age: vfd.numeric() });
+      assert.deepStrictEqual(entriesOf(toFormData(schema, { age: 25 })), [["age", "25"]]);
+    });
+
+    test("should encode checked checkboxes as trueValue", () => {
+      const schema = vfd.formData({
+        subscribe: vfd.checkbox(),
+        agree: vfd.checkbox({ trueValue: "yes" }),
+      });
+      assert.deepStrictEqual(entriesOf(toFormData(schema, { subscribe: true, agree: true })), [
+        ["subscribe", "on"],
+        ["agree", "yes"],
+      ]);
+    });
+
+    test("should omit unchecked checkboxes", () => {
+      const schema = vfd.formData({ subscribe: vfd.checkbox() });
+      assert.deepStrictEqual(entriesOf(toFormData(schema, { subscribe: false })), []);
+    });
+
+    test("should throw on checkbox values that are not booleans", () => {
+      const schema = vfd.formData({ subscribe: vfd.checkbox() });
+      assert.throws(
+        () => toFormData(schema, { subscribe: "yes" as unknown as boolean }),
+        /Cannot serialize checkbox value of type string at path "subscribe"/,
+      );
+    });
+
+    test("should encode falseValue and hidden inputs of checkboxes", () => {
+      const schema = vfd.formData({
+        terms: vfd.checkbox({ hiddenFallback: true }),
+        newsletter: vfd.checkbox({ hiddenFallback: true }),
+        notifications: vfd.checkbox({ falseValue: "off", tristate: true }),
+      });
+      const value = { terms: true, newsletter: false, notifications: false };
+      const result = toFormData(schema, value);
+      assert.deepStrictEqual(entriesOf(result), [
+        ["terms", "false"],
+        ["terms", "on"],
+        ["newsletter", "false"],
+        ["notifications", "off"],
+      ]);
+      assert.deepStrictEqual(v.parse(schema, result), value);
+      assert.deepStrictEqual(
+        entriesOf(
+          toFormData(schema, { terms: false, newsletter: false, notifications: undefined }),
+        ),
+        [
+          ["terms", "false"],
+          ["newsletter", "false"],
+        ],
+      );
+    });
+
+    test("should encode numbers in the format of their locale", () => {
+      const schema = vfd.formData({
+        price: vfd.decimalField(undefined, { locale: "de-DE" }),
+        amount: vfd.numeric(undefined, { locale: "de-DE" }),
+        id: vfd.bigintField(),
+      });
+      const value = { price: "-1234.50", amount: 0.5, id: 9007199254740993n };
+      const result = toFormData(schema, value);
+      assert.deepStrictEqual(entriesOf(result), [
+        ["price", "-1234,50"],
+        ["amount", "0,5"],
+        ["id", "9007199254740993"],
+      ]);
+      assert.deepStrictEqual(v.parse(schema, result), value);
+    });
+
+    test("should append files as is", () => {
+      const file = new File(["data"], "file.txt", { type: "text/plain" });
+      const schema = vfd.formData({ avatar: vfd.file() });
+      const result = toFormData(schema, { avatar: file });
+      const avatar = result.get("avatar");
+      assert.ok(avatar instanceof File);
+      assert.strictEqual(avatar.name, "file.txt");
+    });
+
+    test("should encode repeatable fields as repeated keys", () => {
+      const schema = vfd.formData({ tags: vfd.repeatable() });
+      assert.deepStrictEqual(entriesOf(toFormData(schema, { tags: ["a", "b"] })), [
+        ["tags", "a"],
+        ["tags", "b"],
+      ]);
+    });
+
+    test("should omit undefined values", () => {
+      const schema = vfd.formData({ bio: vfd.text(v.optional(v.string())) });
+      assert.deepStrictEqual(entriesOf(toFormData(schema, { bio: undefined })), []);
+    });
+
+    test("should use the encoding of helpers wrapped in pipes", () => {
+      const schema = vfd.formData({
+        email: v.pipe(vfd.text(), v.email()),
+        newsletter: v.optional(vfd.checkbox({ trueValue: "1" })),
+      });
+      assert.deepStrictEqual(
+        entriesOf(toFormData(schema, { email: "john@example.com", newsletter: true })),
+        [
+          ["email", "john@example.com"],
+          ["newsletter", "1"],
+        ],
+      );
+    });
+  });
+
+  describe("nested structures", () => {
+    const schema = vfd.formData({
+      address: v.object({ street: vfd.text(), city: vfd.text() }),
+      locations: v.array(v.object({ country: vfd.text(), city: vfd.text() })),
+    });
+    const value = {
+      address: { street: "123 Main St", city: "NYC" },
+      locations: [{ country: "USA", city: "New York" }],
+    };
+
+    test("should use mixed notation by default", () => {
+      assert.deepStrictEqual(entriesOf(toFormData(schema, value)), [
+        ["address.street", "123 Main St"],
+        ["address.city", "NYC"],
+        ["locations[0].country", "USA"],
+        ["locations[0].city", "New York"],
+      ]);
+    });
+
+    test("should support dot notation", () => {
+      assert.deepStrictEqual(entriesOf(toFormData(schema, value, { notation: "dot" })), [
+        ["address.street", "123 Main St"],
+        ["address.city", "NYC"],
+        ["locations.0.country", "USA"],
+        ["locations.0.city", "New York"],
+      ]);
+    });
+
+    test("should support bracket notation", () => {
+      assert.deepStrictEqual(entriesOf(toFormData(schema, value, { notation: "bracket" })), [
+        ["address[street]", "123 Main St"],
+        ["address[city]", "NYC"],
+        ["locations[0][country]", "USA"],
+        ["locations[0][city]", "New York"],
+      ]);
+    });
+
+    test("should index nested items of repeatable fields", () => {
+      const repeatableSchema = vfd.formData({
+        items: vfd.repeatableOfType(v.object({ title: vfd.text(), qty: vfd.numeric() })),
+      });
+      assert.deepStrictEqual(
+        entriesOf(toFormData(repeatableSchema, { items: [{ title: "Pen", qty: 2 }] })),
+        [
+          ["items[0].title", "Pen"],
+          ["items[0].qty", "2"],
+        ],
+      );
+    });
+  });
+
+  describe("round-trip", () => {
+    const schema = vfd.formData({
+      name: vfd.text(),
+      age: vfd.numeric(v.pipe(v.number(), v.minValue(18))),
+      website: vfd.text(v.optional(v.string())),
+      acceptTerms: vfd.checkbox(),
+      newsletter: vfd.checkbox({ trueValue: "yes" }),
+      avatar: vfd.file(v.optional(v.instance(File))),
+      address: v.object({ street: vfd.text(), zip: vfd.text() }),
+      locations: v.array(v.object({ country: vfd.text(), city: vfd.text() })),
+      hobbies: vfd.repeatableOfType(vfd.text()),
+      scores: vfd.repeatableOfType(vfd.numeric()),
+      single: vfd.repeatable(),
+      empty: vfd.repeatable(),
+    });
+    const value = {
+      name: "John Doe",
+      age: 25,
+      website: undefined,
+      acceptTerms: true,
+      newsletter: false,
+      avatar: new File(["data"], "avatar.png", { type: "image/png" }),
+      address: { street: "123 Main St", zip: "10001" },
+      locations: [
+        { country: "USA", city: "New York" },
+        { country: "Canada", city: "Toronto" },
+      ],
+      hobbies: ["reading", "gaming"],
+      scores: [95, 87, 92],
+      single: ["only"],
+      empty: [],
+    };
+
+    for (const notation of ["dot", "bracket", "mixed"] as const) {
+      test(`should parse back into the same value with ${notation} notation`, () => {
+        const result = v.parse(schema, toFormData(schema, value, { notation }));
+        assert.deepStrictEqual(result, value);
+      });
+    }
+
+    test("should parse back empty arrays", () => {
+      const emptyValue = { ...value, locations: [], hobbies: [] };
+      assert.deepStrictEqual(v.parse(schema, toFormData(schema, emptyValue)), emptyValue);
+    });
+  });
+});
+
+describe("toSearchParams()", () => {
+  test("should serialize values to URLSearchParams", () => {
+    const schema = vfd.formData({
+      query: vfd.text(),
+      page: vfd.numeric(),
+      filters: v.object({ inStock: vfd.checkbox() }),
+    });
+    const result = toSearchParams(schema, { query: "shoes", page: 2, filters: { inStock: true } });
+    assert.strictEqual(result.toString(), "query=shoes&page=2&filters.inStock=on");
+  });
+
+  test("should round-trip through formData()", () => {
+    const schema = vfd.formData({ query: vfd.text(), tags: vfd.repeatable() });
+    const value = { query: "shoes", tags: ["red", "blue"] };
+    assert.deepStrictEqual(v.parse(schema, toSearchParams(schema, value)), value);
+  });
+
+  test("should throw on files", () => {
+    const schema = vfd.formData({ avatar: vfd.file() });
+    assert.throws(
+      () => toSearchParams(schema, { avatar: new File(["data"], "file.txt") }),
+      /Cannot serialize file at "avatar"/,
+    );
+  });
+});
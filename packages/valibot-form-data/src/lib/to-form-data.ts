@@ -0,0 +1,269 @@
+import { stringifyTemporalValue } from "./date-time.ts";
+import { getFieldKind, getNestedSchema, unwrapSchema } from "./field-kind.ts";
+import { findUnionOption, findVariantOption, isPlainObject } from "./missing-keys.ts";
+import { formatNumberValue } from "./number-format.ts";
+import { pathArrayToString } from "./path-array-to-string.ts";
+import type { PathNotation } from "./path-array-to-string.ts";
+import type * as v from "valibot";
+
+/**
+ * Configuration options for serializing values to FormData or URLSearchParams.
+ */
+export type SerializeOptions = {
+  /** Notation used for nested field names. Defaults to "mixed" (e.g. "items[0].name") */
+  notation?: PathNotation;
+};
+
+type Schema = v.GenericSchema | v.GenericSchemaAsync;
+type Path = Array<string | number>;
+type Entry = [path: Path, value: string | Blob];
+
+/**
+ * Checks if a value is a plain object or an array, i.e. a container that has to be flattened
+ * into multiple form entries instead of a single value.
+ *
+ * @param value - Value to check
+ * @returns Type predicate indicating if value is a plain object or an array
+ */
+function isContainer(value: unknown): value is Record<string | number, unknown> {
+  if (Array.isArray(value)) {
+    return true;
+  }
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Converts a single scalar value to its form representation.
+ *
+ * @param path - Path of the value, used in error messages
+ * @param value - Value to convert
+ * @returns String or Blob form value
+ */
+function toFormValue(path: Path, value: unknown): string | Blob {
+  if (typeof value === "string" || value instanceof Blob) {
+    return value;
+  }
+  if (typeof value === "number" || typeof value === "bigint" || typeof value === "boolean") {
+    return String(value);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  throw new Error(`Cannot serialize value of type ${typeof value} at path "${path.join(".")}"`);
+}
+
+/**
+ * Recursively flattens a value into form entries, using the schema to determine how each
+ * form helper encodes its value.
+ *
+ * @param schema - Schema describing the value, or undefined if unknown
+ * @param value - Value to flatten
+ * @param path - Path of the value
+ * @param entries - Array the entries are collected into (mutated)
+ */
+function collectEntries(
+  schema: Schema | undefined,
+  value: unknown,
+  path: Path,
+  entries: Array<Entry>,
+): void {
+  if (value === undefined || value === null) {
+    return;
+  }
+
+  const innerSchema = schema ? unwrapSchema(schema) : undefined;
+  const kind = getFieldKind(innerSchema);
+
+  switch (kind?.type) {
+    case "checkbox":
+      if (typeof value !== "boolean") {
+        throw new Error(
+          `Cannot serialize checkbox value of type ${typeof value} at path "${path.join(".")}"`,
+        );
+      }
+      // Like a browser, the hidden input is always submitted before the checkbox.
+      if (kind.hiddenFallback && kind.falseValue !== undefined) {
+        entries.push([path, kind.falseValue]);
+      } else if (value === false && kind.falseValue !== undefined) {
+        entries.push([path, kind.falseValue]);
+      }
+      // Otherwise unchecked checkboxes are not submitted at all.
+      if (value === true) {
+        entries.push([path, kind.trueValue]);
+      }
+      return;
+    case "json":
+      entries.push([path, JSON.stringify(value)]);
+      return;
+    case "temporal":
+      entries.push([path, stringifyTemporalValue(kind.format, value, kind.timeZone)]);
+      return;
+    case "numeric":
+      if (typeof value === "number" || typeof value === "bigint" || typeof value === "string") {
+        entries.push([path, formatNumberValue(value, kind.locale)]);
+        return;
+      }
+      break;
+    case "repeatable": {
+      if (!Array.isArray(value)) {
+        break;
+      }
+      const itemSchema = getNestedSchema(unwrapSchema(kind.schema), 0);
+      for (const [index, item] of value.entries()) {
+        // Scalar items are submitted as repeated keys, nested items need an index to be grouped.
+        collectEntries(itemSchema, item, isContainer(item) ? [...path, index] : path, entries);
+      }
+      return;
+    }
+    case "delimited": {
+      if (!Array.isArray(value)) {
+        break;
+      }
+      const itemEntries: Array<Entry> = [];
+      for (const item of value) {
+        collectEntries(kind.schema, item, path, itemEntries);
+      }
+      // An empty list is omitted, as a missing field parses to an empty array.
+      if (itemEntries.length > 0) {
+        entries.push([path, itemEntries.map(([, item]) => String(item)).join(kind.join)]);
+      }
+      return;
+    }
+    case "sort":
+      if (isPlainObject(value) && typeof value.field === "string") {
+        entries.push([path, value.direction === "desc" ? `-${value.field}` : value.field]);
+        return;
+      }
+      break;
+    case "form":
+      if (isContainer(value)) {
+        for (const [key, item] of Object.entries(value)) {
+          collectEntries(kind.entries[key], item, [...path, key], entries);
+        }
+        return;
+      }
+      break;
+  }
+
+  // Unions and variants are encoded like the option matching the value.
+  if ((innerSchema?.type === "union" || innerSchema?.type === "variant") && isPlainObject(value)) {
+    const option =
+      innerSchema.type === "variant"
+        ? findVariantOption(innerSchema, value)
+        : findUnionOption(innerSchema, value);
+    if (option !== undefined) {
+      collectEntries(option, value, path, entries);
+      return;
+    }
+  }
+
+  if (isContainer(value)) {
+    const containerEntries = Array.isArray(value) ? [...value.entries()] : Object.entries(value);
+    for (const [key, item] of containerEntries) {
+      const nestedSchema = innerSchema ? getNestedSchema(innerSchema, key) : undefined;
+      collectEntries(nestedSchema, item, [...path, key], entries);
+    }
+    return;
+  }
+
+  if (path.length === 0) {
+    throw new Error("Cannot serialize a scalar value without a field name");
+  }
+
+  entries.push([path, toFormValue(path, value)]);
+}
+
+/**
+ * Flattens a value into a list of [name, value] pairs.
+ * Also used to feed JSON request bodies into formData().
+ *
+ * @param schema - Schema describing the value
+ * @param value - Value to flatten
+ * @param options - Serialization options
+ * @returns Array of field name and form value pairs
+ */
+export function flatten(schema: Schema, value: unknown, options: SerializeOptions) {
+  const entries: Array<Entry> = [];
+  collectEntries(schema, value, [], entries);
+  return entries.map(([path, formValue]) => {
+    return [pathArrayToString(path, { notation: options.notation }), formValue] as const;
+  });
+}
+
+/**
+ * Serializes a typed value into FormData. This is the inverse of formData(), so parsing the
+ * result with the same schema gives back the original value.
+ *
+ * Nested objects and arrays are flattened into dot/bracket notation field names, and values of
+ * form helpers are encoded the way a browser would submit them: checkbox() as its trueValue
+ * (or omitted when false), numeric() as a string in the format of its locale, file() as the
+ * File itself, repeatable() as repeated keys and delimited() as its items joined into a single
+ * value. Undefined and null values are omitted, e.g. an undefined checkbox({ tristate: true }),
+ * and so are empty arrays, which formData() parses back to empty arrays.
+ *
+ * @param schema - Schema describing the value, usually created with formData()
+ * @param value - Value to serialize
+ * @param options - Serialization options
+ * @returns FormData containing the flattened value
+ *
+ * @example
+ * const schema = formData({
+ *   name: text(),
+ *   age: numeric(),
+ *   subscribe: checkbox(),
+ *   tags: repeatable(),
+ *   address: v.object({ city: text() }),
+ * });
+ *
+ * toFormData(schema, {
+ *   name: "John",
+ *   age: 30,
+ *   subscribe: true,
+ *   tags: ["a", "b"],
+ *   address: { city: "NYC" },
+ * });
+ * // FormData: name=John, age=30, subscribe=on, tags=a, tags=b, address.city=NYC
+ */
+export function toFormData<TSchema extends Schema>(
+  schema: TSchema,
+  value: v.InferOutput<TSchema>,
+  options: SerializeOptions = {},
+): FormData {
+  const result = new FormData();
+  for (const [name, formValue] of flatten(schema, value, options)) {
+    result.append(name, formValue);
+  }
+  return result;
+}
+
+/**
+ * Serializes a typed value into URLSearchParams. Works like toFormData(), but throws if the
+ * value contains files, as they cannot be represented in URLSearchParams.
+ *
+ * @param schema - Schema describing the value, usually created with formData()
+ * @param value - Value to serialize
+ * @param options - Serialization options
+ * @returns URLSearchParams containing the flattened value
+ *
+ * @example
+ * const schema = formData({ query: text(), page: numeric() });
+ * toSearchParams(schema, { query: "shoes", page: 2 }).toString(); // "query=shoes&page=2"
+ */
+export function toSearchParams<TSchema extends Schema>(
+  schema: TSchema,
+  value: v.InferOutput<TSchema>,
+  options: SerializeOptions = {},
+): URLSearchParams {
+  const result = new URLSearchParams();
+  for (const [name, formValue] of flatten(schema, value, options)) {
+    if (typeof formValue !== "string") {
+      throw new Error(`Cannot serialize file at "${name}" to URLSearchParams`);
+    }
+    result.append(name, formValue);
+  }
+  return result;
+}
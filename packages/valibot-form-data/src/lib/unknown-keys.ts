@@ -0,0 +1,226 @@
+import * as v from "valibot";
+import { getFieldKind, getNestedSchema, unwrapSchema } from "./field-kind.ts";
+import { findUnionOption, findVariantOption, isPlainObject } from "./missing-keys.ts";
+import { APPEND_SEGMENT } from "./string-to-path-array.ts";
+import type { PathSegment } from "./string-to-path-array.ts";
+
+type Schema = v.GenericSchema | v.GenericSchemaAsync;
+type Entries = v.ObjectEntries | v.ObjectEntriesAsync;
+
+/**
+ * Returns the entries of an object schema that removes unknown keys, i.e. v.object() or a form
+ * schema. Other object schemas keep (v.looseObject()) or validate (v.strictObject(),
+ * v.objectWithRest()) their unknown keys themselves.
+ *
+ * @param schema - Unwrapped schema
+ * @returns The entries or undefined if the schema does not remove unknown keys
+ */
+function getStrippingEntries(schema: Schema): Entries | undefined {
+  const kind = getFieldKind(schema);
+  if (kind?.type === "form") {
+    return kind.entries;
+  }
+  return kind === undefined && schema.type === "object" && "entries" in schema
+    ? (schema.entries as Entries)
+    : undefined;
+}
+
+/**
+ * Checks if the path of a field leads through a key that is not part of the schema.
+ *
+ * @param schema - Schema of the value at the start of the path
+ * @param segments - Remaining path segments of the field name
+ * @returns True if the value would be removed by an object schema
+ */
+function isUnknownPath(schema: Schema, segments: Array<PathSegment>): boolean {
+  const [segment, ...rest] = segments;
+  if (segment === undefined) {
+    return false;
+  }
+  const inner = unwrapSchema(schema);
+  const kind = getFieldKind(inner);
+  if (kind?.type === "repeatable") {
+    return isUnknownPath(kind.schema, segments);
+  }
+
+  const entries = getStrippingEntries(inner);
+  if (entries !== undefined) {
+    return isUnknownEntry(entries, segments);
+  }
+  if (kind !== undefined) {
+    return false;
+  }
+  if ((inner.type === "union" || inner.type === "variant") && "options" in inner) {
+    // Unknown only if no object option declares the key.
+    const objectOptions = (inner.options as Array<Schema>).filter((option) => {
+      return "entries" in unwrapSchema(option);
+    });
+    return (
+      objectOptions.length > 0 && objectOptions.every((option) => isUnknownPath(option, segments))
+    );
+  }
+  if (inner.type === "tuple" && typeof segment === "number" && "items" in inner) {
+    const item = (inner.items as Array<Schema>)[segment];
+    return item === undefined || isUnknownPath(item, rest);
+  }
+  const nested =
+    segment === APPEND_SEGMENT ? getNestedSchema(inner, 0) : getNestedSchema(inner, segment);
+  return nested === undefined ? false : isUnknownPath(nested, rest);
+}
+
+/**
+ * Checks if the path of a field leads through a key that is not part of the object entries.
+ *
+ * @param entries - Entries of the object
+ * @param segments - Path segments of the field name, starting with the key in the object
+ * @returns True if the value would be removed by the object schema
+ */
+function isUnknownEntry(entries: Entries, segments: Array<PathSegment>): boolean {
+  const [segment, ...rest] = segments;
+  if (segment === undefined || segment === APPEND_SEGMENT) {
+    return false;
+  }
+  const key = String(segment);
+  return Object.hasOwn(entries, key) ? isUnknownPath(entries[key] as Schema, rest) : true;
+}
+
+/**
+ * Checks if a submitted field is not part of the shape of a form schema, at any depth.
+ * Fields are unknown when an object schema would remove them, e.g. "role" or "address.country"
+ * for a shape without these keys.
+ *
+ * @param schema - Object, union or variant schema of the form
+ * @param segments - Path segments of the field name
+ * @returns True if the field is not part of the shape
+ */
+export function isUnknownField(schema: Schema, segments: Array<PathSegment>): boolean {
+  return isUnknownPath(schema, segments);
+}
+
+/**
+ * Recursively copies the values of an input that were removed by the schema into its output
+ * (mutated), following the containers that exist in both.
+ *
+ * @param schema - Schema of the value
+ * @param input - Value before validation
+ * @param output - Value after validation
+ */
+function mergeUnknownKeys(schema: Schema, input: unknown, output: unknown): void {
+  const inner = unwrapSchema(schema);
+  const kind = getFieldKind(inner);
+  if (kind?.type === "repeatable") {
+    mergeUnknownKeys(kind.schema, input, output);
+    return;
+  }
+
+  const entries = getStrippingEntries(inner);
+  if (entries !== undefined) {
+    if (isPlainObject(input) && isPlainObject(output)) {
+      for (const [key, value] of Object.entries(input)) {
+        if (Object.hasOwn(entries, key)) {
+          mergeUnknownKeys(entries[key] as Schema, value, output[key]);
+        } else {
+          output[key] = value;
+        }
+      }
+    }
+    return;
+  }
+  if (kind !== undefined) {
+    return;
+  }
+
+  if (Array.isArray(input) && Array.isArray(output)) {
+    for (const [index, item] of input.entries()) {
+      const nested = getNestedSchema(inner, index);
+      if (nested !== undefined) {
+        mergeUnknownKeys(nested, item, output[index]);
+      } else if (inner.type === "tuple") {
+        output[index] = item;
+      }
+    }
+  } else if (isPlainObject(input) && isPlainObject(output)) {
+    // The output only has the keys of the option that matched.
+    const option =
+      inner.type === "variant" ? findVariantOption(inner, output) : findUnionOption(inner, output);
+    if (option !== undefined) {
+      mergeUnknownKeys(option, input, output);
+    } else if (inner.type === "record" && "value" in inner) {
+      for (const [key, value] of Object.entries(input)) {
+        mergeUnknownKeys(inner.value as Schema, value, output[key]);
+      }
+    }
+  }
+}
+
+/**
+ * Converts an issue of the object schema into the info of an issue added by a transformation,
+ * keeping its message and path.
+ *
+ * @param issue - Issue of the object schema
+ * @returns Issue info for addIssue()
+ */
+function toIssueInfo(issue: v.BaseIssue<unknown>) {
+  const { input, expected, received, message, path, issues } = issue;
+  return { input, expected: expected ?? undefined, received, message, path, issues };
+}
+
+/**
+ * Picks the options of a parse config that apply to the object schema of a form.
+ *
+ * @param config - Config of the transformation
+ * @returns Config for parsing the object
+ */
+function toParseConfig<TIssue extends v.BaseIssue<unknown>>({
+  lang,
+  abortEarly,
+  abortPipeEarly,
+}: v.Config<TIssue>) {
+  return { lang, abortEarly, abortPipeEarly };
+}
+
+/**
+ * Transformation action that validates the object of a form with its schema and keeps the
+ * submitted fields that are not part of its shape in the output at any depth, instead of
+ * removing them.
+ *
+ * @param schema - Object, union or variant schema of the form
+ * @returns Valibot action that validates the object and adds the unknown fields
+ */
+export function passthroughUnknownKeys(schema: v.GenericSchema<Record<string, unknown>>) {
+  return v.rawTransform<Record<string, unknown>, Record<string, unknown>>(
+    ({ dataset, config, addIssue, NEVER }) => {
+      const result = v.safeParse(schema, dataset.value, toParseConfig(config));
+      if (!result.success) {
+        for (const issue of result.issues) {
+          addIssue(toIssueInfo(issue));
+        }
+        return NEVER;
+      }
+      mergeUnknownKeys(schema, dataset.value, result.output);
+      return result.output;
+    },
+  );
+}
+
+/**
+ * Async version of passthroughUnknownKeys() for the schemas of formDataAsync().
+ *
+ * @param schema - Object, union or variant schema of the form, which may contain async schemas
+ * @returns Async Valibot action that validates the object and adds the unknown fields
+ */
+export function passthroughUnknownKeysAsync(schema: v.GenericSchemaAsync<Record<string, unknown>>) {
+  return v.rawTransformAsync<Record<string, unknown>, Record<string, unknown>>(
+    async ({ dataset, config, addIssue, NEVER }) => {
+      const result = await v.safeParseAsync(schema, dataset.value, toParseConfig(config));
+      if (!result.success) {
+        for (const issue of result.issues) {
+          addIssue(toIssueInfo(issue));
+        }
+        return NEVER;
+      }
+      mergeUnknownKeys(schema, dataset.value, result.output);
+      return result.output;
+    },
+  );
+}